@@ -0,0 +1,37 @@
+import type { Metadata } from "next"
+import { redirect } from "next/navigation"
+import Navigation from "@/components/navigation"
+import ModerationQueue from "@/components/moderation-queue"
+import { createServerSupabaseClient } from "@/lib/supabase-server"
+
+export const metadata: Metadata = {
+  title: "Moderation - PulseSpace",
+}
+
+export default async function ModerationPage() {
+  const supabase = createServerSupabaseClient()
+
+  const {
+    data: { session },
+  } = await supabase.auth.getSession()
+
+  if (!session) {
+    redirect("/login")
+  }
+
+  // Middleware already checked the token's role claim; RLS hides reports from everyone else anyway
+  const { data: isModerator } = await supabase.rpc("is_moderator")
+
+  if (!isModerator) {
+    redirect("/")
+  }
+
+  return (
+    <main className="min-h-screen pt-20 pb-20 md:pb-0">
+      <Navigation />
+      <div className="container mx-auto px-4 max-w-4xl">
+        <ModerationQueue />
+      </div>
+    </main>
+  )
+}
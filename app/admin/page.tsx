@@ -0,0 +1,61 @@
+import type { Metadata } from "next"
+import Link from "next/link"
+import { redirect } from "next/navigation"
+import { Flag } from "lucide-react"
+import Navigation from "@/components/navigation"
+import AdminUsers from "@/components/admin-users"
+import { createServerSupabaseClient } from "@/lib/supabase-server"
+
+export const metadata: Metadata = {
+  title: "Admin - PulseSpace",
+}
+
+export default async function AdminPage() {
+  const supabase = createServerSupabaseClient()
+
+  const {
+    data: { session },
+  } = await supabase.auth.getSession()
+
+  if (!session) {
+    redirect("/login")
+  }
+
+  // Middleware already checked the token's role claim; this checks the current role in the database
+  const { data: isAdmin } = await supabase.rpc("is_admin")
+
+  if (!isAdmin) {
+    redirect("/")
+  }
+
+  const { count: openReports } = await supabase
+    .from("reports")
+    .select("id", { count: "exact", head: true })
+    .eq("status", "open")
+
+  return (
+    <main className="min-h-screen pt-20 pb-20 md:pb-0">
+      <Navigation />
+      <div className="container mx-auto px-4 max-w-4xl">
+        <div className="bg-white dark:bg-gray-800 rounded-lg shadow-md p-6 mt-6 animate-fade-in">
+          <div className="flex items-center justify-between mb-6">
+            <h1 className="text-2xl font-bold text-gray-900 dark:text-white">Admin</h1>
+            <Link
+              href="/admin/moderation"
+              className="flex items-center px-4 py-2 bg-gray-200 dark:bg-gray-700 text-gray-800 dark:text-gray-200 rounded-md hover:bg-gray-300 dark:hover:bg-gray-600 transition-colors"
+            >
+              <Flag className="h-4 w-4 mr-2" />
+              Moderation queue
+              {!!openReports && (
+                <span className="ml-2 px-2 py-0.5 rounded-full text-xs bg-red-500 text-white">{openReports}</span>
+              )}
+            </Link>
+          </div>
+
+          <h2 className="text-lg font-semibold text-gray-900 dark:text-white mb-4">Users</h2>
+          <AdminUsers />
+        </div>
+      </div>
+    </main>
+  )
+}
@@ -0,0 +1,21 @@
+import { type NextRequest, NextResponse } from "next/server"
+import { getLinkPreview } from "@/lib/link-preview"
+
+export async function GET(request: NextRequest) {
+  const url = request.nextUrl.searchParams.get("url")
+
+  if (!url || url.length > 2048 || !URL.canParse(url)) {
+    return NextResponse.json({ error: "A valid url is required" }, { status: 400 })
+  }
+
+  try {
+    const preview = await getLinkPreview(url)
+
+    return NextResponse.json(preview, {
+      headers: { "Cache-Control": "private, max-age=3600" },
+    })
+  } catch (error) {
+    console.error("Error fetching link preview:", error)
+    return NextResponse.json({ error: "Could not load a preview for this link" }, { status: 502 })
+  }
+}
@@ -1,6 +1,7 @@
 import { redirect } from "next/navigation"
 import Navigation from "@/components/navigation"
 import NotificationsList from "@/components/notifications-list"
+import FollowRequests from "@/components/follow-requests"
 import { createServerSupabaseClient } from "@/lib/supabase-server"
 
 export default async function NotificationsPage() {
@@ -18,6 +19,7 @@ export default async function NotificationsPage() {
     <main className="min-h-screen pt-20 pb-20 md:pb-0">
       <Navigation />
       <div className="container mx-auto px-4 max-w-4xl">
+        <FollowRequests />
         <NotificationsList />
       </div>
     </main>
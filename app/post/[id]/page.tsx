@@ -0,0 +1,126 @@
+import { cache } from "react"
+import type { Metadata } from "next"
+import { redirect } from "next/navigation"
+import Navigation from "@/components/navigation"
+import PostDetail from "@/components/post-detail"
+import { createServerSupabaseClient } from "@/lib/supabase-server"
+import { getURL } from "@/lib/utils/get-url"
+import { isPostMediaPath, POST_MEDIA_BUCKET, sortPostMedia, type Post } from "@/lib/posts"
+import { REACTIONS_SELECT } from "@/lib/reactions"
+import { toPlainText } from "@/lib/rich-text"
+
+// Shared between generateMetadata and the page so the post is only queried once per request
+const getPost = cache(async (postId: string) => {
+  const supabase = createServerSupabaseClient()
+
+  const { data: post } = await supabase
+    .from("posts")
+    .select(`
+      *,
+      profiles:user_id(username, avatar_url),
+      post_media(id, url, media_type, blurhash, position),
+      likes_count:likes(count),
+      comments_count:comments(count),
+      ${REACTIONS_SELECT}
+    `)
+    .eq("id", postId)
+    .maybeSingle()
+
+  return post
+})
+
+// Link previews are fetched some time after the page, so media in the private bucket gets a longer lived URL.
+// Signing runs as the viewer, so it only succeeds for media they are allowed to see
+const SHARE_IMAGE_EXPIRY = 7 * 24 * 60 * 60
+
+async function getShareImageUrl(url: string) {
+  if (!isPostMediaPath(url)) return url
+
+  const { data } = await createServerSupabaseClient()
+    .storage.from(POST_MEDIA_BUCKET)
+    .createSignedUrl(url, SHARE_IMAGE_EXPIRY)
+
+  return data?.signedUrl ?? null
+}
+
+export async function generateMetadata({ params }: { params: { id: string } }): Promise<Metadata> {
+  const post = await getPost(params.id)
+
+  if (!post) {
+    return { title: "Post not found - PulseSpace" }
+  }
+
+  const title = `Post by ${post.profiles.username} - PulseSpace`
+  const content = toPlainText(post.content)
+  const description = content.substring(0, 200) + (content.length > 200 ? "..." : "")
+  const firstImage = sortPostMedia(post.post_media).find((media) => media.media_type === "image")
+  const image = firstImage ? await getShareImageUrl(firstImage.url) : post.image_url
+  const images = image ? [image] : undefined
+
+  return {
+    title,
+    description,
+    openGraph: {
+      title,
+      description,
+      url: `${getURL()}post/${post.id}`,
+      siteName: "PulseSpace",
+      type: "article",
+      publishedTime: post.created_at,
+      images,
+    },
+    twitter: {
+      card: image ? "summary_large_image" : "summary",
+      title,
+      description,
+      images,
+    },
+  }
+}
+
+export default async function PostPage({ params }: { params: { id: string } }) {
+  const supabase = createServerSupabaseClient()
+
+  const {
+    data: { session },
+  } = await supabase.auth.getSession()
+
+  const post = await getPost(params.id)
+
+  if (!post) {
+    redirect("/404")
+  }
+
+  // Check whether the viewer has liked this post
+  let userHasLiked = false
+
+  if (session) {
+    const { data: like } = await supabase
+      .from("likes")
+      .select("id")
+      .eq("post_id", post.id)
+      .eq("user_id", session.user.id)
+      .maybeSingle()
+
+    userHasLiked = !!like
+  }
+
+  const initialPost: Post = {
+    ...post,
+    profiles: post.profiles as any,
+    post_media: sortPostMedia(post.post_media),
+    likes_count: post.likes_count[0]?.count || 0,
+    comments_count: post.comments_count[0]?.count || 0,
+    user_has_liked: userHasLiked,
+    reactions: post.reactions || [],
+  }
+
+  return (
+    <main className="min-h-screen pt-20 pb-20 md:pb-0">
+      <Navigation />
+      <div className="container mx-auto px-4 max-w-4xl">
+        <PostDetail initialPost={initialPost} />
+      </div>
+    </main>
+  )
+}
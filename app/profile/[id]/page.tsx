@@ -1,4 +1,5 @@
 import { redirect } from "next/navigation"
+import { Ban, Lock } from "lucide-react"
 import Navigation from "@/components/navigation"
 import ProfileHeader from "@/components/profile-header"
 import ProfilePosts from "@/components/profile-posts"
@@ -22,12 +23,83 @@ export default async function ProfilePage({ params }: { params: { id: string } }
     redirect("/404")
   }
 
+  // Fetch profile stats and the viewer's relationship to this profile.
+  // Stats come from an RPC so private profiles still show their counts
+  const [
+    { data: stats },
+    { data: viewerFollow },
+    { data: viewerRequest },
+    { data: viewerBlock },
+    { data: viewerMute },
+    { data: blockedIds },
+  ] = await Promise.all([
+    supabase.rpc("get_profile_stats", { profile_id: params.id }),
+    supabase
+      .from("follows")
+      .select("id")
+      .eq("follower_id", session.user.id)
+      .eq("following_id", params.id)
+      .maybeSingle(),
+    supabase
+      .from("follow_requests")
+      .select("id")
+      .eq("requester_id", session.user.id)
+      .eq("target_id", params.id)
+      .maybeSingle(),
+    supabase
+      .from("blocks")
+      .select("blocked_id")
+      .eq("blocker_id", session.user.id)
+      .eq("blocked_id", params.id)
+      .maybeSingle(),
+    supabase.from("mutes").select("muted_id").eq("muter_id", session.user.id).eq("muted_id", params.id).maybeSingle(),
+    supabase.rpc("blocked_user_ids"),
+  ])
+
+  const isCurrentUser = session.user.id === params.id
+  const isBlocking = !!viewerBlock
+  const isBlockedByProfile = !isBlocking && !!blockedIds?.includes(params.id)
+  const canViewPosts = !isBlocking && !isBlockedByProfile && (isCurrentUser || !profile.is_private || !!viewerFollow)
+
   return (
     <main className="min-h-screen pt-20 pb-20 md:pb-0">
       <Navigation />
       <div className="container mx-auto px-4 max-w-4xl">
-        <ProfileHeader profile={profile} isCurrentUser={session.user.id === params.id} />
-        <ProfilePosts userId={params.id} />
+        <ProfileHeader
+          profile={profile}
+          isCurrentUser={isCurrentUser}
+          postsCount={stats?.[0]?.posts_count || 0}
+          initialFollowersCount={stats?.[0]?.followers_count || 0}
+          followingCount={stats?.[0]?.following_count || 0}
+          initialIsFollowing={!!viewerFollow}
+          initialIsRequested={!!viewerRequest}
+          initialIsBlocking={isBlocking}
+          initialIsMuted={!!viewerMute}
+          isBlockedByProfile={isBlockedByProfile}
+        />
+        {canViewPosts ? (
+          <ProfilePosts userId={params.id} />
+        ) : isBlocking || isBlockedByProfile ? (
+          <div className="bg-white dark:bg-gray-800 rounded-lg shadow-md p-8 mt-6 text-center animate-fade-in">
+            <div className="bg-gray-100 dark:bg-gray-700 p-4 rounded-full inline-block mb-4">
+              <Ban className="h-8 w-8 text-gray-500 dark:text-gray-400" />
+            </div>
+            <h3 className="text-lg font-medium mb-2">
+              {isBlocking ? "You've blocked this account" : "This account isn't available"}
+            </h3>
+            <p className="text-gray-500 dark:text-gray-400">
+              {isBlocking ? "Unblock them to see their posts." : "You can't see posts from this account."}
+            </p>
+          </div>
+        ) : (
+          <div className="bg-white dark:bg-gray-800 rounded-lg shadow-md p-8 mt-6 text-center animate-fade-in">
+            <div className="bg-gray-100 dark:bg-gray-700 p-4 rounded-full inline-block mb-4">
+              <Lock className="h-8 w-8 text-gray-500 dark:text-gray-400" />
+            </div>
+            <h3 className="text-lg font-medium mb-2">This account is private</h3>
+            <p className="text-gray-500 dark:text-gray-400">Follow this account to see their posts.</p>
+          </div>
+        )}
       </div>
     </main>
   )
@@ -1,6 +1,7 @@
 import { redirect } from "next/navigation"
 import Navigation from "@/components/navigation"
-import SearchUsers from "@/components/search-users"
+import Search from "@/components/search"
+import TrendingTags from "@/components/trending-tags"
 import { createServerSupabaseClient } from "@/lib/supabase-server"
 
 export default async function SearchPage() {
@@ -14,11 +15,14 @@ export default async function SearchPage() {
     redirect("/login")
   }
 
+  const { data: trendingTags } = await supabase.rpc("trending_tags", { max_tags: 10 })
+
   return (
     <main className="min-h-screen pt-20 pb-20 md:pb-0">
       <Navigation />
       <div className="container mx-auto px-4 max-w-4xl">
-        <SearchUsers />
+        <Search />
+        <TrendingTags tags={trendingTags || []} />
       </div>
     </main>
   )
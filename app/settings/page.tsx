@@ -0,0 +1,82 @@
+import type React from "react"
+import type { Metadata } from "next"
+import { redirect } from "next/navigation"
+import Navigation from "@/components/navigation"
+import AccountSettings from "@/components/account-settings"
+import AppearanceSettings from "@/components/appearance-settings"
+import BlockedUsersSettings from "@/components/blocked-users-settings"
+import ChangeUsernameForm from "@/components/change-username-form"
+import NotificationSettings from "@/components/notification-settings"
+import PrivacySettings from "@/components/privacy-settings"
+import { createServerSupabaseClient } from "@/lib/supabase-server"
+import { DEFAULT_SETTINGS, SETTINGS_COLUMNS } from "@/lib/settings"
+
+export const metadata: Metadata = {
+  title: "Settings - PulseSpace",
+}
+
+function SettingsSection({ title, children }: { title: string; children: React.ReactNode }) {
+  return (
+    <section className="py-6 border-t border-gray-200 dark:border-gray-700 first:border-t-0 first:pt-0 last:pb-0">
+      <h2 className="text-lg font-semibold text-gray-900 dark:text-white mb-4">{title}</h2>
+      {children}
+    </section>
+  )
+}
+
+export default async function SettingsPage() {
+  const supabase = createServerSupabaseClient()
+
+  const {
+    data: { session },
+  } = await supabase.auth.getSession()
+
+  if (!session) {
+    redirect("/login")
+  }
+
+  const [{ data: profile }, { data: savedSettings }] = await Promise.all([
+    supabase.from("profiles").select("username, username_changed_at, is_private").eq("id", session.user.id).single(),
+    supabase.from("user_settings").select(SETTINGS_COLUMNS).eq("user_id", session.user.id).maybeSingle(),
+  ])
+
+  if (!profile) {
+    redirect("/")
+  }
+
+  const settings = savedSettings ?? DEFAULT_SETTINGS
+
+  return (
+    <main className="min-h-screen pt-20 pb-20 md:pb-0">
+      <Navigation />
+      <div className="container mx-auto px-4 max-w-4xl">
+        <div className="bg-white dark:bg-gray-800 rounded-lg shadow-md p-6 mt-6 animate-fade-in">
+          <h1 className="text-2xl font-bold text-gray-900 dark:text-white mb-6">Settings</h1>
+
+          <SettingsSection title="Account">
+            <div className="space-y-6">
+              <ChangeUsernameForm username={profile.username} usernameChangedAt={profile.username_changed_at} />
+              <AccountSettings email={session.user.email || ""} />
+            </div>
+          </SettingsSection>
+
+          <SettingsSection title="Privacy">
+            <PrivacySettings initialSettings={settings} initialIsPrivate={profile.is_private} />
+          </SettingsSection>
+
+          <SettingsSection title="Blocked and muted accounts">
+            <BlockedUsersSettings />
+          </SettingsSection>
+
+          <SettingsSection title="Notifications">
+            <NotificationSettings initialSettings={settings} />
+          </SettingsSection>
+
+          <SettingsSection title="Appearance">
+            <AppearanceSettings />
+          </SettingsSection>
+        </div>
+      </div>
+    </main>
+  )
+}
@@ -0,0 +1,44 @@
+import type { Metadata } from "next"
+import { redirect } from "next/navigation"
+import Navigation from "@/components/navigation"
+import TagPosts from "@/components/tag-posts"
+import { createServerSupabaseClient } from "@/lib/supabase-server"
+import { normalizeTag } from "@/lib/rich-text"
+
+export async function generateMetadata({ params }: { params: { name: string } }): Promise<Metadata> {
+  return { title: `#${normalizeTag(decodeURIComponent(params.name))} - PulseSpace` }
+}
+
+export default async function TagPage({ params }: { params: { name: string } }) {
+  const supabase = createServerSupabaseClient()
+
+  const {
+    data: { session },
+  } = await supabase.auth.getSession()
+
+  if (!session) {
+    redirect("/login")
+  }
+
+  const tag = normalizeTag(decodeURIComponent(params.name))
+
+  const { count: postsCount } = await supabase
+    .from("post_tags")
+    .select("*", { count: "exact", head: true })
+    .eq("tag", tag)
+
+  return (
+    <main className="min-h-screen pt-20 pb-20 md:pb-0">
+      <Navigation />
+      <div className="container mx-auto px-4 max-w-4xl">
+        <div className="bg-white dark:bg-gray-800 rounded-lg shadow-md p-6 mt-6 animate-fade-in">
+          <h1 className="text-2xl font-bold text-gray-900 dark:text-white">#{tag}</h1>
+          <p className="text-sm text-gray-600 dark:text-gray-400 mt-1">
+            {postsCount || 0} {postsCount === 1 ? "post" : "posts"}
+          </p>
+        </div>
+        <TagPosts tag={tag} />
+      </div>
+    </main>
+  )
+}
@@ -0,0 +1,19 @@
+import { redirect } from "next/navigation"
+import { createServerSupabaseClient } from "@/lib/supabase-server"
+
+// Vanity profile links: /u/<username> leads to the profile that holds the handle now,
+// or to the profile of whoever most recently gave it up
+export default async function UsernamePage({ params }: { params: { username: string } }) {
+  const supabase = createServerSupabaseClient()
+
+  const handle = decodeURIComponent(params.username).replace(/^@/, "")
+
+  const { data } = await supabase.rpc("resolve_username", { handle })
+  const resolved = data?.[0]
+
+  if (!resolved) {
+    redirect("/404")
+  }
+
+  redirect(`/profile/${resolved.user_id}`)
+}
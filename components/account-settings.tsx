@@ -0,0 +1,160 @@
+"use client"
+
+import type React from "react"
+
+import { useState } from "react"
+import { supabase } from "@/lib/supabase"
+import { getURL } from "@/lib/utils/get-url"
+
+type AccountSettingsProps = {
+  email: string
+}
+
+const inputClassName =
+  "w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-md focus:outline-none focus:ring-2 focus:ring-primary dark:bg-gray-700 dark:text-white"
+
+const buttonClassName =
+  "px-4 py-2 bg-primary text-white rounded-md hover:bg-primary/90 transition-colors disabled:opacity-70"
+
+type Status = { type: "error" | "success"; message: string } | null
+
+function StatusMessage({ status }: { status: Status }) {
+  if (!status) return null
+
+  return (
+    <p className={`mt-2 text-sm ${status.type === "error" ? "text-red-500" : "text-green-600 dark:text-green-400"}`}>
+      {status.message}
+    </p>
+  )
+}
+
+export default function AccountSettings({ email }: AccountSettingsProps) {
+  const [newEmail, setNewEmail] = useState(email)
+  const [emailStatus, setEmailStatus] = useState<Status>(null)
+  const [isSavingEmail, setIsSavingEmail] = useState(false)
+  const [password, setPassword] = useState("")
+  const [confirmPassword, setConfirmPassword] = useState("")
+  const [passwordStatus, setPasswordStatus] = useState<Status>(null)
+  const [isSavingPassword, setIsSavingPassword] = useState(false)
+
+  const handleEmailSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+    if (newEmail.trim() === email) return
+
+    setIsSavingEmail(true)
+    setEmailStatus(null)
+
+    try {
+      const { error } = await supabase.auth.updateUser(
+        { email: newEmail.trim() },
+        { emailRedirectTo: `${getURL()}auth/confirm` },
+      )
+
+      if (error) throw error
+
+      setEmailStatus({
+        type: "success",
+        message: "Check your inbox to confirm the new address. Your email won't change until you do.",
+      })
+    } catch (error: any) {
+      console.error("Error updating email:", error)
+      setEmailStatus({ type: "error", message: error.message || "Failed to update email" })
+    } finally {
+      setIsSavingEmail(false)
+    }
+  }
+
+  const handlePasswordSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+    setPasswordStatus(null)
+
+    if (password.length < 6) {
+      setPasswordStatus({ type: "error", message: "Password must be at least 6 characters long" })
+      return
+    }
+
+    if (password !== confirmPassword) {
+      setPasswordStatus({ type: "error", message: "Passwords don't match" })
+      return
+    }
+
+    setIsSavingPassword(true)
+
+    try {
+      const { error } = await supabase.auth.updateUser({ password })
+
+      if (error) throw error
+
+      setPassword("")
+      setConfirmPassword("")
+      setPasswordStatus({ type: "success", message: "Your password has been updated" })
+    } catch (error: any) {
+      console.error("Error updating password:", error)
+      setPasswordStatus({ type: "error", message: error.message || "Failed to update password" })
+    } finally {
+      setIsSavingPassword(false)
+    }
+  }
+
+  return (
+    <div className="space-y-6">
+      <form onSubmit={handleEmailSubmit}>
+        <label htmlFor="email" className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+          Email
+        </label>
+        <div className="flex gap-2">
+          <input
+            id="email"
+            type="email"
+            value={newEmail}
+            onChange={(e) => setNewEmail(e.target.value)}
+            className={inputClassName}
+            required
+          />
+          <button type="submit" disabled={isSavingEmail || newEmail.trim() === email} className={buttonClassName}>
+            {isSavingEmail ? "Saving..." : "Update"}
+          </button>
+        </div>
+        <StatusMessage status={emailStatus} />
+      </form>
+
+      <form onSubmit={handlePasswordSubmit} className="space-y-3">
+        <div>
+          <label htmlFor="new-password" className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+            New password
+          </label>
+          <input
+            id="new-password"
+            type="password"
+            value={password}
+            onChange={(e) => setPassword(e.target.value)}
+            autoComplete="new-password"
+            className={inputClassName}
+            required
+          />
+        </div>
+        <div>
+          <label
+            htmlFor="confirm-password"
+            className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1"
+          >
+            Confirm new password
+          </label>
+          <input
+            id="confirm-password"
+            type="password"
+            value={confirmPassword}
+            onChange={(e) => setConfirmPassword(e.target.value)}
+            autoComplete="new-password"
+            className={inputClassName}
+            required
+          />
+        </div>
+        <button type="submit" disabled={isSavingPassword} className={buttonClassName}>
+          {isSavingPassword ? "Saving..." : "Change password"}
+        </button>
+        <StatusMessage status={passwordStatus} />
+      </form>
+    </div>
+  )
+}
@@ -0,0 +1,260 @@
+"use client"
+
+import { useState, useEffect } from "react"
+import Link from "next/link"
+import Image from "next/image"
+import { formatDistanceToNow } from "date-fns"
+import { Search as SearchIcon } from "lucide-react"
+import { useAuth } from "@/contexts/auth-context"
+import {
+  ADMIN_USERS_PAGE_SIZE,
+  isSuspended,
+  listUsers,
+  setUserRole,
+  signOutUser,
+  suspendUser,
+  unsuspendUser,
+  type AdminUser,
+} from "@/lib/admin"
+import { SUSPENSION_DAYS_OPTIONS } from "@/lib/moderation"
+import type { UserRole } from "@/lib/roles"
+
+const ROLE_OPTIONS: { value: UserRole; label: string }[] = [
+  { value: "user", label: "User" },
+  { value: "moderator", label: "Moderator" },
+  { value: "admin", label: "Admin" },
+]
+
+function AdminUserRow({ user, isSelf, onChanged }: { user: AdminUser; isSelf: boolean; onChanged: () => void }) {
+  const [suspendDays, setSuspendDays] = useState(7)
+  const [isPending, setIsPending] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const suspended = isSuspended(user)
+
+  const runAction = async (action: () => Promise<void>) => {
+    setIsPending(true)
+    setError(null)
+
+    try {
+      await action()
+      onChanged()
+    } catch (error: any) {
+      console.error("Error updating user:", error)
+      setError(error.message || "Failed to update user")
+    } finally {
+      setIsPending(false)
+    }
+  }
+
+  const handleSuspend = () => {
+    if (!confirm(`Suspend @${user.username} for ${suspendDays} days?`)) return
+    runAction(() => suspendUser(user.id, suspendDays))
+  }
+
+  const handleSignOut = () => {
+    if (!confirm(`Sign @${user.username} out of every device?`)) return
+    runAction(() => signOutUser(user.id))
+  }
+
+  const handleRoleChange = (role: UserRole) => {
+    if (!confirm(`Make @${user.username} ${role === "user" ? "a regular user" : `a ${role}`}?`)) return
+    runAction(() => setUserRole(user.id, role))
+  }
+
+  return (
+    <li className="py-4">
+      <div className="flex items-start space-x-3">
+        <Link href={`/profile/${user.id}`} className="flex-shrink-0">
+          {user.avatar_url ? (
+            <Image
+              src={user.avatar_url || "/placeholder.svg"}
+              alt={user.username}
+              width={40}
+              height={40}
+              className="rounded-full object-cover"
+            />
+          ) : (
+            <div className="w-10 h-10 bg-primary/20 rounded-full flex items-center justify-center text-primary font-semibold">
+              {user.username.charAt(0).toUpperCase()}
+            </div>
+          )}
+        </Link>
+
+        <div className="flex-1 min-w-0">
+          <div className="flex flex-wrap items-center gap-2">
+            <Link href={`/profile/${user.id}`} className="font-medium text-gray-900 dark:text-white hover:underline">
+              {user.display_name || user.username}
+            </Link>
+            <span className="text-sm text-gray-500 dark:text-gray-400">@{user.username}</span>
+            {user.role !== "user" && (
+              <span className="px-2 py-0.5 rounded-full text-xs bg-primary/10 text-primary capitalize">{user.role}</span>
+            )}
+            {suspended && (
+              <span className="px-2 py-0.5 rounded-full text-xs bg-red-100 dark:bg-red-900/30 text-red-600 dark:text-red-400">
+                Suspended until {new Date(user.suspended_until!).toLocaleDateString()}
+              </span>
+            )}
+          </div>
+          <p className="text-sm text-gray-500 dark:text-gray-400 truncate">{user.email}</p>
+          <p className="text-xs text-gray-500 dark:text-gray-400">
+            Joined {formatDistanceToNow(new Date(user.created_at), { addSuffix: true })}
+            {user.last_sign_in_at &&
+              ` · last signed in ${formatDistanceToNow(new Date(user.last_sign_in_at), { addSuffix: true })}`}
+          </p>
+
+          {!isSelf && (
+            <div className="mt-3 flex flex-wrap items-center gap-2">
+              {suspended ? (
+                <button
+                  onClick={() => runAction(() => unsuspendUser(user.id))}
+                  disabled={isPending}
+                  className="px-3 py-1.5 text-sm bg-gray-200 dark:bg-gray-700 text-gray-800 dark:text-gray-200 rounded-md hover:bg-gray-300 dark:hover:bg-gray-600 transition-colors disabled:opacity-70"
+                >
+                  Unsuspend
+                </button>
+              ) : (
+                <div className="flex items-center gap-2">
+                  <button
+                    onClick={handleSuspend}
+                    disabled={isPending}
+                    className="px-3 py-1.5 text-sm bg-red-500 text-white rounded-md hover:bg-red-600 transition-colors disabled:opacity-70"
+                  >
+                    Suspend
+                  </button>
+                  <select
+                    value={suspendDays}
+                    onChange={(e) => setSuspendDays(Number(e.target.value))}
+                    disabled={isPending}
+                    className="px-2 py-1.5 text-sm border border-gray-300 dark:border-gray-600 rounded-md dark:bg-gray-700 dark:text-white"
+                    aria-label="Suspension length"
+                  >
+                    {SUSPENSION_DAYS_OPTIONS.map((days) => (
+                      <option key={days} value={days}>
+                        {days} {days === 1 ? "day" : "days"}
+                      </option>
+                    ))}
+                  </select>
+                </div>
+              )}
+              <button
+                onClick={handleSignOut}
+                disabled={isPending}
+                className="px-3 py-1.5 text-sm bg-gray-200 dark:bg-gray-700 text-gray-800 dark:text-gray-200 rounded-md hover:bg-gray-300 dark:hover:bg-gray-600 transition-colors disabled:opacity-70"
+              >
+                Sign out everywhere
+              </button>
+              <select
+                value={user.role}
+                onChange={(e) => handleRoleChange(e.target.value as UserRole)}
+                disabled={isPending}
+                className="px-2 py-1.5 text-sm border border-gray-300 dark:border-gray-600 rounded-md dark:bg-gray-700 dark:text-white"
+                aria-label="Role"
+              >
+                {ROLE_OPTIONS.map((option) => (
+                  <option key={option.value} value={option.value}>
+                    {option.label}
+                  </option>
+                ))}
+              </select>
+            </div>
+          )}
+
+          {error && <div className="mt-2 text-red-500 text-sm">{error}</div>}
+        </div>
+      </div>
+    </li>
+  )
+}
+
+export default function AdminUsers() {
+  const [query, setQuery] = useState("")
+  const [debouncedQuery, setDebouncedQuery] = useState("")
+  const [users, setUsers] = useState<AdminUser[]>([])
+  const [page, setPage] = useState(0)
+  const [hasMore, setHasMore] = useState(false)
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+  const { user: currentUser } = useAuth()
+
+  // Debounce search query
+  useEffect(() => {
+    const timer = setTimeout(() => {
+      setDebouncedQuery(query.trim())
+      setPage(0)
+    }, 300)
+
+    return () => clearTimeout(timer)
+  }, [query])
+
+  const fetchUsers = async () => {
+    setLoading(true)
+    setError(null)
+
+    try {
+      const results = await listUsers(debouncedQuery, page)
+      setUsers(results)
+      setHasMore(results.length === ADMIN_USERS_PAGE_SIZE)
+    } catch (error: any) {
+      console.error("Error fetching users:", error)
+      setError(error.message || "Failed to load users")
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  useEffect(() => {
+    fetchUsers()
+  }, [debouncedQuery, page])
+
+  return (
+    <div>
+      <div className="relative mb-4">
+        <div className="absolute inset-y-0 left-0 pl-3 flex items-center pointer-events-none">
+          <SearchIcon className="h-5 w-5 text-gray-400" />
+        </div>
+        <input
+          type="text"
+          value={query}
+          onChange={(e) => setQuery(e.target.value)}
+          placeholder="Search by username, name or email..."
+          className="w-full pl-10 pr-4 py-2 border border-gray-300 dark:border-gray-600 rounded-md focus:outline-none focus:ring-2 focus:ring-primary dark:bg-gray-700 dark:text-white"
+        />
+      </div>
+
+      {error && <div className="text-red-500 text-sm mb-4">{error}</div>}
+
+      {loading ? (
+        <div className="flex justify-center py-8">
+          <div className="w-8 h-8 border-4 border-primary border-t-transparent rounded-full animate-spin"></div>
+        </div>
+      ) : users.length === 0 ? (
+        <p className="text-center py-8 text-gray-500 dark:text-gray-400">No users found</p>
+      ) : (
+        <ul className="divide-y divide-gray-200 dark:divide-gray-700">
+          {users.map((user) => (
+            <AdminUserRow key={user.id} user={user} isSelf={user.id === currentUser?.id} onChanged={fetchUsers} />
+          ))}
+        </ul>
+      )}
+
+      {(page > 0 || hasMore) && (
+        <div className="flex justify-between mt-4">
+          <button
+            onClick={() => setPage((prev) => prev - 1)}
+            disabled={page === 0 || loading}
+            className="px-4 py-2 text-sm text-gray-700 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-700 rounded-md transition-colors disabled:opacity-50"
+          >
+            Previous
+          </button>
+          <button
+            onClick={() => setPage((prev) => prev + 1)}
+            disabled={!hasMore || loading}
+            className="px-4 py-2 text-sm text-gray-700 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-700 rounded-md transition-colors disabled:opacity-50"
+          >
+            Next
+          </button>
+        </div>
+      )}
+    </div>
+  )
+}
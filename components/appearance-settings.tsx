@@ -0,0 +1,37 @@
+"use client"
+
+import { Monitor, Moon, Sun } from "lucide-react"
+import { useTheme } from "@/contexts/theme-context"
+import type { ThemePreference } from "@/lib/settings"
+
+const THEME_OPTIONS: { value: ThemePreference; label: string; icon: typeof Sun }[] = [
+  { value: "light", label: "Light", icon: Sun },
+  { value: "dark", label: "Dark", icon: Moon },
+  { value: "system", label: "System", icon: Monitor },
+]
+
+export default function AppearanceSettings() {
+  const { preference, setPreference } = useTheme()
+
+  return (
+    <div className="grid grid-cols-3 gap-3" role="radiogroup" aria-label="Theme">
+      {THEME_OPTIONS.map((option) => (
+        <button
+          key={option.value}
+          type="button"
+          role="radio"
+          aria-checked={preference === option.value}
+          onClick={() => setPreference(option.value)}
+          className={`flex flex-col items-center p-4 rounded-md border transition-colors ${
+            preference === option.value
+              ? "border-primary bg-primary/10 text-primary"
+              : "border-gray-200 dark:border-gray-700 text-gray-600 dark:text-gray-300 hover:bg-gray-50 dark:hover:bg-gray-700/50"
+          }`}
+        >
+          <option.icon className="h-5 w-5 mb-2" />
+          <span className="text-sm font-medium">{option.label}</span>
+        </button>
+      ))}
+    </div>
+  )
+}
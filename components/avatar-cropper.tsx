@@ -0,0 +1,188 @@
+"use client"
+
+import type React from "react"
+
+import { useState, useEffect, useRef } from "react"
+import { X } from "lucide-react"
+import { Slider } from "@/components/ui/slider"
+import { cropSquareImage } from "@/lib/image-processing"
+
+type AvatarCropperProps = {
+  file: File
+  onCancel: () => void
+  onCrop: (blob: Blob) => Promise<void>
+}
+
+type Point = { x: number; y: number }
+
+const VIEWPORT_SIZE = 256
+const MAX_ZOOM = 3
+
+export default function AvatarCropper({ file, onCancel, onCrop }: AvatarCropperProps) {
+  const [imageUrl, setImageUrl] = useState<string | null>(null)
+  const [naturalSize, setNaturalSize] = useState<{ width: number; height: number } | null>(null)
+  const [zoom, setZoom] = useState(1)
+  const [offset, setOffset] = useState<Point>({ x: 0, y: 0 })
+  const [isSaving, setIsSaving] = useState(false)
+  const dragStartRef = useRef<Point | null>(null)
+
+  useEffect(() => {
+    const url = URL.createObjectURL(file)
+    setImageUrl(url)
+
+    return () => URL.revokeObjectURL(url)
+  }, [file])
+
+  // Scale at which the image's shorter side exactly fills the viewport
+  const baseScale = naturalSize ? VIEWPORT_SIZE / Math.min(naturalSize.width, naturalSize.height) : 1
+  const scale = baseScale * zoom
+
+  // Keep the image covering the whole viewport
+  const clampOffset = (point: Point, currentScale: number): Point => {
+    if (!naturalSize) return point
+
+    const minX = VIEWPORT_SIZE - naturalSize.width * currentScale
+    const minY = VIEWPORT_SIZE - naturalSize.height * currentScale
+
+    return {
+      x: Math.min(0, Math.max(minX, point.x)),
+      y: Math.min(0, Math.max(minY, point.y)),
+    }
+  }
+
+  const handleImageLoad = (e: React.SyntheticEvent<HTMLImageElement>) => {
+    const { naturalWidth: width, naturalHeight: height } = e.currentTarget
+    const initialScale = VIEWPORT_SIZE / Math.min(width, height)
+
+    setNaturalSize({ width, height })
+    setOffset({
+      x: (VIEWPORT_SIZE - width * initialScale) / 2,
+      y: (VIEWPORT_SIZE - height * initialScale) / 2,
+    })
+  }
+
+  const handleZoomChange = (value: number[]) => {
+    const nextZoom = value[0]
+    const nextScale = baseScale * nextZoom
+
+    // Zoom around the centre of the viewport
+    const centerX = (VIEWPORT_SIZE / 2 - offset.x) / scale
+    const centerY = (VIEWPORT_SIZE / 2 - offset.y) / scale
+
+    setZoom(nextZoom)
+    setOffset(
+      clampOffset(
+        {
+          x: VIEWPORT_SIZE / 2 - centerX * nextScale,
+          y: VIEWPORT_SIZE / 2 - centerY * nextScale,
+        },
+        nextScale,
+      ),
+    )
+  }
+
+  const handlePointerDown = (e: React.PointerEvent<HTMLDivElement>) => {
+    e.currentTarget.setPointerCapture(e.pointerId)
+    dragStartRef.current = { x: e.clientX - offset.x, y: e.clientY - offset.y }
+  }
+
+  const handlePointerMove = (e: React.PointerEvent<HTMLDivElement>) => {
+    if (!dragStartRef.current) return
+
+    setOffset(
+      clampOffset({ x: e.clientX - dragStartRef.current.x, y: e.clientY - dragStartRef.current.y }, scale),
+    )
+  }
+
+  const handlePointerUp = () => {
+    dragStartRef.current = null
+  }
+
+  const handleSave = async () => {
+    if (!naturalSize) return
+
+    setIsSaving(true)
+
+    try {
+      const blob = await cropSquareImage(file, {
+        x: -offset.x / scale,
+        y: -offset.y / scale,
+        size: VIEWPORT_SIZE / scale,
+      })
+
+      await onCrop(blob)
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 z-50 flex justify-center items-center p-4">
+      <div className="bg-white dark:bg-gray-800 rounded-lg shadow-xl w-full max-w-sm overflow-hidden animate-fade-in">
+        <div className="p-4 border-b border-gray-200 dark:border-gray-700 flex justify-between items-center">
+          <h2 className="text-xl font-semibold">Crop Avatar</h2>
+          <button
+            onClick={onCancel}
+            disabled={isSaving}
+            className="p-2 rounded-full hover:bg-gray-100 dark:hover:bg-gray-700 transition-colors"
+          >
+            <X className="h-5 w-5" />
+          </button>
+        </div>
+
+        <div className="p-4 flex flex-col items-center">
+          <div
+            className="relative overflow-hidden rounded-full bg-gray-100 dark:bg-gray-700 cursor-move touch-none select-none"
+            style={{ width: VIEWPORT_SIZE, height: VIEWPORT_SIZE }}
+            onPointerDown={handlePointerDown}
+            onPointerMove={handlePointerMove}
+            onPointerUp={handlePointerUp}
+            onPointerCancel={handlePointerUp}
+          >
+            {imageUrl && (
+              <img
+                src={imageUrl}
+                alt="Avatar preview"
+                draggable={false}
+                onLoad={handleImageLoad}
+                className="absolute top-0 left-0 max-w-none origin-top-left"
+                style={{
+                  transform: `translate(${offset.x}px, ${offset.y}px) scale(${scale})`,
+                  visibility: naturalSize ? "visible" : "hidden",
+                }}
+              />
+            )}
+          </div>
+
+          <Slider
+            value={[zoom]}
+            min={1}
+            max={MAX_ZOOM}
+            step={0.01}
+            onValueChange={handleZoomChange}
+            disabled={!naturalSize || isSaving}
+            className="mt-6 w-full"
+          />
+          <p className="mt-2 text-sm text-gray-500 dark:text-gray-400">Drag to reposition, slide to zoom</p>
+        </div>
+
+        <div className="p-4 border-t border-gray-200 dark:border-gray-700 flex justify-end space-x-2">
+          <button
+            onClick={onCancel}
+            disabled={isSaving}
+            className="px-4 py-2 text-gray-700 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-700 rounded-md transition-colors"
+          >
+            Cancel
+          </button>
+          <button
+            onClick={handleSave}
+            disabled={!naturalSize || isSaving}
+            className="px-4 py-2 bg-primary text-white rounded-md hover:bg-primary/90 transition-colors disabled:opacity-70"
+          >
+            {isSaving ? "Saving..." : "Save"}
+          </button>
+        </div>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,125 @@
+"use client"
+
+import { useState, useEffect } from "react"
+import Link from "next/link"
+import Image from "next/image"
+import { supabase } from "@/lib/supabase"
+import { useAuth } from "@/contexts/auth-context"
+import { unblockUser, unmuteUser } from "@/lib/blocks"
+import type { ProfileSummary } from "@/lib/profiles"
+
+type Relationship = "blocked" | "muted"
+
+type ListedUser = ProfileSummary & { relationship: Relationship }
+
+// Users the current user has blocked or muted, with a way to undo each
+export default function BlockedUsersSettings() {
+  const [listedUsers, setListedUsers] = useState<ListedUser[]>([])
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+  const { user } = useAuth()
+
+  useEffect(() => {
+    if (!user) return
+
+    const fetchLists = async () => {
+      try {
+        const [{ data: blocks, error: blocksError }, { data: mutes, error: mutesError }] = await Promise.all([
+          supabase
+            .from("blocks")
+            .select("profile:blocked_id(id, username, avatar_url)")
+            .eq("blocker_id", user.id)
+            .order("created_at", { ascending: false }),
+          supabase
+            .from("mutes")
+            .select("profile:muted_id(id, username, avatar_url)")
+            .eq("muter_id", user.id)
+            .order("created_at", { ascending: false }),
+        ])
+
+        if (blocksError) throw blocksError
+        if (mutesError) throw mutesError
+
+        setListedUsers([
+          ...(blocks || []).map((row: any) => ({ ...(row.profile as ProfileSummary), relationship: "blocked" as const })),
+          ...(mutes || []).map((row: any) => ({ ...(row.profile as ProfileSummary), relationship: "muted" as const })),
+        ])
+      } catch (error) {
+        console.error("Error fetching blocked and muted users:", error)
+        setError("Failed to load blocked and muted accounts")
+      } finally {
+        setLoading(false)
+      }
+    }
+
+    fetchLists()
+  }, [user])
+
+  const handleUndo = async (listedUser: ListedUser) => {
+    if (!user) return
+
+    try {
+      if (listedUser.relationship === "blocked") {
+        await unblockUser(user.id, listedUser.id)
+      } else {
+        await unmuteUser(user.id, listedUser.id)
+      }
+
+      setListedUsers((prev) =>
+        prev.filter((u) => !(u.id === listedUser.id && u.relationship === listedUser.relationship)),
+      )
+    } catch (error) {
+      console.error("Error updating blocked and muted users:", error)
+      setError(`Failed to ${listedUser.relationship === "blocked" ? "unblock" : "unmute"} ${listedUser.username}`)
+    }
+  }
+
+  if (loading) {
+    return <div className="w-6 h-6 border-2 border-primary border-t-transparent rounded-full animate-spin"></div>
+  }
+
+  return (
+    <div>
+      {listedUsers.length === 0 ? (
+        <p className="text-sm text-gray-600 dark:text-gray-400">You haven&apos;t blocked or muted anyone.</p>
+      ) : (
+        <div className="divide-y divide-gray-200 dark:divide-gray-700">
+          {listedUsers.map((listedUser) => (
+            <div key={`${listedUser.relationship}:${listedUser.id}`} className="flex items-center py-3">
+              <Link href={`/profile/${listedUser.id}`} className="flex items-center flex-1 min-w-0">
+                {listedUser.avatar_url ? (
+                  <Image
+                    src={listedUser.avatar_url || "/placeholder.svg"}
+                    alt={listedUser.username}
+                    width={36}
+                    height={36}
+                    className="rounded-full object-cover mr-3"
+                  />
+                ) : (
+                  <div className="w-9 h-9 bg-primary/20 rounded-full flex items-center justify-center text-primary font-semibold mr-3">
+                    {listedUser.username.charAt(0).toUpperCase()}
+                  </div>
+                )}
+                <div className="min-w-0">
+                  <p className="font-medium text-gray-900 dark:text-white truncate">{listedUser.username}</p>
+                  <p className="text-sm text-gray-500 dark:text-gray-400">
+                    {listedUser.relationship === "blocked" ? "Blocked" : "Muted"}
+                  </p>
+                </div>
+              </Link>
+
+              <button
+                onClick={() => handleUndo(listedUser)}
+                className="ml-3 px-3 py-1.5 bg-gray-200 dark:bg-gray-700 text-gray-800 dark:text-gray-200 text-sm rounded-md hover:bg-gray-300 dark:hover:bg-gray-600 transition-colors"
+              >
+                {listedUser.relationship === "blocked" ? "Unblock" : "Unmute"}
+              </button>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {error && <p className="mt-2 text-sm text-red-500">{error}</p>}
+    </div>
+  )
+}
@@ -0,0 +1,145 @@
+"use client"
+
+import type React from "react"
+
+import { useState, useEffect } from "react"
+import { useRouter } from "next/navigation"
+import { Check, X } from "lucide-react"
+import {
+  USERNAME_RULES,
+  changeUsername,
+  getNextUsernameChange,
+  isUsernameAvailable,
+  usernameSchema,
+} from "@/lib/profiles"
+
+type ChangeUsernameFormProps = {
+  username: string
+  usernameChangedAt: string | null
+}
+
+type Availability = "idle" | "checking" | "available" | "taken" | "invalid"
+
+export default function ChangeUsernameForm({ username, usernameChangedAt }: ChangeUsernameFormProps) {
+  const [value, setValue] = useState(username)
+  const [availability, setAvailability] = useState<Availability>("idle")
+  const [validationError, setValidationError] = useState<string | null>(null)
+  const [isSaving, setIsSaving] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const [success, setSuccess] = useState<string | null>(null)
+  const router = useRouter()
+
+  const nextChange = getNextUsernameChange(usernameChangedAt)
+  const trimmed = value.trim()
+  const isUnchanged = trimmed === username
+
+  // Check availability once the user stops typing
+  useEffect(() => {
+    setValidationError(null)
+
+    if (isUnchanged) {
+      setAvailability("idle")
+      return
+    }
+
+    const result = usernameSchema.safeParse(trimmed)
+    if (!result.success) {
+      setAvailability("invalid")
+      setValidationError(result.error.issues[0].message)
+      return
+    }
+
+    let cancelled = false
+    setAvailability("checking")
+
+    const timer = setTimeout(async () => {
+      try {
+        const available = await isUsernameAvailable(result.data)
+        if (!cancelled) setAvailability(available ? "available" : "taken")
+      } catch (error) {
+        console.error("Error checking username:", error)
+        if (!cancelled) setAvailability("idle")
+      }
+    }, 400)
+
+    return () => {
+      cancelled = true
+      clearTimeout(timer)
+    }
+  }, [trimmed, isUnchanged])
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+    if (availability !== "available" || isSaving) return
+
+    setIsSaving(true)
+    setError(null)
+    setSuccess(null)
+
+    try {
+      const newUsername = await changeUsername(trimmed)
+      setSuccess(`Your username is now @${newUsername}`)
+      router.refresh()
+    } catch (error: any) {
+      console.error("Error changing username:", error)
+      setError(error.message || "Failed to change username")
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  return (
+    <form onSubmit={handleSubmit}>
+      <label htmlFor="username" className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+        Username
+      </label>
+      <div className="flex gap-2">
+        <div className="relative flex-1">
+          <span className="absolute left-3 top-1/2 -translate-y-1/2 text-gray-500 dark:text-gray-400">@</span>
+          <input
+            id="username"
+            type="text"
+            value={value}
+            onChange={(e) => {
+              setValue(e.target.value)
+              setSuccess(null)
+            }}
+            disabled={!!nextChange || isSaving}
+            maxLength={30}
+            className="w-full pl-7 pr-3 py-2 border border-gray-300 dark:border-gray-600 rounded-md focus:outline-none focus:ring-2 focus:ring-primary dark:bg-gray-700 dark:text-white disabled:opacity-70"
+          />
+        </div>
+        <button
+          type="submit"
+          disabled={availability !== "available" || isSaving}
+          className="px-4 py-2 bg-primary text-white rounded-md hover:bg-primary/90 transition-colors disabled:opacity-70"
+        >
+          {isSaving ? "Saving..." : "Change"}
+        </button>
+      </div>
+
+      <div className="mt-2 text-sm">
+        {availability === "checking" && <p className="text-gray-500 dark:text-gray-400">Checking availability...</p>}
+        {availability === "available" && (
+          <p className="flex items-center text-green-600 dark:text-green-400">
+            <Check className="h-4 w-4 mr-1" />@{trimmed} is available
+          </p>
+        )}
+        {availability === "taken" && (
+          <p className="flex items-center text-red-500">
+            <X className="h-4 w-4 mr-1" />@{trimmed} is not available
+          </p>
+        )}
+        {validationError && <p className="text-red-500">{validationError}</p>}
+        {error && <p className="text-red-500">{error}</p>}
+        {success && <p className="text-green-600 dark:text-green-400">{success}</p>}
+      </div>
+
+      <p className="mt-2 text-sm text-gray-600 dark:text-gray-400">
+        {nextChange
+          ? `You can change your username again on ${nextChange.toLocaleDateString(undefined, { dateStyle: "long" })}.`
+          : `You can change your username once every ${USERNAME_RULES.cooldownDays} days. Your old username stays reserved for you for ${USERNAME_RULES.reservationDays} days, and links to it keep working.`}
+      </p>
+    </form>
+  )
+}
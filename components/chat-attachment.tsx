@@ -0,0 +1,98 @@
+"use client"
+
+import { useState, useEffect } from "react"
+import Image from "next/image"
+import { FileText, Mic } from "lucide-react"
+import {
+  formatDuration,
+  formatFileSize,
+  getAttachmentUrl,
+  type MessageAttachmentFields,
+} from "@/lib/chat-attachments"
+
+type ChatAttachmentProps = {
+  attachment: MessageAttachmentFields & { attachment_path: string }
+  isCurrentUser: boolean
+}
+
+// The bucket is private, so every attachment is shown through a signed URL fetched when the message renders
+export default function ChatAttachment({ attachment, isCurrentUser }: ChatAttachmentProps) {
+  const [url, setUrl] = useState<string | null>(null)
+  const [failed, setFailed] = useState(false)
+  const isAudio = attachment.attachment_kind === "voice" || !!attachment.attachment_mime_type?.startsWith("audio/")
+  const isDownload = attachment.attachment_kind === "file" && !isAudio
+
+  useEffect(() => {
+    let cancelled = false
+
+    getAttachmentUrl(attachment.attachment_path, isDownload ? (attachment.attachment_name ?? undefined) : undefined)
+      .then((signedUrl) => {
+        if (!cancelled) setUrl(signedUrl)
+      })
+      .catch((error) => {
+        console.error("Error fetching attachment:", error)
+        if (!cancelled) setFailed(true)
+      })
+
+    return () => {
+      cancelled = true
+    }
+  }, [attachment.attachment_path, attachment.attachment_name, isDownload])
+
+  if (failed) {
+    return <p className="text-sm italic opacity-80">Attachment unavailable</p>
+  }
+
+  if (attachment.attachment_kind === "image") {
+    return url ? (
+      <a href={url} target="_blank" rel="noopener noreferrer" className="block">
+        <Image
+          src={url}
+          alt={attachment.attachment_name || "Photo"}
+          width={320}
+          height={320}
+          className="rounded-md max-h-64 w-auto object-contain"
+        />
+      </a>
+    ) : (
+      <div className="w-48 h-32 rounded-md bg-black/10 dark:bg-white/10 animate-pulse" />
+    )
+  }
+
+  if (isAudio) {
+    return (
+      <div className="flex items-center space-x-2">
+        {attachment.attachment_kind === "voice" ? (
+          <Mic className="h-4 w-4 flex-shrink-0" />
+        ) : (
+          <span className="text-sm truncate max-w-[8rem]">{attachment.attachment_name}</span>
+        )}
+        {url ? (
+          <audio src={url} controls preload="metadata" className="h-8 max-w-[14rem]" />
+        ) : (
+          <span className="text-sm">Loading...</span>
+        )}
+        {attachment.attachment_duration && (
+          <span className="text-xs opacity-80">{formatDuration(attachment.attachment_duration)}</span>
+        )}
+      </div>
+    )
+  }
+
+  return (
+    <a
+      href={url ?? undefined}
+      className={`flex items-center space-x-2 p-2 rounded-md ${
+        isCurrentUser ? "bg-white/10 hover:bg-white/20" : "bg-white/60 dark:bg-gray-800/60 hover:bg-white"
+      } transition-colors ${url ? "" : "pointer-events-none opacity-70"}`}
+    >
+      <FileText className="h-6 w-6 flex-shrink-0" />
+      <div className="min-w-0">
+        <p className="text-sm font-medium truncate">{attachment.attachment_name}</p>
+        {attachment.attachment_size && (
+          <p className="text-xs opacity-80">{formatFileSize(attachment.attachment_size)}</p>
+        )}
+      </div>
+    </a>
+  )
+}
@@ -3,6 +3,11 @@
 import { useState, useEffect } from "react"
 import { supabase } from "@/lib/supabase"
 import { useAuth } from "@/contexts/auth-context"
+import { usePresence } from "@/contexts/presence-context"
+import { toPlainText } from "@/lib/rich-text"
+import { canMessage } from "@/lib/settings"
+import { getUnreadCounts } from "@/lib/chats"
+import { describeAttachment } from "@/lib/chat-attachments"
 import Link from "next/link"
 import Image from "next/image"
 import { formatDistanceToNow } from "date-fns"
@@ -17,6 +22,8 @@ type Chat = {
   last_message: string | null
   last_message_time: string | null
   avatar_url: string | null
+  // The other member of a direct chat
+  other_user_id: string | null
   unread_count: number
 }
 
@@ -30,6 +37,7 @@ export default function ChatList({ activeChat, initialUserId }: ChatListProps) {
   const [loading, setLoading] = useState(true)
   const [showCreateGroup, setShowCreateGroup] = useState(false)
   const { user } = useAuth()
+  const { onlineUserIds } = usePresence()
   const router = useRouter()
 
   useEffect(() => {
@@ -74,6 +82,13 @@ export default function ChatList({ activeChat, initialUserId }: ChatListProps) {
             }
           }
 
+          // Respect the other user's privacy settings before starting a conversation
+          if (!(await canMessage(initialUserId))) {
+            alert("This user isn't accepting messages from you")
+            router.replace("/messages")
+            return
+          }
+
           // Create a new direct chat
           const { data: newChat, error: newChatError } = await supabase
             .from("chats")
@@ -131,13 +146,15 @@ export default function ChatList({ activeChat, initialUserId }: ChatListProps) {
 
         if (chatsError) throw chatsError
 
+        const unreadCounts = await getUnreadCounts()
+
         // Process each chat to get additional info
         const processedChats = await Promise.all(
           chatsData.map(async (chat) => {
             // Get the last message
             const { data: lastMessage, error: messageError } = await supabase
               .from("messages")
-              .select("content, created_at")
+              .select("content, created_at, is_deleted, attachment_kind, attachment_name")
               .eq("chat_id", chat.id)
               .order("created_at", { ascending: false })
               .limit(1)
@@ -147,20 +164,9 @@ export default function ChatList({ activeChat, initialUserId }: ChatListProps) {
               console.error("Error fetching last message:", messageError)
             }
 
-            // Get unread count
-            const { count: unreadCount, error: unreadError } = await supabase
-              .from("messages")
-              .select("*", { count: "exact", head: true })
-              .eq("chat_id", chat.id)
-              .neq("user_id", user.id)
-              .gt("created_at", user.last_sign_in_at || "")
-
-            if (unreadError) {
-              console.error("Error fetching unread count:", unreadError)
-            }
-
             let name = chat.name
             let avatarUrl = null
+            let otherUserId = null
 
             if (!chat.is_group) {
               // For direct chats, get the other user's info
@@ -174,6 +180,8 @@ export default function ChatList({ activeChat, initialUserId }: ChatListProps) {
               if (membersError) {
                 console.error("Error fetching chat members:", membersError)
               } else if (members) {
+                otherUserId = members.user_id
+
                 const { data: profile, error: profileError } = await supabase
                   .from("profiles")
                   .select("username, avatar_url")
@@ -193,10 +201,16 @@ export default function ChatList({ activeChat, initialUserId }: ChatListProps) {
               id: chat.id,
               name: name,
               is_group: chat.is_group,
-              last_message: lastMessage?.content || null,
+              last_message: lastMessage
+                ? lastMessage.is_deleted
+                  ? "Message deleted"
+                  : toPlainText(lastMessage.content) ||
+                    (lastMessage.attachment_kind ? describeAttachment(lastMessage) : "")
+                : null,
               last_message_time: lastMessage?.created_at || null,
               avatar_url: avatarUrl,
-              unread_count: unreadCount || 0,
+              other_user_id: otherUserId,
+              unread_count: unreadCounts.get(chat.id) || 0,
             }
           }),
         )
@@ -225,6 +239,29 @@ export default function ChatList({ activeChat, initialUserId }: ChatListProps) {
           fetchChats()
         },
       )
+      // Clear a chat's unread badge once it's been read. Only the counts change, so leave the rest of the list
+      .on(
+        "postgres_changes",
+        {
+          event: "UPDATE",
+          schema: "public",
+          table: "chat_members",
+          filter: `user_id=eq.${user.id}`,
+        },
+        async (payload) => {
+          try {
+            const unreadCounts = await getUnreadCounts()
+
+            setChats((prevChats) =>
+              prevChats.map((chat) =>
+                chat.id === payload.new.chat_id ? { ...chat, unread_count: unreadCounts.get(chat.id) || 0 } : chat,
+              ),
+            )
+          } catch (error) {
+            console.error("Error fetching unread counts:", error)
+          }
+        },
+      )
       .subscribe()
 
     return () => {
@@ -296,6 +333,13 @@ export default function ChatList({ activeChat, initialUserId }: ChatListProps) {
                   </div>
                 )}
 
+                {chat.other_user_id && onlineUserIds.has(chat.other_user_id) && (
+                  <span
+                    className="absolute bottom-0 right-0 h-3.5 w-3.5 bg-green-500 border-2 border-white dark:border-gray-800 rounded-full"
+                    aria-label="Online"
+                  />
+                )}
+
                 {chat.unread_count > 0 && (
                   <span className="absolute -top-1 -right-1 bg-red-500 text-white text-xs rounded-full h-5 w-5 flex items-center justify-center">
                     {chat.unread_count > 9 ? "9+" : chat.unread_count}
@@ -7,21 +7,98 @@ import { supabase } from "@/lib/supabase"
 import { useAuth } from "@/contexts/auth-context"
 import Image from "next/image"
 import { formatDistanceToNow } from "date-fns"
-import { Send, Info, ArrowLeft, MessageCircle, Users } from "lucide-react"
+import {
+  ArrowLeft,
+  Flag,
+  Info,
+  FileText,
+  MessageCircle,
+  Mic,
+  MoreHorizontal,
+  Paperclip,
+  Pencil,
+  Reply,
+  Send,
+  Square,
+  Trash2,
+  Users,
+  X,
+} from "lucide-react"
 import { useRouter } from "next/navigation"
 import ChatInfo from "./chat-info"
+import MentionInput from "./mention-input"
+import RichText from "./rich-text"
+import ReportDialog from "./report-dialog"
+import ReactionBar from "./reaction-bar"
+import ReactionPicker from "./reaction-picker"
+import ChatAttachment from "./chat-attachment"
+import {
+  decodeMentions,
+  encodeMentions,
+  notifyMentions,
+  toPlainText,
+  type MentionedUser,
+} from "@/lib/rich-text"
+import { deleteMessage, editMessage, markChatRead } from "@/lib/chats"
+import {
+  REACTIONS_SELECT,
+  applyReactionChange,
+  hasReaction,
+  removeReaction,
+  toggleReaction,
+  type Reaction,
+} from "@/lib/reactions"
+import {
+  ATTACHMENT_MIME_TYPES,
+  MAX_VOICE_NOTE_DURATION,
+  describeAttachment,
+  formatDuration,
+  formatFileSize,
+  prepareAttachment,
+  prepareVoiceNote,
+  removeAttachment,
+  uploadAttachment,
+  type MessageAttachmentFields,
+  type PendingAttachment,
+} from "@/lib/chat-attachments"
+import { useVoiceRecorder } from "@/hooks/use-voice-recorder"
+import { usePresence } from "@/contexts/presence-context"
+import type { RealtimeChannel } from "@supabase/supabase-js"
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu"
 
 type Message = {
   id: string
   content: string
   created_at: string
+  updated_at: string | null
   user_id: string
+  is_deleted: boolean
+  reply_to_id: string | null
   profiles: {
     username: string
     avatar_url: string | null
   }
+  reactions: Reaction[]
+} & MessageAttachmentFields
+
+type ChatMember = {
+  user_id: string
+  username: string
+  last_read_at: string
+  last_seen_at: string | null
 }
 
+// Typing broadcasts are sent at most this often, and a typist is dropped after missing a couple of them
+const TYPING_THROTTLE_MS = 2000
+const TYPING_TIMEOUT_MS = 5000
+
+const HIGHLIGHT_DURATION_MS = 1500
+
 type ChatWindowProps = {
   chatId?: string
   userId?: string
@@ -30,15 +107,48 @@ type ChatWindowProps = {
 export default function ChatWindow({ chatId, userId }: ChatWindowProps) {
   const [messages, setMessages] = useState<Message[]>([])
   const [newMessage, setNewMessage] = useState("")
+  const [mentions, setMentions] = useState<MentionedUser[]>([])
+  const [members, setMembers] = useState<ChatMember[]>([])
   const [loading, setLoading] = useState(true)
   const [chatName, setChatName] = useState<string | null>(null)
   const [chatAvatar, setChatAvatar] = useState<string | null>(null)
+  const [reportedMessageId, setReportedMessageId] = useState<string | null>(null)
+  const [replyTo, setReplyTo] = useState<Message | null>(null)
+  const [editingMessage, setEditingMessage] = useState<Message | null>(null)
+  const [highlightedMessageId, setHighlightedMessageId] = useState<string | null>(null)
   const [isGroup, setIsGroup] = useState(false)
   const [showInfo, setShowInfo] = useState(false)
   const [isMobileView, setIsMobileView] = useState(false)
+  const [activeUserIds, setActiveUserIds] = useState<Set<string>>(new Set())
+  const [typingUsers, setTypingUsers] = useState<Record<string, string>>({})
+  const [attachment, setAttachment] = useState<PendingAttachment | null>(null)
+  const [uploadProgress, setUploadProgress] = useState<number | null>(null)
+  const [attachmentError, setAttachmentError] = useState<string | null>(null)
+  const fileInputRef = useRef<HTMLInputElement>(null)
+  const attachmentRef = useRef<PendingAttachment | null>(null)
   const messagesEndRef = useRef<HTMLDivElement>(null)
+  const channelRef = useRef<RealtimeChannel | null>(null)
+  const lastTypingSentRef = useRef(0)
+  const typingTimeoutsRef = useRef(new Map<string, ReturnType<typeof setTimeout>>())
   const { user } = useAuth()
+  const { onlineUserIds } = usePresence()
   const router = useRouter()
+  const voiceRecorder = useVoiceRecorder(MAX_VOICE_NOTE_DURATION, (recording, duration) => {
+    try {
+      replaceAttachment(prepareVoiceNote(recording, duration))
+    } catch (error: any) {
+      setAttachmentError(error.message)
+    }
+  })
+
+  attachmentRef.current = attachment
+
+  // Release the preview of an unsent attachment when the chat closes
+  useEffect(() => {
+    return () => {
+      if (attachmentRef.current?.previewUrl) URL.revokeObjectURL(attachmentRef.current.previewUrl)
+    }
+  }, [])
 
   useEffect(() => {
     const handleResize = () => {
@@ -62,27 +172,41 @@ export default function ChatWindow({ chatId, userId }: ChatWindowProps) {
 
         setIsGroup(chat.is_group)
 
+        const { data: memberRows, error: membersError } = await supabase
+          .from("chat_members")
+          .select("user_id, last_read_at")
+          .eq("chat_id", chatId)
+
+        if (membersError) throw membersError
+
+        const { data: profiles, error: profilesError } = await supabase
+          .from("profiles")
+          .select("id, username, avatar_url, last_seen_at")
+          .in("id", memberRows.map((member) => member.user_id))
+
+        if (profilesError) throw profilesError
+
+        // Members are the only people who can be mentioned in the chat
+        setMembers(
+          memberRows.map((member) => {
+            const profile = profiles.find((profile) => profile.id === member.user_id)
+
+            return {
+              user_id: member.user_id,
+              last_read_at: member.last_read_at,
+              username: profile?.username ?? "Unknown",
+              last_seen_at: profile?.last_seen_at ?? null,
+            }
+          }),
+        )
+
         if (chat.is_group) {
           setChatName(chat.name)
           setChatAvatar(null)
         } else {
-          // For direct chats, get the other user's info
-          const { data: members, error: membersError } = await supabase
-            .from("chat_members")
-            .select("user_id")
-            .eq("chat_id", chatId)
-            .neq("user_id", user.id)
-            .single()
-
-          if (membersError) throw membersError
-
-          const { data: profile, error: profileError } = await supabase
-            .from("profiles")
-            .select("username, avatar_url")
-            .eq("id", members.user_id)
-            .single()
-
-          if (profileError) throw profileError
+          // For direct chats, show the other user's info
+          const profile = profiles.find((profile) => profile.id !== user.id)
+          if (!profile) throw new Error("Chat has no other member")
 
           setChatName(profile.username)
           setChatAvatar(profile.avatar_url)
@@ -98,7 +222,8 @@ export default function ChatWindow({ chatId, userId }: ChatWindowProps) {
           .from("messages")
           .select(`
             *,
-            profiles:user_id(username, avatar_url)
+            profiles:user_id(username, avatar_url),
+            ${REACTIONS_SELECT}
           `)
           .eq("chat_id", chatId)
           .order("created_at", { ascending: true })
@@ -121,9 +246,25 @@ export default function ChatWindow({ chatId, userId }: ChatWindowProps) {
     fetchChatDetails()
     fetchMessages()
 
-    // Subscribe to new messages
+    const stopTyping = (userId: string) => {
+      clearTimeout(typingTimeoutsRef.current.get(userId))
+      typingTimeoutsRef.current.delete(userId)
+      setTypingUsers(({ [userId]: _, ...rest }) => rest)
+    }
+
+    const applyMessageReaction = (messageId: string, reaction: Reaction, added: boolean) => {
+      setMessages((prevMessages) =>
+        prevMessages.map((message) =>
+          message.id === messageId
+            ? { ...message, reactions: applyReactionChange(message.reactions, reaction, added) }
+            : message,
+        ),
+      )
+    }
+
+    // Subscribe to messages and their reactions, plus presence and typing broadcasts from members with the chat open
     const messagesSubscription = supabase
-      .channel(`messages:${chatId}`)
+      .channel(`messages:${chatId}`, { config: { presence: { key: user.id } } })
       .on(
         "postgres_changes",
         {
@@ -138,7 +279,8 @@ export default function ChatWindow({ chatId, userId }: ChatWindowProps) {
             .from("messages")
             .select(`
             *,
-            profiles:user_id(username, avatar_url)
+            profiles:user_id(username, avatar_url),
+            ${REACTIONS_SELECT}
           `)
             .eq("id", payload.new.id)
             .single()
@@ -146,6 +288,7 @@ export default function ChatWindow({ chatId, userId }: ChatWindowProps) {
           if (error) return
 
           setMessages((prevMessages) => [...prevMessages, data as Message])
+          stopTyping(data.user_id)
 
           // Scroll to bottom
           setTimeout(() => {
@@ -153,33 +296,397 @@ export default function ChatWindow({ chatId, userId }: ChatWindowProps) {
           }, 100)
         },
       )
+      // Edits and deletes for everyone arrive as updates
+      .on(
+        "postgres_changes",
+        {
+          event: "UPDATE",
+          schema: "public",
+          table: "messages",
+          filter: `chat_id=eq.${chatId}`,
+        },
+        (payload) => {
+          setMessages((prevMessages) =>
+            prevMessages.map((message) =>
+              message.id === payload.new.id
+                ? {
+                    ...message,
+                    content: payload.new.content,
+                    updated_at: payload.new.updated_at,
+                    is_deleted: payload.new.is_deleted,
+                    attachment_path: payload.new.attachment_path,
+                    attachment_name: payload.new.attachment_name,
+                    attachment_mime_type: payload.new.attachment_mime_type,
+                    attachment_size: payload.new.attachment_size,
+                    attachment_kind: payload.new.attachment_kind,
+                    attachment_duration: payload.new.attachment_duration,
+                  }
+                : message,
+            ),
+          )
+        },
+      )
+      // Delete events can't be filtered by chat, so ignore ids that aren't in this one
+      .on("postgres_changes", { event: "DELETE", schema: "public", table: "messages" }, (payload) => {
+        setMessages((prevMessages) => prevMessages.filter((message) => message.id !== payload.old.id))
+      })
+      .on(
+        "postgres_changes",
+        {
+          event: "INSERT",
+          schema: "public",
+          table: "reactions",
+          filter: "target_type=eq.message",
+        },
+        (payload) => applyMessageReaction(payload.new.target_id, payload.new as Reaction, true),
+      )
+      // Removed reactions only carry their own id and can't be filtered by chat, so ignore ids that aren't in this one
+      .on("postgres_changes", { event: "DELETE", schema: "public", table: "reactions" }, (payload) => {
+        setMessages((prevMessages) =>
+          prevMessages.some((message) => hasReaction(message.reactions, payload.old.id))
+            ? prevMessages.map((message) =>
+                hasReaction(message.reactions, payload.old.id)
+                  ? { ...message, reactions: removeReaction(message.reactions, payload.old.id) }
+                  : message,
+              )
+            : prevMessages,
+        )
+      })
+      .on("presence", { event: "sync" }, () => {
+        setActiveUserIds(new Set(Object.keys(messagesSubscription.presenceState())))
+      })
+      .on("broadcast", { event: "typing" }, ({ payload }) => {
+        if (payload.user_id === user.id) return
+
+        clearTimeout(typingTimeoutsRef.current.get(payload.user_id))
+        typingTimeoutsRef.current.set(
+          payload.user_id,
+          setTimeout(() => stopTyping(payload.user_id), TYPING_TIMEOUT_MS),
+        )
+        setTypingUsers((prev) => ({ ...prev, [payload.user_id]: payload.username }))
+      })
+      .subscribe((status) => {
+        if (status === "SUBSCRIBED") {
+          messagesSubscription.track({ online_at: new Date().toISOString() })
+        }
+      })
+
+    channelRef.current = messagesSubscription
+
+    // Move other members' "Seen" markers as they read
+    const readsSubscription = supabase
+      .channel(`chat_members:${chatId}`)
+      .on(
+        "postgres_changes",
+        {
+          event: "UPDATE",
+          schema: "public",
+          table: "chat_members",
+          filter: `chat_id=eq.${chatId}`,
+        },
+        (payload) => {
+          setMembers((prev) =>
+            prev.map((member) =>
+              member.user_id === payload.new.user_id ? { ...member, last_read_at: payload.new.last_read_at } : member,
+            ),
+          )
+        },
+      )
       .subscribe()
 
+    const typingTimeouts = typingTimeoutsRef.current
+
     return () => {
       messagesSubscription.unsubscribe()
+      readsSubscription.unsubscribe()
+      channelRef.current = null
+      typingTimeouts.forEach(clearTimeout)
+      typingTimeouts.clear()
+      setTypingUsers({})
+      setActiveUserIds(new Set())
+      setReplyTo(null)
+      setEditingMessage(null)
     }
   }, [chatId, user])
 
+  const latestMessageId = messages[messages.length - 1]?.id
+
+  // Mark the chat read whenever new messages arrive while it's on screen, or when the tab comes back into view
+  useEffect(() => {
+    if (!user || !chatId || !latestMessageId) return
+
+    const markReadIfVisible = () => {
+      if (document.visibilityState !== "visible") return
+
+      markChatRead(chatId).catch((error) => console.error("Error marking chat read:", error))
+    }
+
+    markReadIfVisible()
+
+    document.addEventListener("visibilitychange", markReadIfVisible)
+    return () => document.removeEventListener("visibilitychange", markReadIfVisible)
+  }, [chatId, user, latestMessageId])
+
+  // Each other member's marker goes under the latest message they've read, counting their own messages as read
+  const readersByMessage = new Map<string, string[]>()
+  for (const member of members) {
+    if (member.user_id === user?.id) continue
+
+    const readAt = new Date(member.last_read_at).getTime()
+    const lastRead = messages.findLast(
+      (message) => message.user_id === member.user_id || new Date(message.created_at).getTime() <= readAt,
+    )
+
+    // Replying already shows they've seen it
+    if (!lastRead || lastRead.user_id === member.user_id) continue
+
+    readersByMessage.set(lastRead.id, [...(readersByMessage.get(lastRead.id) || []), member.username])
+  }
+
+  const otherMembers = members.filter((member) => member.user_id !== user?.id)
+  const isActive = (userId: string) => activeUserIds.has(userId) || onlineUserIds.has(userId)
+
+  let chatStatus: string | null = null
+  if (isGroup) {
+    const onlineCount = otherMembers.filter((member) => isActive(member.user_id)).length
+    chatStatus = `${members.length} members${onlineCount > 0 ? ` · ${onlineCount} online` : ""}`
+  } else if (otherMembers[0]) {
+    const other = otherMembers[0]
+    chatStatus = activeUserIds.has(other.user_id)
+      ? "In this chat"
+      : onlineUserIds.has(other.user_id)
+        ? "Online"
+        : other.last_seen_at
+          ? `Last seen ${formatDistanceToNow(new Date(other.last_seen_at), { addSuffix: true })}`
+          : null
+  }
+
+  const typingNames = Object.values(typingUsers)
+  const typingText =
+    typingNames.length === 0
+      ? null
+      : typingNames.length === 1
+        ? `${typingNames[0]} is typing...`
+        : typingNames.length === 2
+          ? `${typingNames[0]} and ${typingNames[1]} are typing...`
+          : "Several people are typing..."
+
+  // Attachment-only messages are fine, and so is editing away the caption of one
+  const canSend =
+    uploadProgress === null &&
+    (!!newMessage.trim() || (editingMessage ? !!editingMessage.attachment_path : !!attachment))
+
+  const handleMessageChange = (value: string) => {
+    setNewMessage(value)
+
+    const now = Date.now()
+    if (!user || !value.trim() || now - lastTypingSentRef.current < TYPING_THROTTLE_MS) return
+
+    lastTypingSentRef.current = now
+    channelRef.current?.send({
+      type: "broadcast",
+      event: "typing",
+      payload: { user_id: user.id, username: members.find((member) => member.user_id === user.id)?.username },
+    })
+  }
+
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault()
 
-    if (!user || !chatId || !newMessage.trim()) return
+    if (!user || !chatId || !canSend) return
+
+    const content = encodeMentions(newMessage.trim(), mentions)
+
+    if (editingMessage) {
+      await handleSaveEdit(editingMessage, content)
+      return
+    }
+
+    let uploaded: MessageAttachmentFields | null = null
 
     try {
+      if (attachment) {
+        setUploadProgress(0)
+        uploaded = await uploadAttachment(chatId, user.id, attachment, setUploadProgress)
+      }
+
       const { error } = await supabase.from("messages").insert({
         chat_id: chatId,
         user_id: user.id,
-        content: newMessage.trim(),
+        content,
+        reply_to_id: replyTo?.id ?? null,
+        ...uploaded,
       })
 
       if (error) throw error
 
       setNewMessage("")
-    } catch (error) {
+      lastTypingSentRef.current = 0
+      setMentions([])
+      setReplyTo(null)
+      replaceAttachment(null)
+
+      await notifyMentions({
+        content,
+        type: "message_mention",
+        relatedId: chatId,
+        fromUserId: user.id,
+        allowedUserIds: members.map((member) => member.user_id),
+      })
+    } catch (error: any) {
       console.error("Error sending message:", error)
+      if (attachment) setAttachmentError(error.message || "Failed to send attachment")
+
+      // Don't leave an orphaned file behind when the message itself couldn't be saved
+      if (uploaded?.attachment_path) {
+        removeAttachment(uploaded.attachment_path).catch((removeError) => {
+          console.error("Error removing attachment:", removeError)
+        })
+      }
+    } finally {
+      setUploadProgress(null)
+    }
+  }
+
+  const replaceAttachment = (next: PendingAttachment | null) => {
+    setAttachment((prev) => {
+      if (prev?.previewUrl) URL.revokeObjectURL(prev.previewUrl)
+      return next
+    })
+    setAttachmentError(null)
+  }
+
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0]
+    if (fileInputRef.current) {
+      fileInputRef.current.value = ""
+    }
+    if (!file) return
+
+    try {
+      replaceAttachment(await prepareAttachment(file))
+    } catch (error: any) {
+      setAttachmentError(error.message)
+    }
+  }
+
+  const startRecording = async () => {
+    setAttachmentError(null)
+
+    try {
+      await voiceRecorder.start()
+    } catch (error: any) {
+      console.error("Error starting voice note:", error)
+      setAttachmentError(
+        error.name === "NotAllowedError" ? "Allow microphone access to record voice notes" : error.message,
+      )
     }
   }
 
+  const handleSaveEdit = async (message: Message, content: string) => {
+    if (!user || !chatId) return
+
+    if (content === message.content) {
+      cancelEditing()
+      return
+    }
+
+    try {
+      await editMessage(message.id, content)
+
+      setMessages((prevMessages) =>
+        prevMessages.map((prevMessage) =>
+          prevMessage.id === message.id
+            ? { ...prevMessage, content, updated_at: new Date().toISOString() }
+            : prevMessage,
+        ),
+      )
+      cancelEditing()
+
+      await notifyMentions({
+        content,
+        previousContent: message.content,
+        type: "message_mention",
+        relatedId: chatId,
+        fromUserId: user.id,
+        allowedUserIds: members.map((member) => member.user_id),
+      })
+    } catch (error) {
+      console.error("Error editing message:", error)
+      alert("Failed to save changes")
+    }
+  }
+
+  const startEditing = (message: Message) => {
+    const { text, mentions } = decodeMentions(message.content)
+    setNewMessage(text)
+    setMentions(mentions)
+    setReplyTo(null)
+    setEditingMessage(message)
+  }
+
+  const cancelEditing = () => {
+    setEditingMessage(null)
+    setNewMessage("")
+    setMentions([])
+  }
+
+  const handleReact = async (message: Message, emoji: string) => {
+    if (!user) return
+
+    try {
+      const reactions = await toggleReaction("message", message.id, user.id, emoji, message.reactions)
+      setMessages((prevMessages) =>
+        prevMessages.map((prevMessage) =>
+          prevMessage.id === message.id ? { ...prevMessage, reactions } : prevMessage,
+        ),
+      )
+    } catch (error) {
+      console.error("Error reacting to message:", error)
+      alert("Failed to add reaction")
+    }
+  }
+
+  const startReply = (message: Message) => {
+    if (editingMessage) cancelEditing()
+    setReplyTo(message)
+  }
+
+  const handleDelete = async (message: Message) => {
+    if (!confirm("Delete this message for everyone?")) return
+
+    try {
+      await deleteMessage(message.id)
+
+      if (message.attachment_path) {
+        removeAttachment(message.attachment_path).catch((error) => {
+          console.error("Error removing attachment:", error)
+        })
+      }
+
+      setMessages((prevMessages) =>
+        prevMessages.map((prevMessage) =>
+          prevMessage.id === message.id
+            ? { ...prevMessage, content: "", is_deleted: true, attachment_path: null, attachment_kind: null }
+            : prevMessage,
+        ),
+      )
+      if (editingMessage?.id === message.id) cancelEditing()
+      if (replyTo?.id === message.id) setReplyTo(null)
+    } catch (error) {
+      console.error("Error deleting message:", error)
+      alert("Failed to delete message")
+    }
+  }
+
+  const scrollToMessage = (messageId: string) => {
+    document.getElementById(`message-${messageId}`)?.scrollIntoView({ behavior: "smooth", block: "center" })
+    setHighlightedMessageId(messageId)
+    setTimeout(() => {
+      setHighlightedMessageId((current) => (current === messageId ? null : current))
+    }, HIGHLIGHT_DURATION_MS)
+  }
+
   const handleBackClick = () => {
     router.push("/messages")
   }
@@ -230,7 +737,17 @@ export default function ChatWindow({ chatId, userId }: ChatWindowProps) {
             </div>
           )}
 
-          <h2 className="font-semibold">{chatName || "Chat"}</h2>
+          <div>
+            <h2 className="font-semibold">{chatName || "Chat"}</h2>
+            {chatStatus && (
+              <p className="text-xs text-gray-500 dark:text-gray-400 flex items-center">
+                {!isGroup && otherMembers[0] && isActive(otherMembers[0].user_id) && (
+                  <span className="h-2 w-2 bg-green-500 rounded-full mr-1" />
+                )}
+                {chatStatus}
+              </p>
+            )}
+          </div>
         </div>
 
         <button
@@ -258,9 +775,17 @@ export default function ChatWindow({ chatId, userId }: ChatWindowProps) {
             {messages.map((message, index) => {
               const isCurrentUser = message.user_id === user?.id
               const showAvatar = index === 0 || messages[index - 1].user_id !== message.user_id
+              const readers = readersByMessage.get(message.id)
+              const quoted = message.reply_to_id
+                ? messages.find((original) => original.id === message.reply_to_id)
+                : undefined
 
               return (
-                <div key={message.id} className={`flex ${isCurrentUser ? "justify-end" : "justify-start"}`}>
+                <div
+                  key={message.id}
+                  id={`message-${message.id}`}
+                  className={`flex ${isCurrentUser ? "justify-end" : "justify-start"}`}
+                >
                   {!isCurrentUser && showAvatar && (
                     <div className="flex-shrink-0 mr-3">
                       {message.profiles.avatar_url ? (
@@ -284,21 +809,137 @@ export default function ChatWindow({ chatId, userId }: ChatWindowProps) {
                       <div className="text-sm text-gray-500 dark:text-gray-400 mb-1">{message.profiles.username}</div>
                     )}
 
-                    <div className="flex items-end">
+                    <div className="flex items-end group">
                       <div
-                        className={`px-4 py-2 rounded-lg ${
-                          isCurrentUser
-                            ? "bg-primary text-white rounded-br-none"
-                            : "bg-gray-200 dark:bg-gray-700 rounded-bl-none"
+                        className={`px-4 py-2 rounded-lg transition-shadow ${
+                          message.is_deleted
+                            ? "bg-transparent border border-gray-300 dark:border-gray-600"
+                            : isCurrentUser
+                              ? "bg-primary text-white"
+                              : "bg-gray-200 dark:bg-gray-700"
+                        } ${isCurrentUser ? "rounded-br-none" : "rounded-bl-none"} ${
+                          highlightedMessageId === message.id ? "ring-2 ring-primary ring-offset-2" : ""
                         }`}
                       >
-                        <p className="break-words">{message.content}</p>
+                        {message.reply_to_id && !message.is_deleted && (
+                          <button
+                            type="button"
+                            onClick={() => quoted && scrollToMessage(quoted.id)}
+                            disabled={!quoted}
+                            className={`block w-full text-left text-sm mb-1 pl-2 border-l-2 ${
+                              isCurrentUser
+                                ? "border-white/60 text-white/80"
+                                : "border-primary text-gray-600 dark:text-gray-300"
+                            }`}
+                          >
+                            {quoted ? (
+                              <>
+                                <span className="block font-medium">{quoted.profiles.username}</span>
+                                <span className="block truncate">
+                                  {quoted.is_deleted
+                                    ? "Message deleted"
+                                    : toPlainText(quoted.content) || describeAttachment(quoted)}
+                                </span>
+                              </>
+                            ) : (
+                              <span className="italic">Original message unavailable</span>
+                            )}
+                          </button>
+                        )}
+
+                        {message.is_deleted ? (
+                          <p className="italic text-gray-500 dark:text-gray-400">This message was deleted</p>
+                        ) : (
+                          <>
+                            {message.attachment_path && (
+                              <ChatAttachment
+                                attachment={{ ...message, attachment_path: message.attachment_path }}
+                                isCurrentUser={isCurrentUser}
+                              />
+                            )}
+                            {message.content && (
+                              <RichText
+                                content={message.content}
+                                className={`break-words ${message.attachment_path ? "mt-1" : ""}`}
+                                linkClassName={isCurrentUser ? "font-medium underline" : "text-primary hover:underline"}
+                              />
+                            )}
+                          </>
+                        )}
                       </div>
 
                       <span className="text-xs text-gray-500 dark:text-gray-400 ml-2">
                         {formatDistanceToNow(new Date(message.created_at), { addSuffix: true })}
+                        {message.updated_at && !message.is_deleted && " · edited"}
                       </span>
+
+                      {!message.is_deleted && (
+                        <div className="flex items-center ml-1">
+                          <ReactionPicker
+                            onSelect={(emoji) => handleReact(message, emoji)}
+                            align={isCurrentUser ? "end" : "start"}
+                            iconClassName="h-3 w-3"
+                            className="p-1 rounded-full text-gray-400 hover:text-primary opacity-0 group-hover:opacity-100 focus:opacity-100 data-[state=open]:opacity-100 transition-opacity"
+                          />
+                          <button
+                            onClick={() => startReply(message)}
+                            className="p-1 rounded-full text-gray-400 hover:text-primary opacity-0 group-hover:opacity-100 focus:opacity-100 transition-opacity"
+                            aria-label="Reply"
+                          >
+                            <Reply className="h-3 w-3" />
+                          </button>
+                          <DropdownMenu>
+                            <DropdownMenuTrigger
+                              className="p-1 rounded-full text-gray-400 hover:text-gray-600 dark:hover:text-gray-200 opacity-0 group-hover:opacity-100 focus:opacity-100 data-[state=open]:opacity-100 transition-opacity"
+                              aria-label="Message options"
+                            >
+                              <MoreHorizontal className="h-3 w-3" />
+                            </DropdownMenuTrigger>
+                            <DropdownMenuContent align={isCurrentUser ? "end" : "start"}>
+                              {isCurrentUser ? (
+                                <>
+                                  <DropdownMenuItem onSelect={() => startEditing(message)}>
+                                    <Pencil className="h-4 w-4 mr-2" />
+                                    <span>Edit</span>
+                                  </DropdownMenuItem>
+                                  <DropdownMenuItem
+                                    onSelect={() => handleDelete(message)}
+                                    className="text-red-500 focus:text-red-500"
+                                  >
+                                    <Trash2 className="h-4 w-4 mr-2" />
+                                    <span>Delete for everyone</span>
+                                  </DropdownMenuItem>
+                                </>
+                              ) : (
+                                <DropdownMenuItem
+                                  onSelect={() => setReportedMessageId(message.id)}
+                                  className="text-red-500 focus:text-red-500"
+                                >
+                                  <Flag className="h-4 w-4 mr-2" />
+                                  <span>Report</span>
+                                </DropdownMenuItem>
+                              )}
+                            </DropdownMenuContent>
+                          </DropdownMenu>
+                        </div>
+                      )}
                     </div>
+
+                    {!message.is_deleted && (
+                      <ReactionBar
+                        targetType="message"
+                        targetId={message.id}
+                        reactions={message.reactions}
+                        onToggle={(emoji) => handleReact(message, emoji)}
+                        className={`mt-1 ${isCurrentUser ? "justify-end" : ""}`}
+                      />
+                    )}
+
+                    {readers && (
+                      <div className={`text-xs text-gray-500 dark:text-gray-400 mt-1 ${isCurrentUser ? "text-right" : ""}`}>
+                        {isGroup ? `Seen by ${readers.join(", ")}` : "Seen"}
+                      </div>
+                    )}
                   </div>
                 </div>
               )
@@ -310,26 +951,153 @@ export default function ChatWindow({ chatId, userId }: ChatWindowProps) {
 
       {/* Message Input */}
       <form onSubmit={handleSubmit} className="p-4 border-t border-gray-200 dark:border-gray-700">
-        <div className="flex space-x-2">
-          <input
-            type="text"
-            value={newMessage}
-            onChange={(e) => setNewMessage(e.target.value)}
-            placeholder="Type a message..."
-            className="flex-1 px-4 py-2 border border-gray-300 dark:border-gray-600 rounded-md focus:outline-none focus:ring-2 focus:ring-primary dark:bg-gray-700 dark:text-white"
-          />
-          <button
-            type="submit"
-            disabled={!newMessage.trim()}
-            className="px-4 py-2 bg-primary text-white rounded-md hover:bg-primary/90 focus:outline-none focus:ring-2 focus:ring-primary focus:ring-offset-2 transition-colors disabled:opacity-70"
-          >
-            <Send className="h-5 w-5" />
-          </button>
-        </div>
+        {typingText && <p className="text-xs text-gray-500 dark:text-gray-400 italic mb-2">{typingText}</p>}
+        {(replyTo || editingMessage) && (
+          <div className="flex items-center justify-between mb-2 pl-3 border-l-2 border-primary text-sm">
+            <div className="min-w-0">
+              <p className="font-medium text-primary">
+                {editingMessage ? "Editing message" : `Replying to ${replyTo!.profiles.username}`}
+              </p>
+              {replyTo && (
+                <p className="text-gray-500 dark:text-gray-400 truncate">
+                  {toPlainText(replyTo.content) || describeAttachment(replyTo)}
+                </p>
+              )}
+            </div>
+            <button
+              type="button"
+              onClick={editingMessage ? cancelEditing : () => setReplyTo(null)}
+              className="p-1 rounded-full hover:bg-gray-100 dark:hover:bg-gray-700 transition-colors"
+              aria-label={editingMessage ? "Cancel editing" : "Cancel reply"}
+            >
+              <X className="h-4 w-4" />
+            </button>
+          </div>
+        )}
+        {!editingMessage && attachment && (
+          <div className="flex items-center justify-between mb-2 p-2 rounded-md bg-gray-100 dark:bg-gray-700 text-sm">
+            <div className="flex items-center space-x-2 min-w-0">
+              {attachment.kind === "image" && attachment.previewUrl ? (
+                <Image
+                  src={attachment.previewUrl}
+                  alt={attachment.name}
+                  width={48}
+                  height={48}
+                  className="w-12 h-12 rounded object-cover"
+                />
+              ) : attachment.kind === "voice" ? (
+                <Mic className="h-5 w-5 flex-shrink-0 text-primary" />
+              ) : (
+                <FileText className="h-5 w-5 flex-shrink-0 text-primary" />
+              )}
+              {attachment.kind === "voice" && attachment.previewUrl ? (
+                <audio src={attachment.previewUrl} controls className="h-8 max-w-[14rem]" />
+              ) : (
+                <span className="truncate">{attachment.name}</span>
+              )}
+              <span className="flex-shrink-0 text-gray-500 dark:text-gray-400">
+                {attachment.duration ? formatDuration(attachment.duration) : formatFileSize(attachment.file.size)}
+              </span>
+            </div>
+            {uploadProgress !== null ? (
+              <span className="flex-shrink-0 ml-2 text-gray-500 dark:text-gray-400">{uploadProgress}%</span>
+            ) : (
+              <button
+                type="button"
+                onClick={() => replaceAttachment(null)}
+                className="flex-shrink-0 p-1 rounded-full hover:bg-gray-200 dark:hover:bg-gray-600 transition-colors"
+                aria-label="Remove attachment"
+              >
+                <X className="h-4 w-4" />
+              </button>
+            )}
+          </div>
+        )}
+        {attachmentError && <p className="text-red-500 text-sm mb-2">{attachmentError}</p>}
+        {voiceRecorder.isRecording ? (
+          <div className="flex items-center space-x-2">
+            <div className="flex-1 flex items-center space-x-2 px-4 py-2 border border-gray-300 dark:border-gray-600 rounded-md">
+              <span className="w-2 h-2 rounded-full bg-red-500 animate-pulse" />
+              <span className="text-sm">Recording {formatDuration(voiceRecorder.elapsed)}</span>
+              <span className="text-xs text-gray-500 dark:text-gray-400">
+                / {formatDuration(MAX_VOICE_NOTE_DURATION)}
+              </span>
+            </div>
+            <button
+              type="button"
+              onClick={voiceRecorder.cancel}
+              className="p-2 rounded-md text-gray-500 hover:bg-gray-100 dark:hover:bg-gray-700 transition-colors"
+              aria-label="Discard voice note"
+            >
+              <Trash2 className="h-5 w-5" />
+            </button>
+            <button
+              type="button"
+              onClick={voiceRecorder.stop}
+              className="px-4 py-2 bg-primary text-white rounded-md hover:bg-primary/90 transition-colors"
+              aria-label="Stop recording"
+            >
+              <Square className="h-5 w-5" />
+            </button>
+          </div>
+        ) : (
+          <div className="flex space-x-2">
+            {!editingMessage && (
+              <>
+                <input
+                  ref={fileInputRef}
+                  type="file"
+                  accept={ATTACHMENT_MIME_TYPES.join(",")}
+                  onChange={handleFileChange}
+                  className="hidden"
+                />
+                <button
+                  type="button"
+                  onClick={() => fileInputRef.current?.click()}
+                  disabled={uploadProgress !== null}
+                  className="p-2 rounded-md text-gray-500 hover:bg-gray-100 dark:hover:bg-gray-700 transition-colors disabled:opacity-70"
+                  aria-label="Attach a file"
+                >
+                  <Paperclip className="h-5 w-5" />
+                </button>
+                <button
+                  type="button"
+                  onClick={startRecording}
+                  disabled={uploadProgress !== null}
+                  className="p-2 rounded-md text-gray-500 hover:bg-gray-100 dark:hover:bg-gray-700 transition-colors disabled:opacity-70"
+                  aria-label="Record a voice note"
+                >
+                  <Mic className="h-5 w-5" />
+                </button>
+              </>
+            )}
+            <MentionInput
+              multiline={false}
+              value={newMessage}
+              onChange={handleMessageChange}
+              onMention={(mention) => setMentions((prev) => [...prev, mention])}
+              userIds={members.map((member) => member.user_id)}
+              suggestionsAbove
+              placeholder="Type a message..."
+              className="w-full px-4 py-2 border border-gray-300 dark:border-gray-600 rounded-md focus:outline-none focus:ring-2 focus:ring-primary dark:bg-gray-700 dark:text-white"
+            />
+            <button
+              type="submit"
+              disabled={!canSend}
+              className="px-4 py-2 bg-primary text-white rounded-md hover:bg-primary/90 focus:outline-none focus:ring-2 focus:ring-primary focus:ring-offset-2 transition-colors disabled:opacity-70"
+            >
+              <Send className="h-5 w-5" />
+            </button>
+          </div>
+        )}
       </form>
 
       {/* Chat Info Modal */}
       {showInfo && <ChatInfo chatId={chatId} isGroup={isGroup} onClose={() => setShowInfo(false)} />}
+
+      {reportedMessageId && (
+        <ReportDialog targetType="message" targetId={reportedMessageId} onClose={() => setReportedMessageId(null)} />
+      )}
     </div>
   )
 }
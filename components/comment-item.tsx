@@ -0,0 +1,278 @@
+"use client"
+
+import type React from "react"
+
+import { useState } from "react"
+import { useAuth } from "@/contexts/auth-context"
+import { formatDistanceToNow } from "date-fns"
+import Link from "next/link"
+import Image from "next/image"
+import { ChevronDown, ChevronRight, Heart } from "lucide-react"
+import { decodeMentions, encodeMentions, type MentionedUser } from "@/lib/rich-text"
+import MentionInput from "./mention-input"
+import RichText from "./rich-text"
+import ReportDialog from "./report-dialog"
+
+export type Comment = {
+  id: string
+  content: string
+  created_at: string
+  updated_at: string
+  user_id: string
+  parent_id: string | null
+  profiles: {
+    username: string
+    avatar_url: string | null
+  }
+  likes_count: number
+  user_has_liked: boolean
+}
+
+export type CommentNode = Comment & {
+  replies: CommentNode[]
+}
+
+// Replies past this depth stop indenting so deep threads stay readable on mobile
+const MAX_INDENT_DEPTH = 3
+
+type CommentItemProps = {
+  comment: CommentNode
+  depth: number
+  postUserId: string
+  onReply: (parentId: string, content: string) => Promise<boolean>
+  onEdit: (commentId: string, content: string) => Promise<boolean>
+  onDelete: (commentId: string) => Promise<void>
+  onLike: (commentId: string) => void
+}
+
+export default function CommentItem({
+  comment,
+  depth,
+  postUserId,
+  onReply,
+  onEdit,
+  onDelete,
+  onLike,
+}: CommentItemProps) {
+  const [showReplies, setShowReplies] = useState(true)
+  const [isReplying, setIsReplying] = useState(false)
+  const [replyContent, setReplyContent] = useState("")
+  const [replyMentions, setReplyMentions] = useState<MentionedUser[]>([])
+  const [isEditing, setIsEditing] = useState(false)
+  const [editContent, setEditContent] = useState("")
+  const [editMentions, setEditMentions] = useState<MentionedUser[]>([])
+  const [submitting, setSubmitting] = useState(false)
+  const [showReport, setShowReport] = useState(false)
+  const { user } = useAuth()
+
+  const isAuthor = user?.id === comment.user_id
+  const canDelete = isAuthor || user?.id === postUserId
+  const isEdited = new Date(comment.updated_at).getTime() > new Date(comment.created_at).getTime()
+
+  const handleReplySubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+    if (!replyContent.trim()) return
+
+    setSubmitting(true)
+
+    if (await onReply(comment.id, encodeMentions(replyContent.trim(), replyMentions))) {
+      setReplyContent("")
+      setReplyMentions([])
+      setIsReplying(false)
+      setShowReplies(true)
+    }
+
+    setSubmitting(false)
+  }
+
+  const handleEditSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+    if (!editContent.trim()) return
+
+    const content = encodeMentions(editContent.trim(), editMentions)
+
+    if (content === comment.content) {
+      setIsEditing(false)
+      return
+    }
+
+    setSubmitting(true)
+
+    if (await onEdit(comment.id, content)) {
+      setIsEditing(false)
+    }
+
+    setSubmitting(false)
+  }
+
+  const startEditing = () => {
+    const { text, mentions } = decodeMentions(comment.content)
+    setEditContent(text)
+    setEditMentions(mentions)
+    setIsEditing(true)
+  }
+
+  const handleDelete = async () => {
+    const message = comment.replies.length > 0 ? "Delete this comment and its replies?" : "Delete this comment?"
+    if (!confirm(message)) return
+
+    await onDelete(comment.id)
+  }
+
+  return (
+    <div>
+      <div className="flex space-x-3">
+        <Link href={`/profile/${comment.user_id}`} className="flex-shrink-0">
+          {comment.profiles.avatar_url ? (
+            <Image
+              src={comment.profiles.avatar_url || "/placeholder.svg"}
+              alt={comment.profiles.username}
+              width={36}
+              height={36}
+              className="rounded-full object-cover"
+            />
+          ) : (
+            <div className="w-9 h-9 bg-primary/20 rounded-full flex items-center justify-center text-primary font-semibold">
+              {comment.profiles.username.charAt(0).toUpperCase()}
+            </div>
+          )}
+        </Link>
+
+        <div className="flex-1 min-w-0">
+          <div className="bg-white dark:bg-gray-700 rounded-lg p-3">
+            <div className="flex items-center justify-between">
+              <Link
+                href={`/profile/${comment.user_id}`}
+                className="font-medium text-gray-900 dark:text-white hover:underline"
+              >
+                {comment.profiles.username}
+              </Link>
+              <span className="text-xs text-gray-500 dark:text-gray-400">
+                {formatDistanceToNow(new Date(comment.created_at), { addSuffix: true })}
+                {isEdited && " · edited"}
+              </span>
+            </div>
+
+            {isEditing ? (
+              <form onSubmit={handleEditSubmit} className="mt-2">
+                <MentionInput
+                  value={editContent}
+                  onChange={setEditContent}
+                  onMention={(mention) => setEditMentions((prev) => [...prev, mention])}
+                  className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-md focus:outline-none focus:ring-2 focus:ring-primary dark:bg-gray-700 dark:text-white resize-none"
+                  rows={2}
+                  autoFocus
+                />
+                <div className="mt-2 flex justify-end space-x-2 text-sm">
+                  <button
+                    type="button"
+                    onClick={() => setIsEditing(false)}
+                    className="px-3 py-1 bg-gray-200 dark:bg-gray-600 rounded-md hover:bg-gray-300 dark:hover:bg-gray-500 transition-colors"
+                  >
+                    Cancel
+                  </button>
+                  <button
+                    type="submit"
+                    disabled={submitting || !editContent.trim()}
+                    className="px-3 py-1 bg-primary text-white rounded-md hover:bg-primary/90 transition-colors disabled:opacity-70"
+                  >
+                    {submitting ? "Saving..." : "Save"}
+                  </button>
+                </div>
+              </form>
+            ) : (
+              <RichText content={comment.content} className="mt-1 text-gray-800 dark:text-gray-200 break-words" />
+            )}
+          </div>
+
+          <div className="flex items-center space-x-3 mt-1 px-1 text-xs text-gray-500 dark:text-gray-400">
+            <button
+              onClick={() => onLike(comment.id)}
+              disabled={!user}
+              className={`flex items-center transition-colors ${
+                comment.user_has_liked ? "text-red-500" : "hover:text-red-500"
+              }`}
+              aria-label={comment.user_has_liked ? "Unlike comment" : "Like comment"}
+            >
+              <Heart className={`h-3 w-3 mr-1 ${comment.user_has_liked ? "fill-red-500" : ""}`} />
+              <span>{comment.likes_count}</span>
+            </button>
+            {user && (
+              <button onClick={() => setIsReplying(!isReplying)} className="hover:text-primary transition-colors">
+                Reply
+              </button>
+            )}
+            {isAuthor && !isEditing && (
+              <button onClick={startEditing} className="hover:text-primary transition-colors">
+                Edit
+              </button>
+            )}
+            {canDelete && (
+              <button onClick={handleDelete} className="hover:text-red-500 transition-colors">
+                Delete
+              </button>
+            )}
+            {user && !isAuthor && (
+              <button onClick={() => setShowReport(true)} className="hover:text-red-500 transition-colors">
+                Report
+              </button>
+            )}
+            {comment.replies.length > 0 && (
+              <button
+                onClick={() => setShowReplies(!showReplies)}
+                className="flex items-center hover:text-primary transition-colors"
+              >
+                {showReplies ? <ChevronDown className="h-3 w-3 mr-1" /> : <ChevronRight className="h-3 w-3 mr-1" />}
+                {showReplies
+                  ? "Hide replies"
+                  : `Show ${comment.replies.length} ${comment.replies.length === 1 ? "reply" : "replies"}`}
+              </button>
+            )}
+          </div>
+
+          {isReplying && (
+            <form onSubmit={handleReplySubmit} className="mt-2 flex space-x-2">
+              <MentionInput
+                value={replyContent}
+                onChange={setReplyContent}
+                onMention={(mention) => setReplyMentions((prev) => [...prev, mention])}
+                placeholder={`Reply to ${comment.profiles.username}...`}
+                className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-md focus:outline-none focus:ring-2 focus:ring-primary dark:bg-gray-700 dark:text-white resize-none"
+                rows={1}
+                autoFocus
+              />
+              <button
+                type="submit"
+                disabled={submitting || !replyContent.trim()}
+                className="px-3 py-2 bg-primary text-white rounded-md hover:bg-primary/90 transition-colors disabled:opacity-70"
+              >
+                {submitting ? "Sending..." : "Reply"}
+              </button>
+            </form>
+          )}
+        </div>
+      </div>
+
+      {showReplies && comment.replies.length > 0 && (
+        <div
+          className={`mt-3 space-y-3 ${depth < MAX_INDENT_DEPTH ? "ml-6 pl-3 border-l-2 border-gray-200 dark:border-gray-700" : ""}`}
+        >
+          {comment.replies.map((reply) => (
+            <CommentItem
+              key={reply.id}
+              comment={reply}
+              depth={depth + 1}
+              postUserId={postUserId}
+              onReply={onReply}
+              onEdit={onEdit}
+              onDelete={onDelete}
+              onLike={onLike}
+            />
+          ))}
+        </div>
+      )}
+
+      {showReport && <ReportDialog targetType="comment" targetId={comment.id} onClose={() => setShowReport(false)} />}
+    </div>
+  )
+}
@@ -2,35 +2,107 @@
 
 import type React from "react"
 
-import { useState, useEffect } from "react"
+import { useState, useEffect, useMemo, useRef } from "react"
 import { supabase } from "@/lib/supabase"
 import { useAuth } from "@/contexts/auth-context"
-import { formatDistanceToNow } from "date-fns"
-import Link from "next/link"
-import Image from "next/image"
+import { encodeMentions, notifyMentions, type MentionedUser } from "@/lib/rich-text"
+import CommentItem, { type Comment, type CommentNode } from "./comment-item"
+import MentionInput from "./mention-input"
+import { useMutedUsers } from "@/hooks/use-muted-users"
 
-type Comment = {
+type CommentSectionProps = {
+  postId: string
+  postUserId: string
+}
+
+type CommentSort = "oldest" | "newest" | "most_liked"
+
+const sortOptions: { value: CommentSort; label: string }[] = [
+  { value: "oldest", label: "Oldest" },
+  { value: "newest", label: "Newest" },
+  { value: "most_liked", label: "Most liked" },
+]
+
+const commentSorters: Record<CommentSort, (a: Comment, b: Comment) => number> = {
+  oldest: (a, b) => a.created_at.localeCompare(b.created_at),
+  newest: (a, b) => b.created_at.localeCompare(a.created_at),
+  most_liked: (a, b) => b.likes_count - a.likes_count || a.created_at.localeCompare(b.created_at),
+}
+
+type CommentLike = {
   id: string
-  content: string
-  created_at: string
+  comment_id: string
   user_id: string
-  profiles: {
-    username: string
-    avatar_url: string | null
+}
+
+// Transform a comment row to match our Comment type
+function toComment(row: any, likedIds: Set<string>): Comment {
+  return {
+    ...row,
+    profiles: row.profiles as any,
+    likes_count: row.likes_count[0]?.count || 0,
+    user_has_liked: likedIds.has(row.id),
   }
 }
 
-type CommentSectionProps = {
-  postId: string
-  postUserId: string
+// Nest the flat comment list under parent_id; replies to missing parents are shown at the top level.
+// Only top-level comments follow the chosen sort, replies always read oldest first.
+function buildCommentTree(comments: Comment[], sort: CommentSort): CommentNode[] {
+  const nodes = new Map<string, CommentNode>()
+  comments.forEach((comment) => nodes.set(comment.id, { ...comment, replies: [] }))
+
+  const roots: CommentNode[] = []
+  nodes.forEach((node) => {
+    const parent = node.parent_id ? nodes.get(node.parent_id) : undefined
+    if (parent) {
+      parent.replies.push(node)
+    } else {
+      roots.push(node)
+    }
+  })
+
+  return roots.sort(commentSorters[sort])
+}
+
+// Drop a comment and every reply beneath it
+function removeCommentThread(comments: Comment[], commentId: string) {
+  const removed = new Set([commentId])
+  let changed = true
+
+  while (changed) {
+    changed = false
+    comments.forEach((comment) => {
+      if (comment.parent_id && removed.has(comment.parent_id) && !removed.has(comment.id)) {
+        removed.add(comment.id)
+        changed = true
+      }
+    })
+  }
+
+  return comments.filter((comment) => !removed.has(comment.id))
 }
 
 export default function CommentSection({ postId, postUserId }: CommentSectionProps) {
   const [comments, setComments] = useState<Comment[]>([])
   const [newComment, setNewComment] = useState("")
+  const [mentions, setMentions] = useState<MentionedUser[]>([])
   const [loading, setLoading] = useState(true)
   const [submitting, setSubmitting] = useState(false)
+  const [sort, setSort] = useState<CommentSort>("oldest")
   const { user } = useAuth()
+  const mutedIds = useMutedUsers()
+  // Likes on this post's comments by id, since realtime unlikes carry nothing else
+  const commentLikesRef = useRef(new Map<string, CommentLike>())
+
+  // Comments from muted users are left out; replies to them move up to the top level
+  const commentTree = useMemo(
+    () =>
+      buildCommentTree(
+        mutedIds && mutedIds.size > 0 ? comments.filter((comment) => !mutedIds.has(comment.user_id)) : comments,
+        sort,
+      ),
+    [comments, sort, mutedIds],
+  )
 
   useEffect(() => {
     const fetchComments = async () => {
@@ -39,14 +111,28 @@ export default function CommentSection({ postId, postUserId }: CommentSectionPro
           .from("comments")
           .select(`
             *,
-            profiles:user_id(username, avatar_url)
+            profiles:user_id(username, avatar_url),
+            likes_count:comment_likes(count)
           `)
           .eq("post_id", postId)
           .order("created_at", { ascending: true })
 
         if (error) throw error
 
-        setComments(data as Comment[])
+        const { data: likes, error: likesError } = await supabase
+          .from("comment_likes")
+          .select("id, comment_id, user_id")
+          .eq("post_id", postId)
+
+        if (likesError) throw likesError
+
+        const postLikes = (likes || []) as CommentLike[]
+        postLikes.forEach((like) => commentLikesRef.current.set(like.id, like))
+
+        // The comments on this post the viewer has liked
+        const likedIds = new Set(postLikes.filter((like) => like.user_id === user?.id).map((like) => like.comment_id))
+
+        setComments(data.map((row) => toComment(row, likedIds)))
       } catch (error) {
         console.error("Error fetching comments:", error)
       } finally {
@@ -54,9 +140,10 @@ export default function CommentSection({ postId, postUserId }: CommentSectionPro
       }
     }
 
+    commentLikesRef.current.clear()
     fetchComments()
 
-    // Subscribe to new comments
+    // Subscribe to new, edited and deleted comments
     const commentsSubscription = supabase
       .channel(`comments:${postId}`)
       .on(
@@ -73,14 +160,85 @@ export default function CommentSection({ postId, postUserId }: CommentSectionPro
             .from("comments")
             .select(`
             *,
-            profiles:user_id(username, avatar_url)
+            profiles:user_id(username, avatar_url),
+            likes_count:comment_likes(count)
           `)
             .eq("id", payload.new.id)
             .single()
 
           if (error) return
 
-          setComments((prevComments) => [...prevComments, data as Comment])
+          const newComment = toComment(data, new Set())
+
+          setComments((prevComments) =>
+            prevComments.some((comment) => comment.id === newComment.id)
+              ? prevComments
+              : [...prevComments, newComment],
+          )
+        },
+      )
+      .on(
+        "postgres_changes",
+        {
+          event: "UPDATE",
+          schema: "public",
+          table: "comments",
+          filter: `post_id=eq.${postId}`,
+        },
+        (payload) => {
+          setComments((prevComments) =>
+            prevComments.map((comment) =>
+              comment.id === payload.new.id
+                ? { ...comment, content: payload.new.content, updated_at: payload.new.updated_at }
+                : comment,
+            ),
+          )
+        },
+      )
+      .on(
+        "postgres_changes",
+        {
+          // Delete events only carry the primary key, so they can't be filtered by post
+          event: "DELETE",
+          schema: "public",
+          table: "comments",
+        },
+        (payload) => {
+          setComments((prevComments) => removeCommentThread(prevComments, payload.old.id))
+        },
+      )
+      .on(
+        "postgres_changes",
+        {
+          event: "INSERT",
+          schema: "public",
+          table: "comment_likes",
+          filter: `post_id=eq.${postId}`,
+        },
+        (payload) => {
+          const like = payload.new as CommentLike
+          commentLikesRef.current.set(like.id, like)
+
+          // The viewer's own likes are already counted locally
+          if (like.user_id === user?.id) return
+          adjustCommentLikes(like.comment_id, 1)
+        },
+      )
+      .on(
+        "postgres_changes",
+        {
+          // Unlikes only carry the like's id, so they can't be filtered by post. Ids that aren't
+          // among this post's likes belong to other posts
+          event: "DELETE",
+          schema: "public",
+          table: "comment_likes",
+        },
+        (payload) => {
+          const like = commentLikesRef.current.get(payload.old.id)
+          if (!like) return
+
+          commentLikesRef.current.delete(like.id)
+          if (like.user_id !== user?.id) adjustCommentLikes(like.comment_id, -1)
         },
       )
       .subscribe()
@@ -88,26 +246,48 @@ export default function CommentSection({ postId, postUserId }: CommentSectionPro
     return () => {
       commentsSubscription.unsubscribe()
     }
-  }, [postId])
+  }, [postId, user])
 
-  const handleSubmit = async (e: React.FormEvent) => {
-    e.preventDefault()
-
-    if (!user || !newComment.trim()) return
+  const adjustCommentLikes = (commentId: string, delta: number, userHasLiked?: boolean) => {
+    setComments((prevComments) =>
+      prevComments.map((comment) =>
+        comment.id === commentId
+          ? {
+              ...comment,
+              likes_count: Math.max(comment.likes_count + delta, 0),
+              user_has_liked: userHasLiked ?? comment.user_has_liked,
+            }
+          : comment,
+      ),
+    )
+  }
 
-    setSubmitting(true)
+  const createComment = async (content: string, parent?: Comment) => {
+    if (!user) return false
 
     try {
       const { error } = await supabase.from("comments").insert({
         post_id: postId,
         user_id: user.id,
-        content: newComment.trim(),
+        parent_id: parent?.id ?? null,
+        content,
       })
 
       if (error) throw error
 
+      // Let the author of the comment being replied to know
+      if (parent && parent.user_id !== user.id) {
+        await supabase.from("notifications").insert({
+          user_id: parent.user_id,
+          type: "reply",
+          related_id: postId,
+          from_user_id: user.id,
+          is_read: false,
+        })
+      }
+
       // Create notification if the comment is not by the post author
-      if (user.id !== postUserId) {
+      if (user.id !== postUserId && parent?.user_id !== postUserId) {
         await supabase.from("notifications").insert({
           user_id: postUserId,
           type: "comment",
@@ -117,16 +297,140 @@ export default function CommentSection({ postId, postUserId }: CommentSectionPro
         })
       }
 
-      setNewComment("")
+      await notifyMentions({ content, type: "mention", relatedId: postId, fromUserId: user.id })
+
+      return true
     } catch (error) {
       console.error("Error submitting comment:", error)
-    } finally {
-      setSubmitting(false)
+      return false
     }
   }
 
+  const handleReply = async (parentId: string, content: string) => {
+    const parent = comments.find((comment) => comment.id === parentId)
+    if (!parent) return false
+
+    return createComment(content, parent)
+  }
+
+  const handleEdit = async (commentId: string, content: string) => {
+    const previous = comments.find((comment) => comment.id === commentId)
+
+    try {
+      const { data, error } = await supabase
+        .from("comments")
+        .update({ content, updated_at: new Date().toISOString() })
+        .eq("id", commentId)
+        .select("content, updated_at")
+        .single()
+
+      if (error) throw error
+
+      setComments((prevComments) =>
+        prevComments.map((comment) => (comment.id === commentId ? { ...comment, ...data } : comment)),
+      )
+
+      if (user) {
+        await notifyMentions({
+          content,
+          previousContent: previous?.content,
+          type: "mention",
+          relatedId: postId,
+          fromUserId: user.id,
+        })
+      }
+
+      return true
+    } catch (error) {
+      console.error("Error editing comment:", error)
+      return false
+    }
+  }
+
+  const handleLike = async (commentId: string) => {
+    if (!user) return
+
+    const comment = comments.find((comment) => comment.id === commentId)
+    if (!comment) return
+
+    try {
+      if (comment.user_has_liked) {
+        const { error } = await supabase
+          .from("comment_likes")
+          .delete()
+          .eq("comment_id", commentId)
+          .eq("user_id", user.id)
+
+        if (error) throw error
+
+        adjustCommentLikes(commentId, -1, false)
+      } else {
+        const { error } = await supabase.from("comment_likes").insert({
+          comment_id: commentId,
+          post_id: postId,
+          user_id: user.id,
+        })
+
+        if (error) throw error
+
+        adjustCommentLikes(commentId, 1, true)
+      }
+    } catch (error) {
+      console.error("Error toggling comment like:", error)
+    }
+  }
+
+  const handleDelete = async (commentId: string) => {
+    try {
+      // Replies are removed along with their parent by the database
+      const { error } = await supabase.from("comments").delete().eq("id", commentId)
+
+      if (error) throw error
+
+      setComments((prevComments) => removeCommentThread(prevComments, commentId))
+    } catch (error) {
+      console.error("Error deleting comment:", error)
+      alert("Failed to delete comment")
+    }
+  }
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+
+    if (!user || !newComment.trim()) return
+
+    setSubmitting(true)
+
+    if (await createComment(encodeMentions(newComment.trim(), mentions))) {
+      setNewComment("")
+      setMentions([])
+    }
+
+    setSubmitting(false)
+  }
+
   return (
     <div className="border-t border-gray-200 dark:border-gray-700 bg-gray-50 dark:bg-gray-800/50">
+      {/* Comment Sorting */}
+      {comments.length > 1 && (
+        <div className="px-4 pt-3 flex items-center justify-end space-x-1 text-xs">
+          <span className="text-gray-500 dark:text-gray-400 mr-1">Sort by</span>
+          {sortOptions.map((option) => (
+            <button
+              key={option.value}
+              onClick={() => setSort(option.value)}
+              className={`px-2 py-1 rounded-md transition-colors ${
+                sort === option.value
+                  ? "bg-primary text-white"
+                  : "text-gray-600 dark:text-gray-300 hover:bg-gray-200 dark:hover:bg-gray-700"
+              }`}
+            >
+              {option.label}
+            </button>
+          ))}
+        </div>
+      )}
+
       {/* Comments List */}
       <div className="p-4 space-y-4 max-h-[400px] overflow-y-auto">
         {loading ? (
@@ -136,41 +440,17 @@ export default function CommentSection({ postId, postUserId }: CommentSectionPro
         ) : comments.length === 0 ? (
           <p className="text-center text-gray-500 dark:text-gray-400 py-4">No comments yet. Be the first to comment!</p>
         ) : (
-          comments.map((comment) => (
-            <div key={comment.id} className="flex space-x-3">
-              <Link href={`/profile/${comment.user_id}`} className="flex-shrink-0">
-                {comment.profiles.avatar_url ? (
-                  <Image
-                    src={comment.profiles.avatar_url || "/placeholder.svg"}
-                    alt={comment.profiles.username}
-                    width={36}
-                    height={36}
-                    className="rounded-full object-cover"
-                  />
-                ) : (
-                  <div className="w-9 h-9 bg-primary/20 rounded-full flex items-center justify-center text-primary font-semibold">
-                    {comment.profiles.username.charAt(0).toUpperCase()}
-                  </div>
-                )}
-              </Link>
-
-              <div className="flex-1">
-                <div className="bg-white dark:bg-gray-700 rounded-lg p-3">
-                  <div className="flex items-center justify-between">
-                    <Link
-                      href={`/profile/${comment.user_id}`}
-                      className="font-medium text-gray-900 dark:text-white hover:underline"
-                    >
-                      {comment.profiles.username}
-                    </Link>
-                    <span className="text-xs text-gray-500 dark:text-gray-400">
-                      {formatDistanceToNow(new Date(comment.created_at), { addSuffix: true })}
-                    </span>
-                  </div>
-                  <p className="mt-1 text-gray-800 dark:text-gray-200 break-words">{comment.content}</p>
-                </div>
-              </div>
-            </div>
+          commentTree.map((comment) => (
+            <CommentItem
+              key={comment.id}
+              comment={comment}
+              depth={0}
+              postUserId={postUserId}
+              onReply={handleReply}
+              onEdit={handleEdit}
+              onDelete={handleDelete}
+              onLike={handleLike}
+            />
           ))
         )}
       </div>
@@ -180,9 +460,10 @@ export default function CommentSection({ postId, postUserId }: CommentSectionPro
         <form onSubmit={handleSubmit} className="p-4 border-t border-gray-200 dark:border-gray-700">
           <div className="flex space-x-3">
             <div className="flex-1">
-              <textarea
+              <MentionInput
                 value={newComment}
-                onChange={(e) => setNewComment(e.target.value)}
+                onChange={setNewComment}
+                onMention={(mention) => setMentions((prev) => [...prev, mention])}
                 placeholder="Write a comment..."
                 className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-md focus:outline-none focus:ring-2 focus:ring-primary dark:bg-gray-700 dark:text-white resize-none"
                 rows={1}
@@ -2,6 +2,7 @@
 
 import { useState, useEffect } from "react"
 import { supabase } from "@/lib/supabase"
+import { canMessage } from "@/lib/settings"
 import { useAuth } from "@/contexts/auth-context"
 import Image from "next/image"
 import { X, Search, Users } from "lucide-react"
@@ -90,6 +91,15 @@ export default function CreateGroupChat({ onClose }: CreateGroupChatProps) {
     setCreating(true)
 
     try {
+      // Respect each member's privacy settings before adding them
+      const allowed = await Promise.all(selectedUsers.map((u) => canMessage(u.id)))
+      const blockedUsers = selectedUsers.filter((_, index) => !allowed[index])
+
+      if (blockedUsers.length > 0) {
+        alert(`These users aren't accepting messages from you: ${blockedUsers.map((u) => u.username).join(", ")}`)
+        return
+      }
+
       // Create the group chat
       const { data: newChat, error: chatError } = await supabase
         .from("chats")
@@ -2,106 +2,251 @@
 
 import type React from "react"
 
-import { useState, useRef } from "react"
+import { useState, useRef, useEffect } from "react"
 import { useAuth } from "@/contexts/auth-context"
 import { supabase } from "@/lib/supabase"
-import { ImageIcon, X } from "lucide-react"
+import { uploadWithProgress } from "@/lib/upload"
+import { POST_MEDIA_BUCKET } from "@/lib/posts"
+import { getImageExtension, processImage } from "@/lib/image-processing"
+import { encodeMentions, notifyMentions, type MentionedUser } from "@/lib/rich-text"
+import { ImageIcon, X, GripVertical } from "lucide-react"
 import Image from "next/image"
 import { v4 as uuidv4 } from "uuid"
+import MentionInput from "./mention-input"
+
+type Attachment = {
+  id: string
+  file: Blob
+  extension: string
+  previewUrl: string
+  mediaType: "image" | "video"
+  blurhash: string | null
+  progress: number
+}
+
+const MAX_ATTACHMENTS = 10
+const MAX_SOURCE_IMAGE_SIZE = 25 * 1024 * 1024
+const MAX_IMAGE_SIZE = 5 * 1024 * 1024
+// Must match the post-media bucket's size limit in init-supabase.ts
+const MAX_VIDEO_SIZE = 50 * 1024 * 1024
+const MAX_VIDEO_DURATION = 60
+
+// Read a video's length in seconds from its metadata
+function getVideoDuration(url: string) {
+  return new Promise<number>((resolve, reject) => {
+    const video = document.createElement("video")
+    video.preload = "metadata"
+    video.onloadedmetadata = () => resolve(video.duration)
+    video.onerror = () => reject(new Error("Could not read video"))
+    video.src = url
+  })
+}
 
 export default function CreatePost() {
   const [content, setContent] = useState("")
-  const [image, setImage] = useState<File | null>(null)
-  const [imagePreview, setImagePreview] = useState<string | null>(null)
+  const [mentions, setMentions] = useState<MentionedUser[]>([])
+  const [attachments, setAttachments] = useState<Attachment[]>([])
+  const [dragIndex, setDragIndex] = useState<number | null>(null)
+  const [isProcessing, setIsProcessing] = useState(false)
   const [isSubmitting, setIsSubmitting] = useState(false)
   const [error, setError] = useState<string | null>(null)
   const fileInputRef = useRef<HTMLInputElement>(null)
+  const attachmentsRef = useRef<Attachment[]>([])
   const { user } = useAuth()
 
-  const handleImageChange = (e: React.ChangeEvent<HTMLInputElement>) => {
-    const file = e.target.files?.[0]
-    if (!file) return
+  attachmentsRef.current = attachments
 
-    // Check file size (max 5MB)
-    if (file.size > 5 * 1024 * 1024) {
-      setError("Image size should be less than 5MB")
-      return
+  // Release preview URLs when the composer goes away
+  useEffect(() => {
+    return () => {
+      attachmentsRef.current.forEach((attachment) => URL.revokeObjectURL(attachment.previewUrl))
     }
+  }, [])
 
-    // Check file type
-    if (!file.type.startsWith("image/")) {
-      setError("Only image files are allowed")
-      return
+  const handleFilesChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(e.target.files || [])
+    if (fileInputRef.current) {
+      fileInputRef.current.value = ""
     }
+    if (files.length === 0) return
 
-    setImage(file)
-    setError(null)
+    const added: Attachment[] = []
+    let fileError: string | null = null
+
+    setIsProcessing(true)
+
+    for (const file of files) {
+      if (attachments.length + added.length >= MAX_ATTACHMENTS) {
+        fileError = `You can attach up to ${MAX_ATTACHMENTS} images or videos`
+        break
+      }
+
+      const isImage = file.type.startsWith("image/")
+      const isVideo = file.type.startsWith("video/")
 
-    // Create preview
-    const reader = new FileReader()
-    reader.onloadend = () => {
-      setImagePreview(reader.result as string)
+      // Check file type
+      if (!isImage && !isVideo) {
+        fileError = "Only image and video files are allowed"
+        continue
+      }
+
+      // Check file size (images are checked again after processing)
+      if (isImage && file.size > MAX_SOURCE_IMAGE_SIZE) {
+        fileError = "Image size should be less than 25MB"
+        continue
+      }
+
+      if (isVideo && file.size > MAX_VIDEO_SIZE) {
+        fileError = "Video size should be less than 50MB"
+        continue
+      }
+
+      let upload: Blob = file
+      let extension = file.name.split(".").pop() || ""
+      let blurhash: string | null = null
+
+      // Strip metadata, downscale and re-encode images; GIFs would lose their animation so they're kept as-is
+      if (isImage && file.type !== "image/gif") {
+        try {
+          const processed = await processImage(file)
+          upload = processed.blob
+          extension = getImageExtension(processed.blob)
+          blurhash = processed.blurhash
+        } catch (processError) {
+          console.error("Error processing image:", processError)
+          fileError = "Could not read one of the images"
+          continue
+        }
+      }
+
+      if (isImage && upload.size > MAX_IMAGE_SIZE) {
+        fileError = "Image size should be less than 5MB"
+        continue
+      }
+
+      const previewUrl = URL.createObjectURL(upload)
+
+      // Check video length
+      if (isVideo) {
+        try {
+          if ((await getVideoDuration(previewUrl)) > MAX_VIDEO_DURATION) {
+            fileError = `Videos should be shorter than ${MAX_VIDEO_DURATION} seconds`
+            URL.revokeObjectURL(previewUrl)
+            continue
+          }
+        } catch {
+          fileError = "Could not read one of the videos"
+          URL.revokeObjectURL(previewUrl)
+          continue
+        }
+      }
+
+      added.push({
+        id: uuidv4(),
+        file: upload,
+        extension,
+        previewUrl,
+        mediaType: isImage ? "image" : "video",
+        blurhash,
+        progress: 0,
+      })
     }
-    reader.readAsDataURL(file)
+
+    setAttachments((prev) => [...prev, ...added])
+    setError(fileError)
+    setIsProcessing(false)
   }
 
-  const removeImage = () => {
-    setImage(null)
-    setImagePreview(null)
-    if (fileInputRef.current) {
-      fileInputRef.current.value = ""
-    }
+  const removeAttachment = (id: string) => {
+    const attachment = attachments.find((a) => a.id === id)
+    if (attachment) URL.revokeObjectURL(attachment.previewUrl)
+
+    setAttachments((prev) => prev.filter((a) => a.id !== id))
+  }
+
+  const handleDrop = (targetIndex: number) => {
+    if (dragIndex === null || dragIndex === targetIndex) return
+
+    setAttachments((prev) => {
+      const reordered = [...prev]
+      const [moved] = reordered.splice(dragIndex, 1)
+      reordered.splice(targetIndex, 0, moved)
+      return reordered
+    })
+    setDragIndex(null)
+  }
+
+  const setAttachmentProgress = (id: string, progress: number) => {
+    setAttachments((prev) => prev.map((a) => (a.id === id ? { ...a, progress } : a)))
   }
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault()
 
     if (!user) return
-    if (!content.trim() && !image) {
-      setError("Please add some content or an image")
+    if (!content.trim() && attachments.length === 0) {
+      setError("Please add some content or an attachment")
       return
     }
 
     setIsSubmitting(true)
     setError(null)
 
+    const postContent = encodeMentions(content.trim(), mentions)
+
     try {
-      let imageUrl = null
+      let postId: string
 
-      // Upload image if exists
-      if (image) {
-        const fileExt = image.name.split(".").pop()
-        const fileName = `${uuidv4()}.${fileExt}`
-        const filePath = `${user.id}/${fileName}`
+      if (attachments.length > 0) {
+        // Upload all attachments, keeping the order chosen in the composer
+        const media = await Promise.all(
+          attachments.map(async (attachment) => {
+            const fileName = `${uuidv4()}.${attachment.extension}`
+            const filePath = `${user.id}/${fileName}`
 
-        const { error: uploadError } = await supabase.storage.from("post-images").upload(filePath, image)
+            await uploadWithProgress(POST_MEDIA_BUCKET, filePath, attachment.file, (progress) =>
+              setAttachmentProgress(attachment.id, progress),
+            )
 
-        if (uploadError) throw uploadError
+            return { url: filePath, media_type: attachment.mediaType, blurhash: attachment.blurhash }
+          }),
+        )
 
-        const { data } = supabase.storage.from("post-images").getPublicUrl(filePath)
+        // Create post with its media
+        const { data, error: postError } = await supabase.rpc("create_post_with_media", {
+          post_content: postContent,
+          media,
+        })
 
-        imageUrl = data.publicUrl
-      }
+        if (postError) throw postError
+        postId = data
+      } else {
+        // Create post
+        const { data, error: postError } = await supabase
+          .from("posts")
+          .insert({
+            user_id: user.id,
+            content: postContent,
+            image_url: null,
+          })
+          .select("id")
+          .single()
 
-      // Create post
-      const { error: postError } = await supabase.from("posts").insert({
-        user_id: user.id,
-        content: content.trim(),
-        image_url: imageUrl,
-      })
+        if (postError) throw postError
+        postId = data.id
+      }
 
-      if (postError) throw postError
+      await notifyMentions({ content: postContent, type: "mention", relatedId: postId, fromUserId: user.id })
 
       // Reset form
       setContent("")
-      setImage(null)
-      setImagePreview(null)
-      if (fileInputRef.current) {
-        fileInputRef.current.value = ""
-      }
+      setMentions([])
+      attachments.forEach((attachment) => URL.revokeObjectURL(attachment.previewUrl))
+      setAttachments([])
     } catch (error: any) {
       console.error("Error creating post:", error)
       setError(error.message || "Failed to create post")
+      setAttachments((prev) => prev.map((a) => ({ ...a, progress: 0 })))
     } finally {
       setIsSubmitting(false)
     }
@@ -112,9 +257,10 @@ export default function CreatePost() {
   return (
     <div className="bg-white dark:bg-gray-800 rounded-lg shadow-md p-4 mt-6 animate-fade-in">
       <form onSubmit={handleSubmit}>
-        <textarea
+        <MentionInput
           value={content}
-          onChange={(e) => setContent(e.target.value)}
+          onChange={setContent}
+          onMention={(mention) => setMentions((prev) => [...prev, mention])}
           placeholder="What's on your mind?"
           className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-md focus:outline-none focus:ring-2 focus:ring-primary dark:bg-gray-700 dark:text-white resize-none"
           rows={3}
@@ -122,22 +268,53 @@ export default function CreatePost() {
 
         {error && <div className="mt-2 text-red-500 text-sm">{error}</div>}
 
-        {imagePreview && (
-          <div className="mt-3 relative">
-            <Image
-              src={imagePreview || "/placeholder.svg"}
-              alt="Preview"
-              width={300}
-              height={200}
-              className="max-h-60 w-auto rounded-md object-contain"
-            />
-            <button
-              type="button"
-              onClick={removeImage}
-              className="absolute top-2 right-2 bg-gray-800/70 text-white p-1 rounded-full hover:bg-gray-900/70 transition-colors"
-            >
-              <X className="h-4 w-4" />
-            </button>
+        {attachments.length > 0 && (
+          <div className="mt-3 grid grid-cols-3 sm:grid-cols-4 gap-2">
+            {attachments.map((attachment, index) => (
+              <div
+                key={attachment.id}
+                draggable={!isSubmitting}
+                onDragStart={() => setDragIndex(index)}
+                onDragOver={(e) => e.preventDefault()}
+                onDrop={() => handleDrop(index)}
+                onDragEnd={() => setDragIndex(null)}
+                className={`relative aspect-square rounded-md overflow-hidden bg-black ${
+                  isSubmitting ? "" : "cursor-move"
+                } ${dragIndex === index ? "opacity-50" : ""}`}
+              >
+                {attachment.mediaType === "video" ? (
+                  <video src={attachment.previewUrl} muted className="w-full h-full object-cover" />
+                ) : (
+                  <Image
+                    src={attachment.previewUrl || "/placeholder.svg"}
+                    alt={`Attachment ${index + 1}`}
+                    fill
+                    className="object-cover"
+                  />
+                )}
+
+                {!isSubmitting && (
+                  <>
+                    <div className="absolute top-1 left-1 bg-gray-800/70 text-white p-1 rounded-full">
+                      <GripVertical className="h-3 w-3" />
+                    </div>
+                    <button
+                      type="button"
+                      onClick={() => removeAttachment(attachment.id)}
+                      className="absolute top-1 right-1 bg-gray-800/70 text-white p-1 rounded-full hover:bg-gray-900/70 transition-colors"
+                    >
+                      <X className="h-3 w-3" />
+                    </button>
+                  </>
+                )}
+
+                {isSubmitting && (
+                  <div className="absolute bottom-0 left-0 right-0 h-1.5 bg-gray-800/70">
+                    <div className="h-full bg-primary transition-all" style={{ width: `${attachment.progress}%` }} />
+                  </div>
+                )}
+              </div>
+            ))}
           </div>
         )}
 
@@ -146,17 +323,30 @@ export default function CreatePost() {
             <button
               type="button"
               onClick={() => fileInputRef.current?.click()}
-              className="flex items-center space-x-1 text-gray-600 dark:text-gray-300 hover:text-primary dark:hover:text-primary transition-colors"
+              disabled={isSubmitting || isProcessing || attachments.length >= MAX_ATTACHMENTS}
+              className="flex items-center space-x-1 text-gray-600 dark:text-gray-300 hover:text-primary dark:hover:text-primary transition-colors disabled:opacity-50"
             >
               <ImageIcon className="h-5 w-5" />
-              <span>Add Image</span>
+              <span>{isProcessing ? "Processing..." : "Add Media"}</span>
             </button>
-            <input type="file" ref={fileInputRef} onChange={handleImageChange} accept="image/*" className="hidden" />
+            <input
+              type="file"
+              ref={fileInputRef}
+              onChange={handleFilesChange}
+              accept="image/*,video/*"
+              multiple
+              className="hidden"
+            />
+            {attachments.length > 0 && (
+              <span className="text-xs text-gray-500 dark:text-gray-400">
+                {attachments.length}/{MAX_ATTACHMENTS}
+              </span>
+            )}
           </div>
 
           <button
             type="submit"
-            disabled={isSubmitting || (!content.trim() && !image)}
+            disabled={isSubmitting || isProcessing || (!content.trim() && attachments.length === 0)}
             className="px-4 py-2 bg-primary text-white rounded-md hover:bg-primary/90 focus:outline-none focus:ring-2 focus:ring-primary focus:ring-offset-2 transition-colors disabled:opacity-70"
           >
             {isSubmitting ? "Posting..." : "Post"}
@@ -166,4 +356,3 @@ export default function CreatePost() {
     </div>
   )
 }
-
@@ -0,0 +1,241 @@
+"use client"
+
+import type React from "react"
+
+import { useState, useEffect, useRef } from "react"
+import Image from "next/image"
+import { ImageIcon, X } from "lucide-react"
+import { v4 as uuidv4 } from "uuid"
+import { supabase } from "@/lib/supabase"
+import { getStoragePath } from "@/lib/upload"
+import { getImageExtension, processImage } from "@/lib/image-processing"
+import { PROFILE_LIMITS, profileDetailsSchema, type ProfileDetailsInput } from "@/lib/profiles"
+
+type EditProfileDialogProps = {
+  profile: {
+    id: string
+    display_name: string | null
+    bio: string | null
+    website: string | null
+    location: string | null
+    banner_url: string | null
+  }
+  onClose: () => void
+  onSaved: () => void
+}
+
+type FieldErrors = Partial<Record<keyof ProfileDetailsInput, string>>
+
+const MAX_BANNER_SOURCE_SIZE = 20 * 1024 * 1024
+
+const inputClassName =
+  "w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-md focus:outline-none focus:ring-2 focus:ring-primary dark:bg-gray-700 dark:text-white"
+
+export default function EditProfileDialog({ profile, onClose, onSaved }: EditProfileDialogProps) {
+  const [values, setValues] = useState<ProfileDetailsInput>({
+    display_name: profile.display_name || "",
+    bio: profile.bio || "",
+    website: profile.website || "",
+    location: profile.location || "",
+  })
+  const [fieldErrors, setFieldErrors] = useState<FieldErrors>({})
+  const [banner, setBanner] = useState<{ blob: Blob; previewUrl: string } | null>(null)
+  const [isSaving, setIsSaving] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const bannerInputRef = useRef<HTMLInputElement>(null)
+
+  // Release the banner preview when it's replaced or the dialog closes
+  useEffect(() => {
+    return () => {
+      if (banner) URL.revokeObjectURL(banner.previewUrl)
+    }
+  }, [banner])
+
+  const setField = (field: keyof ProfileDetailsInput, value: string) => {
+    setValues((prev) => ({ ...prev, [field]: value }))
+    setFieldErrors((prev) => ({ ...prev, [field]: undefined }))
+  }
+
+  const handleBannerChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0]
+    if (bannerInputRef.current) {
+      bannerInputRef.current.value = ""
+    }
+    if (!file) return
+
+    if (!file.type.startsWith("image/")) {
+      setError("Only image files are allowed")
+      return
+    }
+
+    if (file.size > MAX_BANNER_SOURCE_SIZE) {
+      setError("Image size should be less than 20MB")
+      return
+    }
+
+    try {
+      const processed = await processImage(file, 1500, 1500)
+      setBanner({ blob: processed.blob, previewUrl: URL.createObjectURL(processed.blob) })
+      setError(null)
+    } catch (processError) {
+      console.error("Error processing banner:", processError)
+      setError("Could not read this image")
+    }
+  }
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+
+    const result = profileDetailsSchema.safeParse(values)
+
+    if (!result.success) {
+      const errors: FieldErrors = {}
+      for (const issue of result.error.issues) {
+        const field = issue.path[0] as keyof ProfileDetailsInput
+        errors[field] ??= issue.message
+      }
+      setFieldErrors(errors)
+      return
+    }
+
+    setIsSaving(true)
+    setError(null)
+
+    try {
+      let bannerUrl = profile.banner_url
+
+      if (banner) {
+        const filePath = `${profile.id}/${uuidv4()}.${getImageExtension(banner.blob)}`
+
+        const { error: uploadError } = await supabase.storage
+          .from("banners")
+          .upload(filePath, banner.blob, { contentType: banner.blob.type })
+
+        if (uploadError) throw uploadError
+
+        bannerUrl = supabase.storage.from("banners").getPublicUrl(filePath).data.publicUrl
+      }
+
+      const { error: updateError } = await supabase
+        .from("profiles")
+        .update({ ...result.data, banner_url: bannerUrl })
+        .eq("id", profile.id)
+
+      if (updateError) throw updateError
+
+      // Clean up the banner that was replaced
+      const oldBannerPath = banner && profile.banner_url && getStoragePath(profile.banner_url, "banners")
+      if (oldBannerPath) {
+        await supabase.storage.from("banners").remove([oldBannerPath])
+      }
+
+      onSaved()
+    } catch (error: any) {
+      console.error("Error updating profile:", error)
+      setError(error.message || "Failed to update profile")
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  const bannerPreview = banner?.previewUrl || profile.banner_url
+
+  const renderField = (
+    field: keyof ProfileDetailsInput,
+    label: string,
+    maxLength: number,
+    props: { placeholder?: string; multiline?: boolean } = {},
+  ) => (
+    <div>
+      <div className="flex justify-between mb-1">
+        <label htmlFor={field} className="block text-sm font-medium text-gray-700 dark:text-gray-300">
+          {label}
+        </label>
+        <span className="text-xs text-gray-500 dark:text-gray-400">
+          {values[field].length}/{maxLength}
+        </span>
+      </div>
+      {props.multiline ? (
+        <textarea
+          id={field}
+          value={values[field]}
+          onChange={(e) => setField(field, e.target.value)}
+          placeholder={props.placeholder}
+          className={`${inputClassName} resize-none`}
+          rows={3}
+        />
+      ) : (
+        <input
+          id={field}
+          type="text"
+          value={values[field]}
+          onChange={(e) => setField(field, e.target.value)}
+          placeholder={props.placeholder}
+          className={inputClassName}
+        />
+      )}
+      {fieldErrors[field] && <p className="mt-1 text-sm text-red-500">{fieldErrors[field]}</p>}
+    </div>
+  )
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 z-50 flex justify-center items-center p-4">
+      <div className="bg-white dark:bg-gray-800 rounded-lg shadow-xl w-full max-w-lg max-h-[90vh] overflow-hidden animate-fade-in">
+        <div className="p-4 border-b border-gray-200 dark:border-gray-700 flex justify-between items-center">
+          <h2 className="text-xl font-semibold">Edit Profile</h2>
+          <button
+            onClick={onClose}
+            disabled={isSaving}
+            className="p-2 rounded-full hover:bg-gray-100 dark:hover:bg-gray-700 transition-colors"
+          >
+            <X className="h-5 w-5" />
+          </button>
+        </div>
+
+        <form onSubmit={handleSubmit} className="overflow-y-auto max-h-[calc(90vh-80px)]">
+          <div className="p-4 space-y-4">
+            {/* Banner */}
+            <button
+              type="button"
+              onClick={() => bannerInputRef.current?.click()}
+              disabled={isSaving}
+              className="relative w-full h-32 rounded-md overflow-hidden bg-gradient-to-r from-primary/30 to-primary/10 group"
+            >
+              {bannerPreview && <Image src={bannerPreview} alt="Banner" fill className="object-cover" />}
+              <span className="absolute inset-0 flex items-center justify-center bg-black/30 text-white opacity-0 group-hover:opacity-100 transition-opacity">
+                <ImageIcon className="h-5 w-5 mr-2" />
+                Change banner
+              </span>
+            </button>
+            <input type="file" ref={bannerInputRef} onChange={handleBannerChange} accept="image/*" className="hidden" />
+
+            {renderField("display_name", "Display name", PROFILE_LIMITS.displayName)}
+            {renderField("bio", "Bio", PROFILE_LIMITS.bio, { multiline: true })}
+            {renderField("website", "Website", PROFILE_LIMITS.website, { placeholder: "example.com" })}
+            {renderField("location", "Location", PROFILE_LIMITS.location)}
+
+            {error && <div className="text-red-500 text-sm">{error}</div>}
+          </div>
+
+          <div className="p-4 border-t border-gray-200 dark:border-gray-700 flex justify-end space-x-2">
+            <button
+              type="button"
+              onClick={onClose}
+              disabled={isSaving}
+              className="px-4 py-2 text-gray-700 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-700 rounded-md transition-colors"
+            >
+              Cancel
+            </button>
+            <button
+              type="submit"
+              disabled={isSaving}
+              className="px-4 py-2 bg-primary text-white rounded-md hover:bg-primary/90 transition-colors disabled:opacity-70"
+            >
+              {isSaving ? "Saving..." : "Save"}
+            </button>
+          </div>
+        </form>
+      </div>
+    </div>
+  )
+}
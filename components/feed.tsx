@@ -1,71 +1,105 @@
 "use client"
 
-import { useEffect, useState } from "react"
+import { useEffect, useRef, useState } from "react"
 import { supabase } from "@/lib/supabase"
+import { fetchPost, togglePostLike, type Post, type PostsQuery } from "@/lib/posts"
+import { usePaginatedPosts } from "@/hooks/use-paginated-posts"
+import { useMutedUsers } from "@/hooks/use-muted-users"
+import { toInFilter } from "@/lib/blocks"
+import { applyReactionChange, hasReaction, removeReaction, type Reaction } from "@/lib/reactions"
 import PostCard from "./post-card"
 import { useAuth } from "@/contexts/auth-context"
 
-type Post = {
-  id: string
-  content: string
-  image_url: string | null
-  created_at: string
-  user_id: string
-  profiles: {
-    username: string
-    avatar_url: string | null
-  }
-  likes_count: number
-  comments_count: number
-  user_has_liked: boolean
-}
+type FeedMode = "everyone" | "following"
+
+const feedModes: { value: FeedMode; label: string }[] = [
+  { value: "everyone", label: "For everyone" },
+  { value: "following", label: "Following" },
+]
 
 export default function Feed() {
-  const [posts, setPosts] = useState<Post[]>([])
-  const [loading, setLoading] = useState(true)
-  const [error, setError] = useState<string | null>(null)
+  const [mode, setMode] = useState<FeedMode>("everyone")
+  // Authors shown in the Following tab; null until they have been loaded
+  const [followingIds, setFollowingIds] = useState<string[] | null>(null)
+  const [followingError, setFollowingError] = useState<string | null>(null)
+  const followingIdsRef = useRef<Set<string> | null>(null)
+  const mutedIds = useMutedUsers()
+  const mutedIdsRef = useRef(mutedIds)
+  mutedIdsRef.current = mutedIds
   const { user } = useAuth()
 
+  const {
+    posts,
+    setPosts,
+    loading,
+    loadingMore,
+    hasMore,
+    error: postsError,
+    addPost,
+    loaderRef,
+  } = usePaginatedPosts({
+    key: mode,
+    enabled: mutedIds !== null && (mode === "everyone" || followingIds !== null),
+    filter: (query: PostsQuery) => {
+      if (mode === "following") {
+        if (!user || !followingIds) return null
+        // The viewer's own posts show up alongside the people they follow
+        query = query.in("user_id", [user.id, ...followingIds])
+      }
+
+      return mutedIds && mutedIds.size > 0 ? query.not("user_id", "in", toInFilter([...mutedIds])) : query
+    },
+  })
+  const error = postsError || followingError
+
   useEffect(() => {
-    if (!user) return
+    setFollowingIds(null)
+    setFollowingError(null)
+    followingIdsRef.current = null
+
+    if (!user || mode !== "following") return
 
-    const fetchPosts = async () => {
+    const fetchFollowing = async () => {
       try {
-        const { data, error } = await supabase
-          .from("posts")
-          .select(`
-            *,
-            profiles:user_id(username, avatar_url),
-            likes_count:likes(count),
-            comments_count:comments(count),
-            user_has_liked:likes!inner(user_id)
-          `)
-          .order("created_at", { ascending: false })
-          .limit(20)
+        const { data, error } = await supabase.from("follows").select("following_id").eq("follower_id", user.id)
 
         if (error) throw error
 
-        // Transform the data to match our Post type
-        const transformedPosts = data.map((post) => ({
-          ...post,
-          profiles: post.profiles as any,
-          likes_count: post.likes_count[0]?.count || 0,
-          comments_count: post.comments_count[0]?.count || 0,
-          user_has_liked: post.user_has_liked.some((like: any) => like.user_id === user.id),
-        }))
-
-        setPosts(transformedPosts)
+        const ids = (data || []).map((follow) => follow.following_id)
+        followingIdsRef.current = new Set(ids)
+        setFollowingIds(ids)
       } catch (error: any) {
-        console.error("Error fetching posts:", error)
-        setError(error.message || "Failed to load posts")
-      } finally {
-        setLoading(false)
+        console.error("Error fetching followed users:", error)
+        setFollowingError(error.message || "Failed to load posts")
       }
     }
 
-    fetchPosts()
+    fetchFollowing()
+  }, [user, mode])
 
-    // Subscribe to new posts
+  const applyPostReaction = (postId: string, reaction: Reaction, added: boolean) => {
+    setPosts((prevPosts) =>
+      prevPosts.map((p) =>
+        p.id === postId ? { ...p, reactions: applyReactionChange(p.reactions, reaction, added) } : p,
+      ),
+    )
+  }
+
+  // Realtime deletes only carry the reaction's id, so drop it from whichever loaded post has it, if any
+  const removePostReaction = (reactionId: string) => {
+    setPosts((prevPosts) =>
+      prevPosts.some((p) => hasReaction(p.reactions, reactionId))
+        ? prevPosts.map((p) =>
+            hasReaction(p.reactions, reactionId) ? { ...p, reactions: removeReaction(p.reactions, reactionId) } : p,
+          )
+        : prevPosts,
+    )
+  }
+
+  useEffect(() => {
+    if (!user) return
+
+    // Subscribe to new posts and reactions on them
     const postsSubscription = supabase
       .channel("public:posts")
       .on(
@@ -75,154 +109,169 @@ export default function Feed() {
           schema: "public",
           table: "posts",
         },
-        (payload) => {
+        async (payload) => {
+          // Keep posts from authors the viewer doesn't follow out of the Following tab, except their own
+          const following = followingIdsRef.current
+          const isFollowed = payload.new.user_id === user.id || !!following?.has(payload.new.user_id)
+          if (mode === "following" && !isFollowed) return
+          if (mutedIdsRef.current?.has(payload.new.user_id)) return
+
           // Fetch the new post with all the related data
-          const fetchNewPost = async () => {
-            const { data, error } = await supabase
-              .from("posts")
-              .select(`
-              *,
-              profiles:user_id(username, avatar_url),
-              likes_count:likes(count),
-              comments_count:comments(count),
-              user_has_liked:likes!inner(user_id)
-            `)
-              .eq("id", payload.new.id)
-              .single()
-
-            if (error) return
-
-            const newPost = {
-              ...data,
-              profiles: data.profiles as any,
-              likes_count: data.likes_count[0]?.count || 0,
-              comments_count: data.comments_count[0]?.count || 0,
-              user_has_liked: data.user_has_liked.some((like: any) => like.user_id === user.id),
-            }
-
-            setPosts((prevPosts) => [newPost, ...prevPosts])
-          }
+          const newPost = await fetchPost(payload.new.id, user.id)
 
-          fetchNewPost()
+          if (newPost) {
+            addPost(newPost)
+          }
+        },
+      )
+      .on(
+        "postgres_changes",
+        {
+          event: "INSERT",
+          schema: "public",
+          table: "reactions",
+          filter: "target_type=eq.post",
         },
+        (payload) => applyPostReaction(payload.new.target_id, payload.new as Reaction, true),
+      )
+      .on(
+        "postgres_changes",
+        {
+          event: "DELETE",
+          schema: "public",
+          table: "reactions",
+        },
+        (payload) => removePostReaction(payload.old.id),
       )
       .subscribe()
 
     return () => {
       postsSubscription.unsubscribe()
     }
-  }, [user])
+  }, [user, mode, addPost])
 
   const handlePostLike = async (postId: string) => {
     if (!user) return
 
-    const postIndex = posts.findIndex((post) => post.id === postId)
-    if (postIndex === -1) return
-
-    const post = posts[postIndex]
-    const newPosts = [...posts]
+    const post = posts.find((post) => post.id === postId)
+    if (!post) return
 
-    if (post.user_has_liked) {
-      // Unlike the post
-      const { error } = await supabase.from("likes").delete().eq("post_id", postId).eq("user_id", user.id)
+    const updatedPost = await togglePostLike(post, user.id)
+    if (!updatedPost) return
 
-      if (error) {
-        console.error("Error unliking post:", error)
-        return
-      }
+    setPosts((prevPosts) => prevPosts.map((p) => (p.id === postId ? updatedPost : p)))
+  }
 
-      newPosts[postIndex] = {
-        ...post,
-        likes_count: post.likes_count - 1,
-        user_has_liked: false,
-      }
-    } else {
-      // Like the post
-      const { error } = await supabase.from("likes").insert({
-        post_id: postId,
-        user_id: user.id,
-      })
-
-      if (error) {
-        console.error("Error liking post:", error)
-        return
-      }
+  const handlePostUpdate = (updatedPost: Post) => {
+    setPosts((prevPosts) => prevPosts.map((p) => (p.id === updatedPost.id ? updatedPost : p)))
+  }
 
-      newPosts[postIndex] = {
-        ...post,
-        likes_count: post.likes_count + 1,
-        user_has_liked: true,
-      }
+  const handlePostDelete = (postId: string) => {
+    setPosts((prevPosts) => prevPosts.filter((p) => p.id !== postId))
+  }
 
-      // Create notification if the post is not by the current user
-      if (post.user_id !== user.id) {
-        await supabase.from("notifications").insert({
-          user_id: post.user_id,
-          type: "like",
-          related_id: postId,
-          from_user_id: user.id,
-          is_read: false,
-        })
-      }
-    }
+  const modeTabs = (
+    <div className="flex bg-white dark:bg-gray-800 rounded-lg shadow-md p-1 mt-6">
+      {feedModes.map((feedMode) => (
+        <button
+          key={feedMode.value}
+          onClick={() => setMode(feedMode.value)}
+          className={`flex-1 px-4 py-2 rounded-md text-sm font-medium transition-colors ${
+            mode === feedMode.value
+              ? "bg-primary text-white"
+              : "text-gray-600 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-700"
+          }`}
+        >
+          {feedMode.label}
+        </button>
+      ))}
+    </div>
+  )
 
-    setPosts(newPosts)
+  // Checked before loading, which never finishes for the Following tab if its follows failed to load
+  if (error) {
+    return (
+      <>
+        {modeTabs}
+        <div className="bg-red-100 dark:bg-red-900/30 text-red-700 dark:text-red-400 p-4 rounded-md mt-6">
+          <p>{error}</p>
+          <button onClick={() => window.location.reload()} className="mt-2 text-sm font-medium underline">
+            Try again
+          </button>
+        </div>
+      </>
+    )
   }
 
   if (loading) {
     return (
-      <div className="space-y-4 mt-6">
-        {[...Array(3)].map((_, i) => (
-          <div key={i} className="bg-white dark:bg-gray-800 rounded-lg shadow-md p-4 animate-pulse-slow">
-            <div className="flex items-center space-x-4 mb-4">
-              <div className="w-12 h-12 bg-gray-300 dark:bg-gray-600 rounded-full"></div>
-              <div className="flex-1">
-                <div className="h-4 bg-gray-300 dark:bg-gray-600 rounded w-1/4 mb-2"></div>
-                <div className="h-3 bg-gray-200 dark:bg-gray-700 rounded w-1/6"></div>
+      <>
+        {modeTabs}
+        <div className="space-y-4 mt-6">
+          {[...Array(3)].map((_, i) => (
+            <div key={i} className="bg-white dark:bg-gray-800 rounded-lg shadow-md p-4 animate-pulse-slow">
+              <div className="flex items-center space-x-4 mb-4">
+                <div className="w-12 h-12 bg-gray-300 dark:bg-gray-600 rounded-full"></div>
+                <div className="flex-1">
+                  <div className="h-4 bg-gray-300 dark:bg-gray-600 rounded w-1/4 mb-2"></div>
+                  <div className="h-3 bg-gray-200 dark:bg-gray-700 rounded w-1/6"></div>
+                </div>
+              </div>
+              <div className="mb-4">
+                <div className="h-4 bg-gray-300 dark:bg-gray-600 rounded w-full mb-2"></div>
+                <div className="h-4 bg-gray-300 dark:bg-gray-600 rounded w-5/6 mb-2"></div>
+                <div className="h-4 bg-gray-300 dark:bg-gray-600 rounded w-3/4"></div>
+              </div>
+              <div className="h-40 bg-gray-200 dark:bg-gray-700 rounded-md mb-4"></div>
+              <div className="flex justify-between">
+                <div className="h-8 bg-gray-300 dark:bg-gray-600 rounded w-1/4"></div>
+                <div className="h-8 bg-gray-300 dark:bg-gray-600 rounded w-1/4"></div>
               </div>
             </div>
-            <div className="mb-4">
-              <div className="h-4 bg-gray-300 dark:bg-gray-600 rounded w-full mb-2"></div>
-              <div className="h-4 bg-gray-300 dark:bg-gray-600 rounded w-5/6 mb-2"></div>
-              <div className="h-4 bg-gray-300 dark:bg-gray-600 rounded w-3/4"></div>
-            </div>
-            <div className="h-40 bg-gray-200 dark:bg-gray-700 rounded-md mb-4"></div>
-            <div className="flex justify-between">
-              <div className="h-8 bg-gray-300 dark:bg-gray-600 rounded w-1/4"></div>
-              <div className="h-8 bg-gray-300 dark:bg-gray-600 rounded w-1/4"></div>
-            </div>
-          </div>
-        ))}
-      </div>
-    )
-  }
-
-  if (error) {
-    return (
-      <div className="bg-red-100 dark:bg-red-900/30 text-red-700 dark:text-red-400 p-4 rounded-md mt-6">
-        <p>{error}</p>
-        <button onClick={() => window.location.reload()} className="mt-2 text-sm font-medium underline">
-          Try again
-        </button>
-      </div>
+          ))}
+        </div>
+      </>
     )
   }
 
   if (posts.length === 0) {
     return (
-      <div className="bg-white dark:bg-gray-800 rounded-lg shadow-md p-8 text-center mt-6">
-        <h3 className="text-xl font-semibold mb-2">No posts yet</h3>
-        <p className="text-gray-600 dark:text-gray-400 mb-4">Be the first to share something with the community!</p>
-      </div>
+      <>
+        {modeTabs}
+        <div className="bg-white dark:bg-gray-800 rounded-lg shadow-md p-8 text-center mt-6">
+          <h3 className="text-xl font-semibold mb-2">No posts yet</h3>
+          <p className="text-gray-600 dark:text-gray-400 mb-4">
+            {mode === "following"
+              ? "Follow people to see their posts here."
+              : "Be the first to share something with the community!"}
+          </p>
+        </div>
+      </>
     )
   }
 
   return (
-    <div className="space-y-6 mt-6 pb-6">
-      {posts.map((post) => (
-        <PostCard key={post.id} post={post} onLike={handlePostLike} />
-      ))}
-    </div>
+    <>
+      {modeTabs}
+      <div className="space-y-6 mt-6 pb-6">
+        {posts.map((post) => (
+          <PostCard
+            key={post.id}
+            post={post}
+            onLike={handlePostLike}
+            onUpdate={handlePostUpdate}
+            onDelete={handlePostDelete}
+          />
+        ))}
+
+        {hasMore && (
+          <div ref={loaderRef} className="flex justify-center py-4">
+            {loadingMore && (
+              <div className="w-8 h-8 border-4 border-primary border-t-transparent rounded-full animate-spin"></div>
+            )}
+          </div>
+        )}
+      </div>
+    </>
   )
 }
-
@@ -0,0 +1,141 @@
+"use client"
+
+import { useState, useEffect } from "react"
+import { supabase } from "@/lib/supabase"
+import { useAuth } from "@/contexts/auth-context"
+import Link from "next/link"
+import Image from "next/image"
+import { formatDistanceToNow } from "date-fns"
+
+type FollowRequest = {
+  id: string
+  created_at: string
+  requester: {
+    id: string
+    username: string
+    avatar_url: string | null
+  }
+}
+
+// Pending requests to follow the current user's private account
+export default function FollowRequests() {
+  const [requests, setRequests] = useState<FollowRequest[]>([])
+  const [respondingId, setRespondingId] = useState<string | null>(null)
+  const { user } = useAuth()
+
+  useEffect(() => {
+    if (!user) return
+
+    const fetchRequests = async () => {
+      const { data, error } = await supabase
+        .from("follow_requests")
+        .select(`
+          id,
+          created_at,
+          requester:requester_id(id, username, avatar_url)
+        `)
+        .eq("target_id", user.id)
+        .order("created_at", { ascending: false })
+
+      if (error) {
+        console.error("Error fetching follow requests:", error)
+        return
+      }
+
+      setRequests(data as FollowRequest[])
+    }
+
+    fetchRequests()
+
+    // Pick up new requests while the page is open
+    const requestsSubscription = supabase
+      .channel("follow_requests")
+      .on(
+        "postgres_changes",
+        {
+          event: "INSERT",
+          schema: "public",
+          table: "follow_requests",
+          filter: `target_id=eq.${user.id}`,
+        },
+        () => {
+          fetchRequests()
+        },
+      )
+      .subscribe()
+
+    return () => {
+      requestsSubscription.unsubscribe()
+    }
+  }, [user])
+
+  const handleRespond = async (requestId: string, approve: boolean) => {
+    setRespondingId(requestId)
+
+    try {
+      const { error } = await supabase.rpc("respond_to_follow_request", { request_id: requestId, approve })
+
+      if (error) throw error
+
+      setRequests((prev) => prev.filter((request) => request.id !== requestId))
+    } catch (error) {
+      console.error("Error responding to follow request:", error)
+      alert("Failed to respond to follow request")
+    } finally {
+      setRespondingId(null)
+    }
+  }
+
+  if (requests.length === 0) return null
+
+  return (
+    <div className="bg-white dark:bg-gray-800 rounded-lg shadow-md p-6 mt-6 animate-fade-in">
+      <h2 className="text-lg font-semibold mb-4">Follow Requests</h2>
+
+      <div className="divide-y divide-gray-200 dark:divide-gray-700">
+        {requests.map((request) => (
+          <div key={request.id} className="flex items-center py-3">
+            <Link href={`/profile/${request.requester.id}`} className="flex items-center flex-1 min-w-0">
+              {request.requester.avatar_url ? (
+                <Image
+                  src={request.requester.avatar_url || "/placeholder.svg"}
+                  alt={request.requester.username}
+                  width={40}
+                  height={40}
+                  className="rounded-full object-cover mr-3"
+                />
+              ) : (
+                <div className="w-10 h-10 bg-primary/20 rounded-full flex items-center justify-center text-primary font-semibold text-lg mr-3">
+                  {request.requester.username.charAt(0).toUpperCase()}
+                </div>
+              )}
+              <div className="min-w-0">
+                <p className="font-semibold text-gray-900 dark:text-white truncate">{request.requester.username}</p>
+                <p className="text-sm text-gray-500 dark:text-gray-400">
+                  {formatDistanceToNow(new Date(request.created_at), { addSuffix: true })}
+                </p>
+              </div>
+            </Link>
+
+            <div className="flex space-x-2 ml-3">
+              <button
+                onClick={() => handleRespond(request.id, true)}
+                disabled={respondingId === request.id}
+                className="px-3 py-1.5 bg-primary text-white text-sm rounded-md hover:bg-primary/90 transition-colors disabled:opacity-70"
+              >
+                Approve
+              </button>
+              <button
+                onClick={() => handleRespond(request.id, false)}
+                disabled={respondingId === request.id}
+                className="px-3 py-1.5 bg-gray-200 dark:bg-gray-700 text-gray-800 dark:text-gray-200 text-sm rounded-md hover:bg-gray-300 dark:hover:bg-gray-600 transition-colors disabled:opacity-70"
+              >
+                Deny
+              </button>
+            </div>
+          </div>
+        ))}
+      </div>
+    </div>
+  )
+}
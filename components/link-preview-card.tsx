@@ -0,0 +1,68 @@
+"use client"
+
+import { useState, useEffect } from "react"
+import Image from "next/image"
+import type { LinkPreview } from "@/lib/link-preview"
+
+type LinkPreviewCardProps = {
+  url: string
+}
+
+// Shared between cards so a link posted several times is only looked up once per page load
+const previewRequests = new Map<string, Promise<LinkPreview | null>>()
+
+function loadPreview(url: string) {
+  let request = previewRequests.get(url)
+
+  if (!request) {
+    request = fetch(`/api/link-preview?url=${encodeURIComponent(url)}`)
+      .then((response) => (response.ok ? response.json() : null))
+      .catch(() => null)
+    previewRequests.set(url, request)
+  }
+
+  return request
+}
+
+export default function LinkPreviewCard({ url }: LinkPreviewCardProps) {
+  const [preview, setPreview] = useState<LinkPreview | null>(null)
+
+  useEffect(() => {
+    let cancelled = false
+
+    setPreview(null)
+    loadPreview(url).then((result) => {
+      if (!cancelled) setPreview(result)
+    })
+
+    return () => {
+      cancelled = true
+    }
+  }, [url])
+
+  if (!preview) return null
+
+  return (
+    <a
+      href={url}
+      target="_blank"
+      rel="noopener noreferrer nofollow"
+      className="block mx-4 mb-3 border border-gray-200 dark:border-gray-700 rounded-lg overflow-hidden hover:bg-gray-50 dark:hover:bg-gray-700/50 transition-colors"
+    >
+      {preview.image && (
+        <div className="relative w-full aspect-[1.91/1] bg-gray-100 dark:bg-gray-700">
+          <Image src={preview.image} alt={preview.title} fill className="object-cover" />
+        </div>
+      )}
+      <div className="p-3">
+        <p className="text-xs text-gray-500 dark:text-gray-400 uppercase truncate">
+          {preview.site_name || new URL(preview.url).hostname}
+        </p>
+        <p className="font-medium text-gray-900 dark:text-white line-clamp-2">{preview.title}</p>
+        {preview.description && (
+          <p className="text-sm text-gray-600 dark:text-gray-400 line-clamp-2 mt-1">{preview.description}</p>
+        )}
+      </div>
+    </a>
+  )
+}
@@ -0,0 +1,186 @@
+"use client"
+
+import type React from "react"
+
+import { useState, useEffect, useRef } from "react"
+import Image from "next/image"
+import { searchProfiles, type ProfileSummary } from "@/lib/profiles"
+import type { MentionedUser } from "@/lib/rich-text"
+
+type MentionInputProps = {
+  value: string
+  onChange: (value: string) => void
+  // Called with each user picked from the suggestions so the caller can encode the mention on submit
+  onMention: (user: MentionedUser) => void
+  multiline?: boolean
+  // Limits suggestions to these users, e.g. the members of a chat
+  userIds?: string[]
+  // Open the suggestions upwards, for inputs pinned to the bottom of the screen
+  suggestionsAbove?: boolean
+  placeholder?: string
+  className?: string
+  rows?: number
+  autoFocus?: boolean
+  required?: boolean
+  disabled?: boolean
+}
+
+// The "@query" being typed right before the caret
+const MENTION_QUERY_PATTERN = /(^|\s)@([^\s@]{0,30})$/
+
+const MAX_SUGGESTIONS = 5
+
+export default function MentionInput({
+  value,
+  onChange,
+  onMention,
+  multiline = true,
+  userIds,
+  suggestionsAbove = false,
+  placeholder,
+  className,
+  rows,
+  autoFocus,
+  required,
+  disabled,
+}: MentionInputProps) {
+  const [query, setQuery] = useState<string | null>(null)
+  const [suggestions, setSuggestions] = useState<ProfileSummary[]>([])
+  const [activeIndex, setActiveIndex] = useState(0)
+  const inputRef = useRef<HTMLInputElement & HTMLTextAreaElement>(null)
+
+  const updateQuery = (text: string, caret: number | null) => {
+    const match = text.slice(0, caret ?? text.length).match(MENTION_QUERY_PATTERN)
+    setQuery(match ? match[2] : null)
+  }
+
+  // Look up matching profiles while an @mention is being typed
+  useEffect(() => {
+    if (query === null) {
+      setSuggestions([])
+      return
+    }
+
+    let cancelled = false
+
+    const timer = setTimeout(async () => {
+      try {
+        const profiles = await searchProfiles(query, { limit: MAX_SUGGESTIONS, userIds })
+        if (!cancelled) {
+          setSuggestions(profiles)
+          setActiveIndex(0)
+        }
+      } catch (error) {
+        console.error("Error searching users:", error)
+      }
+    }, 150)
+
+    return () => {
+      cancelled = true
+      clearTimeout(timer)
+    }
+  }, [query, userIds])
+
+  const handleChange = (e: React.ChangeEvent<HTMLInputElement | HTMLTextAreaElement>) => {
+    onChange(e.target.value)
+    updateQuery(e.target.value, e.target.selectionStart)
+  }
+
+  const selectSuggestion = (profile: ProfileSummary) => {
+    const caret = inputRef.current?.selectionStart ?? value.length
+    const before = value.slice(0, caret).replace(MENTION_QUERY_PATTERN, (_, prefix) => `${prefix}@${profile.username} `)
+    const nextValue = before + value.slice(caret)
+
+    onChange(nextValue)
+    onMention({ id: profile.id, username: profile.username })
+    setQuery(null)
+
+    // Put the caret right after the inserted mention
+    requestAnimationFrame(() => {
+      inputRef.current?.focus()
+      inputRef.current?.setSelectionRange(before.length, before.length)
+    })
+  }
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement | HTMLTextAreaElement>) => {
+    if (suggestions.length === 0) return
+
+    switch (e.key) {
+      case "ArrowDown":
+        e.preventDefault()
+        setActiveIndex((index) => (index + 1) % suggestions.length)
+        break
+      case "ArrowUp":
+        e.preventDefault()
+        setActiveIndex((index) => (index - 1 + suggestions.length) % suggestions.length)
+        break
+      case "Enter":
+      case "Tab":
+        e.preventDefault()
+        selectSuggestion(suggestions[activeIndex])
+        break
+      case "Escape":
+        e.preventDefault()
+        setQuery(null)
+        break
+    }
+  }
+
+  const inputProps = {
+    value,
+    onChange: handleChange,
+    onKeyDown: handleKeyDown,
+    onClick: (e: React.MouseEvent<HTMLInputElement | HTMLTextAreaElement>) =>
+      updateQuery(e.currentTarget.value, e.currentTarget.selectionStart),
+    onBlur: () => setQuery(null),
+    placeholder,
+    className,
+    autoFocus,
+    required,
+    disabled,
+  }
+
+  return (
+    <div className="relative w-full">
+      {multiline ? (
+        <textarea ref={inputRef} rows={rows} {...inputProps} />
+      ) : (
+        <input ref={inputRef} type="text" {...inputProps} />
+      )}
+
+      {query !== null && suggestions.length > 0 && (
+        <ul
+          className={`absolute left-0 right-0 z-20 ${suggestionsAbove ? "bottom-full mb-1" : "top-full mt-1"} bg-white dark:bg-gray-800 border border-gray-200 dark:border-gray-700 rounded-md shadow-lg overflow-hidden`}
+        >
+          {suggestions.map((profile, index) => (
+            <li key={profile.id}>
+              <button
+                type="button"
+                onMouseDown={(e) => e.preventDefault()}
+                onClick={() => selectSuggestion(profile)}
+                className={`w-full flex items-center px-3 py-2 text-left transition-colors ${
+                  index === activeIndex ? "bg-gray-100 dark:bg-gray-700" : "hover:bg-gray-50 dark:hover:bg-gray-700/50"
+                }`}
+              >
+                {profile.avatar_url ? (
+                  <Image
+                    src={profile.avatar_url || "/placeholder.svg"}
+                    alt={profile.username}
+                    width={28}
+                    height={28}
+                    className="rounded-full object-cover"
+                  />
+                ) : (
+                  <div className="w-7 h-7 bg-primary/20 rounded-full flex items-center justify-center text-primary font-semibold text-sm">
+                    {profile.username.charAt(0).toUpperCase()}
+                  </div>
+                )}
+                <span className="ml-2 text-sm font-medium text-gray-900 dark:text-white">{profile.username}</span>
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  )
+}
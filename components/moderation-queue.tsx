@@ -0,0 +1,349 @@
+"use client"
+
+import { useState, useEffect } from "react"
+import Link from "next/link"
+import { formatDistanceToNow } from "date-fns"
+import { supabase } from "@/lib/supabase"
+import type { Database } from "@/lib/database.types"
+import {
+  SUSPENSION_DAYS_OPTIONS,
+  moderateReport,
+  reportReasonLabel,
+  type ModerationAction,
+  type Report,
+} from "@/lib/moderation"
+
+type QueueTab = "open" | "resolved" | "log"
+
+const queueTabs: { value: QueueTab; label: string }[] = [
+  { value: "open", label: "Open" },
+  { value: "resolved", label: "Resolved" },
+  { value: "log", label: "Audit log" },
+]
+
+type ReportWithProfiles = Report & {
+  reporter: { username: string } | null
+  target_user: { username: string; suspended_until: string | null } | null
+}
+
+type LoggedAction = {
+  id: string
+  action: Database["public"]["Tables"]["moderation_actions"]["Row"]["action"]
+  target_type: Report["target_type"]
+  target_id: string
+  note: string | null
+  created_at: string
+  moderator: { username: string } | null
+}
+
+const REPORTS_PAGE_SIZE = 50
+
+function targetHref(report: Pick<Report, "target_type" | "target_id" | "target_user_id">) {
+  switch (report.target_type) {
+    case "post":
+      return `/post/${report.target_id}`
+    case "profile":
+      return `/profile/${report.target_id}`
+    default:
+      return report.target_user_id ? `/profile/${report.target_user_id}` : null
+  }
+}
+
+function ReportCard({ report, onResolved }: { report: ReportWithProfiles; onResolved: () => void }) {
+  const [note, setNote] = useState("")
+  const [suspendDays, setSuspendDays] = useState(7)
+  const [pendingAction, setPendingAction] = useState<ModerationAction | null>(null)
+  const [error, setError] = useState<string | null>(null)
+  const href = targetHref(report)
+  const isOpen = report.status === "open"
+
+  const handleAction = async (action: ModerationAction) => {
+    if (action === "suspend" && !confirm(`Suspend @${report.target_user?.username} for ${suspendDays} days?`)) return
+
+    setPendingAction(action)
+    setError(null)
+
+    try {
+      await moderateReport(report.id, action, { suspendDays, note })
+      onResolved()
+    } catch (error: any) {
+      console.error("Error moderating report:", error)
+      setError(error.message || "Failed to apply action")
+      setPendingAction(null)
+    }
+  }
+
+  return (
+    <li className="border border-gray-200 dark:border-gray-700 rounded-lg p-4">
+      <div className="flex flex-wrap items-center gap-2 text-sm">
+        <span className="px-2 py-0.5 rounded-full bg-red-100 dark:bg-red-900/30 text-red-600 dark:text-red-400 font-medium">
+          {reportReasonLabel(report.reason)}
+        </span>
+        <span className="px-2 py-0.5 rounded-full bg-gray-100 dark:bg-gray-700 text-gray-600 dark:text-gray-300 capitalize">
+          {report.target_type}
+        </span>
+        {!isOpen && (
+          <span className="px-2 py-0.5 rounded-full bg-gray-100 dark:bg-gray-700 text-gray-600 dark:text-gray-300 capitalize">
+            {report.status}
+          </span>
+        )}
+        <span className="text-gray-500 dark:text-gray-400">
+          by @{report.reporter?.username ?? "deleted"} ·{" "}
+          {formatDistanceToNow(new Date(report.created_at), { addSuffix: true })}
+        </span>
+      </div>
+
+      <div className="mt-3 text-sm">
+        <span className="text-gray-500 dark:text-gray-400">Reported user: </span>
+        {report.target_user ? (
+          <Link href={`/profile/${report.target_user_id}`} className="text-primary hover:underline">
+            @{report.target_user.username}
+          </Link>
+        ) : (
+          <span className="text-gray-500 dark:text-gray-400">deleted</span>
+        )}
+        {report.target_user?.suspended_until && new Date(report.target_user.suspended_until) > new Date() && (
+          <span className="ml-2 text-red-500">
+            suspended until {new Date(report.target_user.suspended_until).toLocaleDateString()}
+          </span>
+        )}
+      </div>
+
+      {report.target_content && (
+        <blockquote className="mt-2 p-3 rounded-md bg-gray-50 dark:bg-gray-700/50 text-sm text-gray-800 dark:text-gray-200 whitespace-pre-line break-words line-clamp-6">
+          {report.target_content}
+        </blockquote>
+      )}
+
+      {report.details && (
+        <p className="mt-2 text-sm text-gray-600 dark:text-gray-400">
+          <span className="font-medium">Reporter's note:</span> {report.details}
+        </p>
+      )}
+
+      {href && (
+        <Link href={href} target="_blank" className="inline-block mt-2 text-sm text-primary hover:underline">
+          View in context
+        </Link>
+      )}
+
+      {isOpen && (
+        <div className="mt-4 space-y-3">
+          <input
+            type="text"
+            value={note}
+            onChange={(e) => setNote(e.target.value)}
+            placeholder="Note for the audit log (optional)"
+            className="w-full px-3 py-2 text-sm border border-gray-300 dark:border-gray-600 rounded-md focus:outline-none focus:ring-2 focus:ring-primary dark:bg-gray-700 dark:text-white"
+          />
+
+          <div className="flex flex-wrap items-center gap-2">
+            <button
+              onClick={() => handleAction("dismiss")}
+              disabled={pendingAction !== null}
+              className="px-3 py-1.5 text-sm bg-gray-200 dark:bg-gray-700 text-gray-800 dark:text-gray-200 rounded-md hover:bg-gray-300 dark:hover:bg-gray-600 transition-colors disabled:opacity-70"
+            >
+              {pendingAction === "dismiss" ? "Dismissing..." : "Dismiss"}
+            </button>
+            {report.target_type !== "profile" && (
+              <button
+                onClick={() => handleAction("hide")}
+                disabled={pendingAction !== null}
+                className="px-3 py-1.5 text-sm bg-yellow-500 text-white rounded-md hover:bg-yellow-600 transition-colors disabled:opacity-70"
+              >
+                {pendingAction === "hide" ? "Hiding..." : `Hide ${report.target_type}`}
+              </button>
+            )}
+            <div className="flex items-center gap-2">
+              <button
+                onClick={() => handleAction("suspend")}
+                disabled={pendingAction !== null || !report.target_user}
+                className="px-3 py-1.5 text-sm bg-red-500 text-white rounded-md hover:bg-red-600 transition-colors disabled:opacity-70"
+              >
+                {pendingAction === "suspend" ? "Suspending..." : "Suspend account"}
+              </button>
+              <select
+                value={suspendDays}
+                onChange={(e) => setSuspendDays(Number(e.target.value))}
+                disabled={pendingAction !== null}
+                className="px-2 py-1.5 text-sm border border-gray-300 dark:border-gray-600 rounded-md dark:bg-gray-700 dark:text-white"
+                aria-label="Suspension length"
+              >
+                {SUSPENSION_DAYS_OPTIONS.map((days) => (
+                  <option key={days} value={days}>
+                    {days} {days === 1 ? "day" : "days"}
+                  </option>
+                ))}
+              </select>
+            </div>
+          </div>
+
+          {error && <div className="text-red-500 text-sm">{error}</div>}
+        </div>
+      )}
+    </li>
+  )
+}
+
+function ReportsList({ status }: { status: "open" | "resolved" }) {
+  const [reports, setReports] = useState<ReportWithProfiles[]>([])
+  const [loading, setLoading] = useState(true)
+
+  const fetchReports = async () => {
+    let query = supabase
+      .from("reports")
+      .select(`
+        *,
+        reporter:reporter_id(username),
+        target_user:target_user_id(username, suspended_until)
+      `)
+      .order(status === "open" ? "created_at" : "resolved_at", { ascending: status === "open" })
+      .limit(REPORTS_PAGE_SIZE)
+
+    query = status === "open" ? query.eq("status", "open") : query.neq("status", "open")
+
+    const { data, error } = await query
+
+    if (error) {
+      console.error("Error fetching reports:", error)
+    } else {
+      setReports(data as ReportWithProfiles[])
+    }
+
+    setLoading(false)
+  }
+
+  useEffect(() => {
+    setLoading(true)
+    fetchReports()
+  }, [status])
+
+  if (loading) {
+    return (
+      <div className="flex justify-center py-8">
+        <div className="w-8 h-8 border-4 border-primary border-t-transparent rounded-full animate-spin"></div>
+      </div>
+    )
+  }
+
+  if (reports.length === 0) {
+    return (
+      <p className="text-center py-8 text-gray-500 dark:text-gray-400">
+        {status === "open" ? "No open reports. Nice work!" : "No resolved reports yet"}
+      </p>
+    )
+  }
+
+  return (
+    <ul className="space-y-4">
+      {reports.map((report) => (
+        // Resolving one report closes every open report on the same target, so reload the whole list
+        <ReportCard key={report.id} report={report} onResolved={fetchReports} />
+      ))}
+    </ul>
+  )
+}
+
+function ModerationLog() {
+  const [actions, setActions] = useState<LoggedAction[]>([])
+  const [loading, setLoading] = useState(true)
+
+  useEffect(() => {
+    const fetchActions = async () => {
+      const { data, error } = await supabase
+        .from("moderation_actions")
+        .select(`
+          id,
+          action,
+          target_type,
+          target_id,
+          note,
+          created_at,
+          moderator:moderator_id(username)
+        `)
+        .order("created_at", { ascending: false })
+        .limit(REPORTS_PAGE_SIZE)
+
+      if (error) {
+        console.error("Error fetching moderation log:", error)
+      } else {
+        setActions(data as LoggedAction[])
+      }
+
+      setLoading(false)
+    }
+
+    fetchActions()
+  }, [])
+
+  if (loading) {
+    return (
+      <div className="flex justify-center py-8">
+        <div className="w-8 h-8 border-4 border-primary border-t-transparent rounded-full animate-spin"></div>
+      </div>
+    )
+  }
+
+  if (actions.length === 0) {
+    return <p className="text-center py-8 text-gray-500 dark:text-gray-400">No moderator actions yet</p>
+  }
+
+  return (
+    <ul className="divide-y divide-gray-200 dark:divide-gray-700">
+      {actions.map((action) => {
+        const href = targetHref({ ...action, target_user_id: null })
+
+        return (
+          <li key={action.id} className="py-3 text-sm">
+            <div>
+              <span className="font-medium">@{action.moderator?.username ?? "deleted"}</span>{" "}
+              <span className="text-gray-600 dark:text-gray-300">{action.action.replace("_", " ")}</span>{" "}
+              {href ? (
+                <Link href={href} className="text-primary hover:underline">
+                  {action.target_type}
+                </Link>
+              ) : (
+                <span>{action.target_type}</span>
+              )}
+              <span className="text-gray-500 dark:text-gray-400">
+                {" "}
+                · {formatDistanceToNow(new Date(action.created_at), { addSuffix: true })}
+              </span>
+            </div>
+            {action.note && <p className="mt-1 text-gray-500 dark:text-gray-400">{action.note}</p>}
+          </li>
+        )
+      })}
+    </ul>
+  )
+}
+
+export default function ModerationQueue() {
+  const [tab, setTab] = useState<QueueTab>("open")
+
+  return (
+    <div className="bg-white dark:bg-gray-800 rounded-lg shadow-md p-6 mt-6 animate-fade-in">
+      <h1 className="text-2xl font-bold mb-6">Moderation</h1>
+
+      <div className="flex bg-gray-100 dark:bg-gray-700/50 rounded-lg p-1 mb-6">
+        {queueTabs.map((queueTab) => (
+          <button
+            key={queueTab.value}
+            onClick={() => setTab(queueTab.value)}
+            className={`flex-1 px-4 py-2 rounded-md text-sm font-medium transition-colors ${
+              tab === queueTab.value
+                ? "bg-primary text-white"
+                : "text-gray-600 dark:text-gray-300 hover:bg-gray-200 dark:hover:bg-gray-700"
+            }`}
+          >
+            {queueTab.label}
+          </button>
+        ))}
+      </div>
+
+      {tab === "open" && <ReportsList status="open" />}
+      {tab === "resolved" && <ReportsList status="resolved" />}
+      {tab === "log" && <ModerationLog />}
+    </div>
+  )
+}
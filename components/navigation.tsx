@@ -5,11 +5,12 @@ import { useTheme } from "@/contexts/theme-context"
 import Link from "next/link"
 import { usePathname } from "next/navigation"
 import { useState, useEffect } from "react"
-import { Bell, Home, MessageCircle, Moon, Search, Sun, User } from "lucide-react"
+import { Bell, Home, MessageCircle, Moon, Search, Settings, Shield, Sun, User } from "lucide-react"
 import { supabase } from "@/lib/supabase"
+import { getUnreadCounts } from "@/lib/chats"
 
 export default function Navigation() {
-  const { user, signOut } = useAuth()
+  const { user, role, signOut } = useAuth()
   const { theme, toggleTheme } = useTheme()
   const pathname = usePathname()
   const [unreadNotifications, setUnreadNotifications] = useState(0)
@@ -19,6 +20,15 @@ export default function Navigation() {
   useEffect(() => {
     if (!user) return
 
+    const fetchUnreadMessages = async () => {
+      try {
+        const unreadCounts = await getUnreadCounts()
+        setUnreadMessages([...unreadCounts.values()].reduce((total, count) => total + count, 0))
+      } catch (error) {
+        console.error("Error fetching unread messages:", error)
+      }
+    }
+
     const fetchUnreadCounts = async () => {
       // Get unread notifications count
       const { count: notificationCount, error: notificationError } = await supabase
@@ -31,29 +41,7 @@ export default function Navigation() {
         setUnreadNotifications(notificationCount)
       }
 
-      // Get unread messages count (more complex query)
-      const { data: chats, error: chatsError } = await supabase
-        .from("chat_members")
-        .select("chat_id")
-        .eq("user_id", user.id)
-
-      if (chatsError || !chats) return
-
-      let totalUnread = 0
-      for (const chat of chats) {
-        const { count, error } = await supabase
-          .from("messages")
-          .select("*", { count: "exact", head: true })
-          .eq("chat_id", chat.chat_id)
-          .neq("user_id", user.id)
-          .gt("created_at", user.last_sign_in_at || "")
-
-        if (!error && count !== null) {
-          totalUnread += count
-        }
-      }
-
-      setUnreadMessages(totalUnread)
+      await fetchUnreadMessages()
     }
 
     fetchUnreadCounts()
@@ -91,6 +79,19 @@ export default function Navigation() {
           }
         },
       )
+      // Reading a chat, in this tab or another, brings the count back down
+      .on(
+        "postgres_changes",
+        {
+          event: "UPDATE",
+          schema: "public",
+          table: "chat_members",
+          filter: `user_id=eq.${user.id}`,
+        },
+        () => {
+          fetchUnreadMessages()
+        },
+      )
       .subscribe()
 
     return () => {
@@ -105,6 +106,12 @@ export default function Navigation() {
     { name: "Messages", href: "/messages", icon: MessageCircle, badge: unreadMessages },
     { name: "Notifications", href: "/notifications", icon: Bell, badge: unreadNotifications },
     { name: "Profile", href: `/profile/${user?.id}`, icon: User },
+    { name: "Settings", href: "/settings", icon: Settings },
+    ...(role === "admin"
+      ? [{ name: "Admin", href: "/admin", icon: Shield }]
+      : role === "moderator"
+        ? [{ name: "Moderation", href: "/admin/moderation", icon: Shield }]
+        : []),
   ]
 
   const toggleMobileMenu = () => {
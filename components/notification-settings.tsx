@@ -0,0 +1,42 @@
+"use client"
+
+import { Switch } from "@/components/ui/switch"
+import { useUserSettings } from "@/hooks/use-user-settings"
+import type { UserSettings } from "@/lib/settings"
+
+type NotificationSettingsProps = {
+  initialSettings: UserSettings
+}
+
+type NotificationSetting = "notify_likes" | "notify_comments" | "notify_follows" | "notify_mentions"
+
+const NOTIFICATION_OPTIONS: { key: NotificationSetting; label: string; description: string }[] = [
+  { key: "notify_likes", label: "Likes", description: "When someone likes your post" },
+  { key: "notify_comments", label: "Comments", description: "When someone comments on your post or replies to you" },
+  { key: "notify_follows", label: "New followers", description: "When someone starts following you" },
+  { key: "notify_mentions", label: "Mentions", description: "When someone mentions you in a post, comment or chat" },
+]
+
+export default function NotificationSettings({ initialSettings }: NotificationSettingsProps) {
+  const { settings, update, error } = useUserSettings(initialSettings)
+
+  return (
+    <div className="space-y-4">
+      {NOTIFICATION_OPTIONS.map((option) => (
+        <div key={option.key} className="flex items-center justify-between gap-4">
+          <label htmlFor={option.key}>
+            <span className="block font-medium text-gray-900 dark:text-white">{option.label}</span>
+            <span className="block text-sm text-gray-600 dark:text-gray-400">{option.description}</span>
+          </label>
+          <Switch
+            id={option.key}
+            checked={settings[option.key]}
+            onCheckedChange={(checked) => update({ [option.key]: checked })}
+          />
+        </div>
+      ))}
+
+      {error && <p className="text-sm text-red-500">{error}</p>}
+    </div>
+  )
+}
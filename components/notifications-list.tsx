@@ -6,11 +6,20 @@ import { useAuth } from "@/contexts/auth-context"
 import Link from "next/link"
 import Image from "next/image"
 import { formatDistanceToNow } from "date-fns"
-import { Heart, MessageCircle, UserPlus, Bell } from "lucide-react"
+import { Heart, MessageCircle, Reply, UserPlus, UserCheck, Bell, AtSign } from "lucide-react"
 
 type Notification = {
   id: string
-  type: "like" | "comment" | "follow" | "message"
+  type:
+    | "like"
+    | "comment"
+    | "reply"
+    | "follow"
+    | "follow_request"
+    | "follow_accept"
+    | "message"
+    | "mention"
+    | "message_mention"
   related_id: string
   from_user_id: string
   is_read: boolean
@@ -123,6 +132,33 @@ export default function NotificationsList() {
             </span>
           </>
         )
+      case "reply":
+        return (
+          <>
+            <Reply className="h-5 w-5 text-blue-500 mr-2" />
+            <span>
+              <span className="font-semibold">{from_user.username}</span> replied to your comment
+            </span>
+          </>
+        )
+      case "mention":
+        return (
+          <>
+            <AtSign className="h-5 w-5 text-primary mr-2" />
+            <span>
+              <span className="font-semibold">{from_user.username}</span> mentioned you
+            </span>
+          </>
+        )
+      case "message_mention":
+        return (
+          <>
+            <AtSign className="h-5 w-5 text-purple-500 mr-2" />
+            <span>
+              <span className="font-semibold">{from_user.username}</span> mentioned you in a chat
+            </span>
+          </>
+        )
       case "follow":
         return (
           <>
@@ -132,6 +168,24 @@ export default function NotificationsList() {
             </span>
           </>
         )
+      case "follow_request":
+        return (
+          <>
+            <UserPlus className="h-5 w-5 text-primary mr-2" />
+            <span>
+              <span className="font-semibold">{from_user.username}</span> requested to follow you
+            </span>
+          </>
+        )
+      case "follow_accept":
+        return (
+          <>
+            <UserCheck className="h-5 w-5 text-green-500 mr-2" />
+            <span>
+              <span className="font-semibold">{from_user.username}</span> accepted your follow request
+            </span>
+          </>
+        )
       case "message":
         return (
           <>
@@ -156,10 +210,15 @@ export default function NotificationsList() {
     switch (type) {
       case "like":
       case "comment":
+      case "reply":
+      case "mention":
         return `/post/${related_id}`
       case "follow":
+      case "follow_request":
+      case "follow_accept":
         return `/profile/${from_user_id}`
       case "message":
+      case "message_mention":
         return `/messages?chat=${related_id}`
       default:
         return "#"
@@ -4,32 +4,55 @@ import { useState } from "react"
 import Link from "next/link"
 import Image from "next/image"
 import { formatDistanceToNow } from "date-fns"
-import { Heart, MessageCircle, Share2 } from "lucide-react"
+import { EyeOff, Flag, Heart, MessageCircle, MoreHorizontal, Pencil, Share2, Trash2 } from "lucide-react"
 import { useAuth } from "@/contexts/auth-context"
+import { deletePost, isPostEdited, updatePostContent, type Post } from "@/lib/posts"
+import { toggleReaction } from "@/lib/reactions"
+import {
+  decodeMentions,
+  encodeMentions,
+  getFirstUrl,
+  notifyMentions,
+  toPlainText,
+  type MentionedUser,
+} from "@/lib/rich-text"
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu"
 import CommentSection from "./comment-section"
+import PostRevisions from "./post-revisions"
+import PostMediaCarousel from "./post-media-carousel"
+import RichText from "./rich-text"
+import MentionInput from "./mention-input"
+import LinkPreviewCard from "./link-preview-card"
+import ReportDialog from "./report-dialog"
+import ReactionBar from "./reaction-bar"
+import ReactionPicker from "./reaction-picker"
 
 type PostCardProps = {
-  post: {
-    id: string
-    content: string
-    image_url: string | null
-    created_at: string
-    user_id: string
-    profiles: {
-      username: string
-      avatar_url: string | null
-    }
-    likes_count: number
-    comments_count: number
-    user_has_liked: boolean
-  }
+  post: Post
   onLike: (postId: string) => void
+  onUpdate?: (post: Post) => void
+  onDelete?: (postId: string) => void
+  defaultShowComments?: boolean
 }
 
-export default function PostCard({ post, onLike }: PostCardProps) {
-  const [showComments, setShowComments] = useState(false)
+export default function PostCard({ post, onLike, onUpdate, onDelete, defaultShowComments = false }: PostCardProps) {
+  const [showComments, setShowComments] = useState(defaultShowComments)
   const [isImageLoading, setIsImageLoading] = useState(!!post.image_url)
+  const [isEditing, setIsEditing] = useState(false)
+  const [editContent, setEditContent] = useState("")
+  const [editMentions, setEditMentions] = useState<MentionedUser[]>([])
+  const [isSaving, setIsSaving] = useState(false)
+  const [isDeleting, setIsDeleting] = useState(false)
+  const [showRevisions, setShowRevisions] = useState(false)
+  const [showReport, setShowReport] = useState(false)
   const { user } = useAuth()
+  const isOwner = user?.id === post.user_id
+  const previewUrl = getFirstUrl(post.content)
 
   const toggleComments = () => {
     setShowComments(!showComments)
@@ -40,9 +63,10 @@ export default function PostCard({ post, onLike }: PostCardProps) {
       const shareUrl = `${window.location.origin}/post/${post.id}`
 
       if (navigator.share) {
+        const text = toPlainText(post.content)
         await navigator.share({
           title: `Post by ${post.profiles.username}`,
-          text: post.content.substring(0, 50) + (post.content.length > 50 ? "..." : ""),
+          text: text.substring(0, 50) + (text.length > 50 ? "..." : ""),
           url: shareUrl,
         })
       } else {
@@ -54,8 +78,78 @@ export default function PostCard({ post, onLike }: PostCardProps) {
     }
   }
 
+  const startEditing = () => {
+    const { text, mentions } = decodeMentions(post.content)
+    setEditContent(text)
+    setEditMentions(mentions)
+    setIsEditing(true)
+  }
+
+  const handleSaveEdit = async () => {
+    const content = encodeMentions(editContent.trim(), editMentions)
+    if (!content || content === post.content) {
+      setIsEditing(false)
+      return
+    }
+
+    setIsSaving(true)
+
+    try {
+      const updated = await updatePostContent(post.id, content)
+
+      onUpdate?.({ ...post, ...updated })
+      setIsEditing(false)
+
+      if (user) {
+        await notifyMentions({
+          content,
+          previousContent: post.content,
+          type: "mention",
+          relatedId: post.id,
+          fromUserId: user.id,
+        })
+      }
+    } catch (error) {
+      console.error("Error editing post:", error)
+      alert("Failed to save changes")
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  const handleReact = async (emoji: string) => {
+    if (!user) return
+
+    try {
+      const reactions = await toggleReaction("post", post.id, user.id, emoji, post.reactions)
+      onUpdate?.({ ...post, reactions })
+    } catch (error) {
+      console.error("Error reacting to post:", error)
+      alert("Failed to add reaction")
+    }
+  }
+
+  const handleDelete = async () => {
+    if (!confirm("Delete this post? This can't be undone.")) return
+
+    setIsDeleting(true)
+
+    try {
+      await deletePost(post)
+      onDelete?.(post.id)
+    } catch (error) {
+      console.error("Error deleting post:", error)
+      alert("Failed to delete post")
+      setIsDeleting(false)
+    }
+  }
+
   return (
-    <div className="bg-white dark:bg-gray-800 rounded-lg shadow-md overflow-hidden animate-fade-in">
+    <div
+      className={`bg-white dark:bg-gray-800 rounded-lg shadow-md overflow-hidden animate-fade-in ${
+        isDeleting ? "opacity-50 pointer-events-none" : ""
+      }`}
+    >
       {/* Post Header */}
       <div className="p-4 flex items-center space-x-3">
         <Link href={`/profile/${post.user_id}`} className="flex-shrink-0">
@@ -83,17 +177,96 @@ export default function PostCard({ post, onLike }: PostCardProps) {
           </Link>
           <p className="text-sm text-gray-500 dark:text-gray-400">
             {formatDistanceToNow(new Date(post.created_at), { addSuffix: true })}
+            {isPostEdited(post) && (
+              <>
+                {" · "}
+                <button onClick={() => setShowRevisions(true)} className="hover:underline">
+                  edited
+                </button>
+              </>
+            )}
           </p>
         </div>
+
+        {((isOwner && (onUpdate || onDelete)) || (user && !isOwner)) && (
+          <DropdownMenu>
+            <DropdownMenuTrigger
+              className="p-2 rounded-full text-gray-600 dark:text-gray-400 hover:bg-gray-100 dark:hover:bg-gray-700 transition-colors"
+              aria-label="Post options"
+            >
+              <MoreHorizontal className="h-5 w-5" />
+            </DropdownMenuTrigger>
+            <DropdownMenuContent align="end">
+              {isOwner && onUpdate && (
+                <DropdownMenuItem onSelect={startEditing}>
+                  <Pencil className="h-4 w-4 mr-2" />
+                  <span>Edit</span>
+                </DropdownMenuItem>
+              )}
+              {isOwner && onDelete && (
+                <DropdownMenuItem onSelect={handleDelete} className="text-red-500 focus:text-red-500">
+                  <Trash2 className="h-4 w-4 mr-2" />
+                  <span>Delete</span>
+                </DropdownMenuItem>
+              )}
+              {!isOwner && (
+                <DropdownMenuItem onSelect={() => setShowReport(true)} className="text-red-500 focus:text-red-500">
+                  <Flag className="h-4 w-4 mr-2" />
+                  <span>Report</span>
+                </DropdownMenuItem>
+              )}
+            </DropdownMenuContent>
+          </DropdownMenu>
+        )}
       </div>
 
+      {isOwner && post.is_hidden && (
+        <div className="mx-4 mb-3 px-3 py-2 rounded-md bg-yellow-50 dark:bg-yellow-900/20 text-sm text-yellow-800 dark:text-yellow-300 flex items-center">
+          <EyeOff className="h-4 w-4 mr-2 flex-shrink-0" />
+          This post was hidden by a moderator and is only visible to you.
+        </div>
+      )}
+
       {/* Post Content */}
       <div className="px-4 pb-3">
-        <p className="text-gray-800 dark:text-gray-200 whitespace-pre-line break-words">{post.content}</p>
+        {isEditing ? (
+          <div>
+            <MentionInput
+              value={editContent}
+              onChange={setEditContent}
+              onMention={(mention) => setEditMentions((prev) => [...prev, mention])}
+              className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-md focus:outline-none focus:ring-2 focus:ring-primary dark:bg-gray-700 dark:text-white resize-none"
+              rows={3}
+              autoFocus
+            />
+            <div className="mt-2 flex justify-end space-x-2">
+              <button
+                type="button"
+                onClick={() => setIsEditing(false)}
+                disabled={isSaving}
+                className="px-4 py-2 bg-gray-200 dark:bg-gray-700 text-gray-800 dark:text-gray-200 rounded-md hover:bg-gray-300 dark:hover:bg-gray-600 transition-colors"
+              >
+                Cancel
+              </button>
+              <button
+                type="button"
+                onClick={handleSaveEdit}
+                disabled={isSaving || !editContent.trim()}
+                className="px-4 py-2 bg-primary text-white rounded-md hover:bg-primary/90 transition-colors disabled:opacity-70"
+              >
+                {isSaving ? "Saving..." : "Save"}
+              </button>
+            </div>
+          </div>
+        ) : (
+          <RichText content={post.content} />
+        )}
       </div>
 
-      {/* Post Image */}
-      {post.image_url && (
+      {/* Post Media */}
+      {post.post_media.length > 0 ? (
+        <PostMediaCarousel media={post.post_media} />
+      ) : post.image_url ? (
         <div className="relative">
           {isImageLoading && (
             <div className="absolute inset-0 flex items-center justify-center bg-gray-200 dark:bg-gray-700">
@@ -109,8 +282,18 @@ export default function PostCard({ post, onLike }: PostCardProps) {
             onLoad={() => setIsImageLoading(false)}
           />
         </div>
+      ) : (
+        previewUrl && !isEditing && <LinkPreviewCard url={previewUrl} />
       )}
 
+      <ReactionBar
+        targetType="post"
+        targetId={post.id}
+        reactions={post.reactions}
+        onToggle={handleReact}
+        className="px-4 pb-3"
+      />
+
       {/* Post Actions */}
       <div className="px-4 py-3 border-t border-gray-200 dark:border-gray-700 flex items-center justify-between">
         <button
@@ -133,6 +316,13 @@ export default function PostCard({ post, onLike }: PostCardProps) {
           <span>{post.comments_count}</span>
         </button>
 
+        <ReactionPicker
+          onSelect={handleReact}
+          className="flex items-center space-x-1 px-3 py-1 rounded-md text-gray-600 dark:text-gray-400 hover:bg-gray-100 dark:hover:bg-gray-700 transition-colors"
+        >
+          <span>React</span>
+        </ReactionPicker>
+
         <button
           onClick={handleShare}
           className="flex items-center space-x-1 px-3 py-1 rounded-md text-gray-600 dark:text-gray-400 hover:bg-gray-100 dark:hover:bg-gray-700 transition-colors"
@@ -144,6 +334,17 @@ export default function PostCard({ post, onLike }: PostCardProps) {
 
       {/* Comments Section */}
       {showComments && <CommentSection postId={post.id} postUserId={post.user_id} />}
+
+      {showRevisions && (
+        <PostRevisions
+          postId={post.id}
+          currentContent={post.content}
+          updatedAt={post.updated_at}
+          onClose={() => setShowRevisions(false)}
+        />
+      )}
+
+      {showReport && <ReportDialog targetType="post" targetId={post.id} onClose={() => setShowReport(false)} />}
     </div>
   )
 }
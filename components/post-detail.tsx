@@ -0,0 +1,46 @@
+"use client"
+
+import { useState } from "react"
+import { useRouter } from "next/navigation"
+import { useAuth } from "@/contexts/auth-context"
+import { togglePostLike, type Post } from "@/lib/posts"
+import PostCard from "./post-card"
+
+type PostDetailProps = {
+  initialPost: Post
+}
+
+export default function PostDetail({ initialPost }: PostDetailProps) {
+  const [post, setPost] = useState(initialPost)
+  const { user } = useAuth()
+  const router = useRouter()
+
+  const handlePostLike = async () => {
+    // Shared links can be opened signed out, so send visitors to login before liking
+    if (!user) {
+      router.push("/login")
+      return
+    }
+
+    const updatedPost = await togglePostLike(post, user.id)
+    if (!updatedPost) return
+
+    setPost(updatedPost)
+  }
+
+  const handlePostDelete = () => {
+    router.push("/")
+  }
+
+  return (
+    <div className="mt-6 pb-6">
+      <PostCard
+        post={post}
+        onLike={handlePostLike}
+        onUpdate={setPost}
+        onDelete={handlePostDelete}
+        defaultShowComments
+      />
+    </div>
+  )
+}
@@ -0,0 +1,126 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import Image from "next/image"
+import {
+  Carousel,
+  CarouselContent,
+  CarouselItem,
+  CarouselNext,
+  CarouselPrevious,
+  type CarouselApi,
+} from "@/components/ui/carousel"
+import { blurhashToDataURL } from "@/lib/image-processing"
+import { getPostMediaUrl, isPostMediaPath, type PostMedia } from "@/lib/posts"
+
+type PostMediaCarouselProps = {
+  media: PostMedia[]
+}
+
+// Media in the private bucket is shown through a signed URL fetched when the post renders
+function useMediaUrl(url: string) {
+  const [src, setSrc] = useState<string | null>(isPostMediaPath(url) ? null : url)
+
+  useEffect(() => {
+    let cancelled = false
+
+    getPostMediaUrl(url)
+      .then((signedUrl) => {
+        if (!cancelled) setSrc(signedUrl)
+      })
+      .catch((error) => {
+        console.error("Error fetching post media:", error)
+      })
+
+    return () => {
+      cancelled = true
+    }
+  }, [url])
+
+  return src
+}
+
+// Shows the blurred preview behind an image until the full version has loaded
+function MediaImage({ item }: { item: PostMedia }) {
+  const src = useMediaUrl(item.url)
+  const [loaded, setLoaded] = useState(false)
+  const [placeholder, setPlaceholder] = useState<string | null>(null)
+
+  // Decoding draws on a canvas, so it has to wait until the component is in the browser
+  useEffect(() => {
+    setPlaceholder(item.blurhash ? blurhashToDataURL(item.blurhash) : null)
+  }, [item.blurhash])
+
+  return (
+    <div
+      className="relative w-full bg-cover bg-center"
+      style={placeholder && !loaded ? { backgroundImage: `url(${placeholder})` } : undefined}
+    >
+      <Image
+        src={src || "/placeholder.svg"}
+        alt="Post image"
+        width={800}
+        height={600}
+        onLoad={() => setLoaded(!!src)}
+        className={`w-full h-auto max-h-[500px] object-contain transition-opacity duration-300 ${
+          item.blurhash && !loaded ? "opacity-0" : "opacity-100"
+        }`}
+      />
+    </div>
+  )
+}
+
+function MediaVideo({ item }: { item: PostMedia }) {
+  const src = useMediaUrl(item.url)
+
+  return <video src={src ?? undefined} controls playsInline preload="metadata" className="w-full max-h-[500px]" />
+}
+
+export default function PostMediaCarousel({ media }: PostMediaCarouselProps) {
+  const [api, setApi] = useState<CarouselApi>()
+  const [current, setCurrent] = useState(0)
+
+  useEffect(() => {
+    if (!api) return
+
+    const handleSelect = () => setCurrent(api.selectedScrollSnap())
+
+    handleSelect()
+    api.on("select", handleSelect)
+
+    return () => {
+      api.off("select", handleSelect)
+    }
+  }, [api])
+
+  return (
+    <Carousel setApi={setApi} className="relative bg-black">
+      <CarouselContent className="ml-0">
+        {media.map((item) => (
+          <CarouselItem key={item.id} className="pl-0 flex items-center justify-center">
+            {item.media_type === "video" ? (
+              <MediaVideo item={item} />
+            ) : (
+              <MediaImage item={item} />
+            )}
+          </CarouselItem>
+        ))}
+      </CarouselContent>
+
+      {media.length > 1 && (
+        <>
+          <CarouselPrevious className="left-2 disabled:hidden" />
+          <CarouselNext className="right-2 disabled:hidden" />
+          <div className="absolute bottom-2 left-0 right-0 flex justify-center space-x-1.5 pointer-events-none">
+            {media.map((item, index) => (
+              <span
+                key={item.id}
+                className={`h-1.5 w-1.5 rounded-full ${index === current ? "bg-white" : "bg-white/50"}`}
+              />
+            ))}
+          </div>
+        </>
+      )}
+    </Carousel>
+  )
+}
@@ -0,0 +1,89 @@
+"use client"
+
+import { useState, useEffect } from "react"
+import { supabase } from "@/lib/supabase"
+import { format } from "date-fns"
+import { X } from "lucide-react"
+import RichText from "./rich-text"
+
+type Revision = {
+  id: string
+  content: string
+  created_at: string
+}
+
+type PostRevisionsProps = {
+  postId: string
+  currentContent: string
+  updatedAt: string
+  onClose: () => void
+}
+
+export default function PostRevisions({ postId, currentContent, updatedAt, onClose }: PostRevisionsProps) {
+  const [revisions, setRevisions] = useState<Revision[]>([])
+  const [loading, setLoading] = useState(true)
+
+  useEffect(() => {
+    const fetchRevisions = async () => {
+      try {
+        const { data, error } = await supabase
+          .from("post_revisions")
+          .select("id, content, created_at")
+          .eq("post_id", postId)
+          .order("created_at", { ascending: false })
+
+        if (error) throw error
+
+        setRevisions(data || [])
+      } catch (error) {
+        console.error("Error fetching post revisions:", error)
+      } finally {
+        setLoading(false)
+      }
+    }
+
+    fetchRevisions()
+  }, [postId])
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 z-50 flex justify-center items-center p-4">
+      <div className="bg-white dark:bg-gray-800 rounded-lg shadow-xl w-full max-w-md max-h-[90vh] overflow-hidden animate-fade-in">
+        <div className="p-4 border-b border-gray-200 dark:border-gray-700 flex justify-between items-center">
+          <h2 className="text-xl font-semibold">Edit History</h2>
+          <button
+            onClick={onClose}
+            className="p-2 rounded-full hover:bg-gray-100 dark:hover:bg-gray-700 transition-colors"
+          >
+            <X className="h-5 w-5" />
+          </button>
+        </div>
+
+        <div className="p-4 overflow-y-auto max-h-[calc(90vh-80px)]">
+          {loading ? (
+            <div className="flex justify-center py-8">
+              <div className="w-8 h-8 border-4 border-primary border-t-transparent rounded-full animate-spin"></div>
+            </div>
+          ) : (
+            <div className="space-y-4">
+              <div className="p-3 rounded-md bg-primary/10">
+                <p className="text-xs text-gray-500 dark:text-gray-400 mb-1">
+                  Current · {format(new Date(updatedAt), "PPp")}
+                </p>
+                <RichText content={currentContent} />
+              </div>
+
+              {revisions.map((revision) => (
+                <div key={revision.id} className="p-3 rounded-md bg-gray-50 dark:bg-gray-700/50">
+                  <p className="text-xs text-gray-500 dark:text-gray-400 mb-1">
+                    {format(new Date(revision.created_at), "PPp")}
+                  </p>
+                  <RichText content={revision.content} />
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,87 @@
+"use client"
+
+import { useState } from "react"
+import { useRouter } from "next/navigation"
+import { Switch } from "@/components/ui/switch"
+import { useAuth } from "@/contexts/auth-context"
+import { useUserSettings } from "@/hooks/use-user-settings"
+import { supabase } from "@/lib/supabase"
+import type { UserSettings } from "@/lib/settings"
+
+type PrivacySettingsProps = {
+  initialSettings: UserSettings
+  initialIsPrivate: boolean
+}
+
+const MESSAGE_OPTIONS: { value: UserSettings["allow_messages_from"]; label: string }[] = [
+  { value: "everyone", label: "Everyone" },
+  { value: "following", label: "People I follow" },
+  { value: "nobody", label: "Nobody" },
+]
+
+export default function PrivacySettings({ initialSettings, initialIsPrivate }: PrivacySettingsProps) {
+  const { settings, update, error } = useUserSettings(initialSettings)
+  const [isPrivate, setIsPrivate] = useState(initialIsPrivate)
+  const [privateError, setPrivateError] = useState<string | null>(null)
+  const { user } = useAuth()
+  const router = useRouter()
+
+  // The private flag lives on the profile so other users' queries and policies can see it
+  const handlePrivateChange = async (checked: boolean) => {
+    if (!user) return
+
+    setIsPrivate(checked)
+    setPrivateError(null)
+
+    const { error } = await supabase.from("profiles").update({ is_private: checked }).eq("id", user.id)
+
+    if (error) {
+      console.error("Error updating account privacy:", error)
+      setIsPrivate(!checked)
+      setPrivateError("Failed to update account privacy")
+      return
+    }
+
+    router.refresh()
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between gap-4">
+        <label htmlFor="is_private">
+          <span className="block font-medium text-gray-900 dark:text-white">Private account</span>
+          <span className="block text-sm text-gray-600 dark:text-gray-400">
+            Only followers you approve can see your posts and who you follow. Making your account public approves all
+            pending requests.
+          </span>
+        </label>
+        <Switch id="is_private" checked={isPrivate} onCheckedChange={handlePrivateChange} />
+      </div>
+
+      {privateError && <p className="text-sm text-red-500">{privateError}</p>}
+
+      <div className="flex items-center justify-between gap-4">
+        <label htmlFor="allow_messages_from">
+          <span className="block font-medium text-gray-900 dark:text-white">Who can message me</span>
+          <span className="block text-sm text-gray-600 dark:text-gray-400">
+            Applies to new conversations. Existing chats aren&apos;t affected.
+          </span>
+        </label>
+        <select
+          id="allow_messages_from"
+          value={settings.allow_messages_from}
+          onChange={(e) => update({ allow_messages_from: e.target.value as UserSettings["allow_messages_from"] })}
+          className="px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-md focus:outline-none focus:ring-2 focus:ring-primary dark:bg-gray-700 dark:text-white"
+        >
+          {MESSAGE_OPTIONS.map((option) => (
+            <option key={option.value} value={option.value}>
+              {option.label}
+            </option>
+          ))}
+        </select>
+      </div>
+
+      {error && <p className="text-sm text-red-500">{error}</p>}
+    </div>
+  )
+}
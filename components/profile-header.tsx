@@ -6,9 +6,36 @@ import { useState, useRef } from "react"
 import Image from "next/image"
 import { supabase } from "@/lib/supabase"
 import { useAuth } from "@/contexts/auth-context"
-import { Camera, MessageCircle, UserPlus, UserCheck } from "lucide-react"
+import {
+  Ban,
+  Camera,
+  Clock,
+  Flag,
+  MessageCircle,
+  MoreHorizontal,
+  UserPlus,
+  UserCheck,
+  Pencil,
+  Link2,
+  Lock,
+  MapPin,
+  VolumeX,
+  Volume2,
+} from "lucide-react"
 import { useRouter } from "next/navigation"
 import { v4 as uuidv4 } from "uuid"
+import AvatarCropper from "./avatar-cropper"
+import EditProfileDialog from "./edit-profile-dialog"
+import RichText from "./rich-text"
+import ReportDialog from "./report-dialog"
+import { getImageExtension } from "@/lib/image-processing"
+import { blockUser, muteUser, unblockUser, unmuteUser } from "@/lib/blocks"
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu"
 
 type ProfileHeaderProps = {
   profile: {
@@ -16,16 +43,47 @@ type ProfileHeaderProps = {
     username: string
     avatar_url: string | null
     created_at: string
+    display_name: string | null
+    bio: string | null
+    website: string | null
+    location: string | null
+    banner_url: string | null
+    is_private: boolean
   }
   isCurrentUser: boolean
+  postsCount: number
+  initialFollowersCount: number
+  followingCount: number
+  initialIsFollowing: boolean
+  initialIsRequested: boolean
+  initialIsBlocking: boolean
+  initialIsMuted: boolean
+  // The profile's owner has blocked the viewer
+  isBlockedByProfile: boolean
 }
 
-export default function ProfileHeader({ profile, isCurrentUser }: ProfileHeaderProps) {
+export default function ProfileHeader({
+  profile,
+  isCurrentUser,
+  postsCount,
+  initialFollowersCount,
+  followingCount,
+  initialIsFollowing,
+  initialIsRequested,
+  initialIsBlocking,
+  initialIsMuted,
+  isBlockedByProfile,
+}: ProfileHeaderProps) {
   const [isUploading, setIsUploading] = useState(false)
-  const [isFollowing, setIsFollowing] = useState(false)
-  const [followersCount, setFollowersCount] = useState(0)
-  const [followingCount, setFollowingCount] = useState(0)
-  const [postsCount, setPostsCount] = useState(0)
+  const [cropFile, setCropFile] = useState<File | null>(null)
+  const [isEditing, setIsEditing] = useState(false)
+  const [isFollowing, setIsFollowing] = useState(initialIsFollowing)
+  const [isRequested, setIsRequested] = useState(initialIsRequested)
+  const [isFollowPending, setIsFollowPending] = useState(false)
+  const [followersCount, setFollowersCount] = useState(initialFollowersCount)
+  const [isBlocking, setIsBlocking] = useState(initialIsBlocking)
+  const [isMuted, setIsMuted] = useState(initialIsMuted)
+  const [isReporting, setIsReporting] = useState(false)
   const fileInputRef = useRef<HTMLInputElement>(null)
   const { user } = useAuth()
   const router = useRouter()
@@ -36,13 +94,16 @@ export default function ProfileHeader({ profile, isCurrentUser }: ProfileHeaderP
     }
   }
 
-  const handleAvatarChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+  const handleAvatarChange = (e: React.ChangeEvent<HTMLInputElement>) => {
     const file = e.target.files?.[0]
+    if (fileInputRef.current) {
+      fileInputRef.current.value = ""
+    }
     if (!file || !user) return
 
-    // Check file size (max 2MB)
-    if (file.size > 2 * 1024 * 1024) {
-      alert("Image size should be less than 2MB")
+    // Check file size (max 20MB, the cropped result is much smaller)
+    if (file.size > 20 * 1024 * 1024) {
+      alert("Image size should be less than 20MB")
       return
     }
 
@@ -52,15 +113,23 @@ export default function ProfileHeader({ profile, isCurrentUser }: ProfileHeaderP
       return
     }
 
+    setCropFile(file)
+  }
+
+  const handleAvatarCrop = async (blob: Blob) => {
+    if (!user) return
+
+    setCropFile(null)
     setIsUploading(true)
 
     try {
       // Upload image
-      const fileExt = file.name.split(".").pop()
-      const fileName = `${uuidv4()}.${fileExt}`
+      const fileName = `${uuidv4()}.${getImageExtension(blob)}`
       const filePath = `${user.id}/${fileName}`
 
-      const { error: uploadError } = await supabase.storage.from("avatars").upload(filePath, file)
+      const { error: uploadError } = await supabase.storage
+        .from("avatars")
+        .upload(filePath, blob, { contentType: blob.type })
 
       if (uploadError) throw uploadError
 
@@ -84,20 +153,129 @@ export default function ProfileHeader({ profile, isCurrentUser }: ProfileHeaderP
   }
 
   const handleFollowToggle = async () => {
-    if (!user || isCurrentUser) return
+    if (!user || isCurrentUser || isFollowPending) return
+
+    setIsFollowPending(true)
 
     try {
       if (isFollowing) {
-        // Unfollow logic would go here
+        // Unfollow the user
+        const { error } = await supabase
+          .from("follows")
+          .delete()
+          .eq("follower_id", user.id)
+          .eq("following_id", profile.id)
+
+        if (error) throw error
+
         setIsFollowing(false)
-        setFollowersCount((prev) => prev - 1)
+        setFollowersCount((prev) => Math.max(prev - 1, 0))
+
+        // Posts of a private account disappear once you stop following it
+        if (profile.is_private) router.refresh()
+      } else if (isRequested) {
+        // Withdraw the pending follow request
+        const { error } = await supabase
+          .from("follow_requests")
+          .delete()
+          .eq("requester_id", user.id)
+          .eq("target_id", profile.id)
+
+        if (error) throw error
+
+        setIsRequested(false)
+      } else if (profile.is_private) {
+        // Private accounts approve followers first
+        const { error } = await supabase.from("follow_requests").insert({
+          requester_id: user.id,
+          target_id: profile.id,
+        })
+
+        if (error) throw error
+
+        setIsRequested(true)
+
+        await supabase.from("notifications").insert({
+          user_id: profile.id,
+          type: "follow_request",
+          related_id: user.id,
+          from_user_id: user.id,
+          is_read: false,
+        })
       } else {
-        // Follow logic would go here
+        // Follow the user
+        const { error } = await supabase.from("follows").insert({
+          follower_id: user.id,
+          following_id: profile.id,
+        })
+
+        if (error) throw error
+
         setIsFollowing(true)
         setFollowersCount((prev) => prev + 1)
+
+        // Let the followed user know
+        await supabase.from("notifications").insert({
+          user_id: profile.id,
+          type: "follow",
+          related_id: user.id,
+          from_user_id: user.id,
+          is_read: false,
+        })
       }
     } catch (error) {
       console.error("Error toggling follow:", error)
+    } finally {
+      setIsFollowPending(false)
+    }
+  }
+
+  const handleBlockToggle = async () => {
+    if (!user || isCurrentUser) return
+
+    try {
+      if (isBlocking) {
+        await unblockUser(user.id, profile.id)
+        setIsBlocking(false)
+      } else {
+        if (
+          !confirm(
+            `Block ${profile.username}? You won't see each other's posts or comments, and they won't be able to follow or message you.`,
+          )
+        ) {
+          return
+        }
+
+        await blockUser(user.id, profile.id)
+        setIsBlocking(true)
+
+        // Blocking removes the follow in either direction
+        if (isFollowing) setFollowersCount((prev) => Math.max(prev - 1, 0))
+        setIsFollowing(false)
+        setIsRequested(false)
+      }
+
+      router.refresh()
+    } catch (error) {
+      console.error("Error toggling block:", error)
+      alert("Failed to update block")
+    }
+  }
+
+  const handleMuteToggle = async () => {
+    if (!user || isCurrentUser) return
+
+    try {
+      if (isMuted) {
+        await unmuteUser(user.id, profile.id)
+        setIsMuted(false)
+      } else {
+        await muteUser(user.id, profile.id)
+        setIsMuted(true)
+      }
+    } catch (error) {
+      console.error("Error toggling mute:", error)
+      alert("Failed to update mute")
     }
   }
 
@@ -106,13 +284,25 @@ export default function ProfileHeader({ profile, isCurrentUser }: ProfileHeaderP
     router.push(`/messages?user=${profile.id}`)
   }
 
+  const handleProfileSaved = () => {
+    setIsEditing(false)
+    router.refresh()
+  }
+
   return (
-    <div className="bg-white dark:bg-gray-800 rounded-lg shadow-md p-6 mt-6 animate-fade-in">
-      <div className="flex flex-col md:flex-row items-center md:items-start gap-6">
+    <div className="bg-white dark:bg-gray-800 rounded-lg shadow-md mt-6 overflow-hidden animate-fade-in">
+      {/* Banner */}
+      <div className="relative h-32 md:h-48 bg-gradient-to-r from-primary/30 to-primary/10">
+        {profile.banner_url && (
+          <Image src={profile.banner_url} alt="" fill priority className="object-cover" />
+        )}
+      </div>
+
+      <div className="flex flex-col md:flex-row items-center md:items-start gap-6 px-6 pb-6">
         {/* Avatar */}
-        <div className="relative">
+        <div className="relative -mt-16">
           <div
-            className={`w-32 h-32 rounded-full overflow-hidden ${isCurrentUser ? "cursor-pointer" : ""} ${isUploading ? "opacity-70" : ""}`}
+            className={`w-32 h-32 rounded-full overflow-hidden ring-4 ring-white dark:ring-gray-800 ${isCurrentUser ? "cursor-pointer" : ""} ${isUploading ? "opacity-70" : ""}`}
             onClick={handleAvatarClick}
           >
             {profile.avatar_url ? (
@@ -145,9 +335,56 @@ export default function ProfileHeader({ profile, isCurrentUser }: ProfileHeaderP
           <input type="file" ref={fileInputRef} onChange={handleAvatarChange} accept="image/*" className="hidden" />
         </div>
 
+        {cropFile && <AvatarCropper file={cropFile} onCancel={() => setCropFile(null)} onCrop={handleAvatarCrop} />}
+
+        {isEditing && (
+          <EditProfileDialog profile={profile} onClose={() => setIsEditing(false)} onSaved={handleProfileSaved} />
+        )}
+
+        {isReporting && (
+          <ReportDialog targetType="profile" targetId={profile.id} onClose={() => setIsReporting(false)} />
+        )}
+
         {/* Profile Info */}
-        <div className="flex-1 text-center md:text-left">
-          <h1 className="text-2xl font-bold text-gray-900 dark:text-white mb-2">{profile.username}</h1>
+        <div className="flex-1 text-center md:text-left md:pt-4">
+          <div className="mb-3">
+            <h1 className="text-2xl font-bold text-gray-900 dark:text-white break-words">
+              {profile.display_name || profile.username}
+              {profile.is_private && (
+                <Lock className="inline-block h-5 w-5 ml-2 text-gray-500 dark:text-gray-400" aria-label="Private account" />
+              )}
+            </h1>
+            <p className="text-gray-500 dark:text-gray-400">@{profile.username}</p>
+          </div>
+
+          {profile.bio && (
+            <RichText
+              content={profile.bio}
+              className="text-gray-800 dark:text-gray-200 whitespace-pre-line break-words mb-3"
+            />
+          )}
+
+          {(profile.website || profile.location) && (
+            <div className="flex flex-wrap justify-center md:justify-start gap-x-4 gap-y-1 text-sm text-gray-600 dark:text-gray-400 mb-4">
+              {profile.location && (
+                <span className="flex items-center">
+                  <MapPin className="h-4 w-4 mr-1" />
+                  {profile.location}
+                </span>
+              )}
+              {profile.website && (
+                <a
+                  href={profile.website}
+                  target="_blank"
+                  rel="noopener noreferrer nofollow"
+                  className="flex items-center text-primary hover:underline"
+                >
+                  <Link2 className="h-4 w-4 mr-1" />
+                  {profile.website.replace(/^https?:\/\//, "").replace(/\/$/, "")}
+                </a>
+              )}
+            </div>
+          )}
 
           <div className="flex flex-wrap justify-center md:justify-start gap-4 mb-4">
             <div className="text-center">
@@ -164,36 +401,89 @@ export default function ProfileHeader({ profile, isCurrentUser }: ProfileHeaderP
             </div>
           </div>
 
+          {isCurrentUser && (
+            <button
+              onClick={() => setIsEditing(true)}
+              className="inline-flex items-center space-x-1 px-4 py-2 bg-gray-200 dark:bg-gray-700 text-gray-800 dark:text-gray-200 rounded-md hover:bg-gray-300 dark:hover:bg-gray-600 transition-colors"
+            >
+              <Pencil className="h-4 w-4" />
+              <span>Edit Profile</span>
+            </button>
+          )}
+
           {!isCurrentUser && user && (
             <div className="flex flex-wrap justify-center md:justify-start gap-3">
-              <button
-                onClick={handleFollowToggle}
-                className={`flex items-center space-x-1 px-4 py-2 rounded-md transition-colors ${
-                  isFollowing
-                    ? "bg-gray-200 dark:bg-gray-700 text-gray-800 dark:text-gray-200"
-                    : "bg-primary text-white"
-                }`}
-              >
-                {isFollowing ? (
+              {isBlocking ? (
+                <button
+                  onClick={handleBlockToggle}
+                  className="flex items-center space-x-1 px-4 py-2 bg-red-500 text-white rounded-md hover:bg-red-600 transition-colors"
+                >
+                  <Ban className="h-5 w-5" />
+                  <span>Unblock</span>
+                </button>
+              ) : (
+                !isBlockedByProfile && (
                   <>
-                    <UserCheck className="h-5 w-5" />
-                    <span>Following</span>
-                  </>
-                ) : (
-                  <>
-                    <UserPlus className="h-5 w-5" />
-                    <span>Follow</span>
+                    <button
+                      onClick={handleFollowToggle}
+                      disabled={isFollowPending}
+                      className={`flex items-center space-x-1 px-4 py-2 rounded-md transition-colors disabled:opacity-70 ${
+                        isFollowing || isRequested
+                          ? "bg-gray-200 dark:bg-gray-700 text-gray-800 dark:text-gray-200"
+                          : "bg-primary text-white"
+                      }`}
+                    >
+                      {isFollowing ? (
+                        <>
+                          <UserCheck className="h-5 w-5" />
+                          <span>Following</span>
+                        </>
+                      ) : isRequested ? (
+                        <>
+                          <Clock className="h-5 w-5" />
+                          <span>Requested</span>
+                        </>
+                      ) : (
+                        <>
+                          <UserPlus className="h-5 w-5" />
+                          <span>Follow</span>
+                        </>
+                      )}
+                    </button>
+
+                    <button
+                      onClick={handleMessageClick}
+                      className="flex items-center space-x-1 px-4 py-2 bg-gray-200 dark:bg-gray-700 text-gray-800 dark:text-gray-200 rounded-md hover:bg-gray-300 dark:hover:bg-gray-600 transition-colors"
+                    >
+                      <MessageCircle className="h-5 w-5" />
+                      <span>Message</span>
+                    </button>
                   </>
-                )}
-              </button>
-
-              <button
-                onClick={handleMessageClick}
-                className="flex items-center space-x-1 px-4 py-2 bg-gray-200 dark:bg-gray-700 text-gray-800 dark:text-gray-200 rounded-md hover:bg-gray-300 dark:hover:bg-gray-600 transition-colors"
-              >
-                <MessageCircle className="h-5 w-5" />
-                <span>Message</span>
-              </button>
+                )
+              )}
+
+              <DropdownMenu>
+                <DropdownMenuTrigger
+                  className="p-2 rounded-md bg-gray-200 dark:bg-gray-700 text-gray-800 dark:text-gray-200 hover:bg-gray-300 dark:hover:bg-gray-600 transition-colors"
+                  aria-label="More options"
+                >
+                  <MoreHorizontal className="h-5 w-5" />
+                </DropdownMenuTrigger>
+                <DropdownMenuContent align="end">
+                  <DropdownMenuItem onSelect={handleMuteToggle}>
+                    {isMuted ? <Volume2 className="h-4 w-4 mr-2" /> : <VolumeX className="h-4 w-4 mr-2" />}
+                    <span>{isMuted ? "Unmute" : "Mute"}</span>
+                  </DropdownMenuItem>
+                  <DropdownMenuItem onSelect={handleBlockToggle} className="text-red-500 focus:text-red-500">
+                    <Ban className="h-4 w-4 mr-2" />
+                    <span>{isBlocking ? "Unblock" : "Block"}</span>
+                  </DropdownMenuItem>
+                  <DropdownMenuItem onSelect={() => setIsReporting(true)} className="text-red-500 focus:text-red-500">
+                    <Flag className="h-4 w-4 mr-2" />
+                    <span>Report</span>
+                  </DropdownMenuItem>
+                </DropdownMenuContent>
+              </DropdownMenu>
             </div>
           )}
         </div>
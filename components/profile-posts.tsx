@@ -1,129 +1,39 @@
 "use client"
 
-import { useEffect, useState } from "react"
-import { supabase } from "@/lib/supabase"
+import { togglePostLike, type Post, type PostsQuery } from "@/lib/posts"
+import { usePaginatedPosts } from "@/hooks/use-paginated-posts"
 import PostCard from "./post-card"
 import { useAuth } from "@/contexts/auth-context"
 
-type Post = {
-  id: string
-  content: string
-  image_url: string | null
-  created_at: string
-  user_id: string
-  profiles: {
-    username: string
-    avatar_url: string | null
-  }
-  likes_count: number
-  comments_count: number
-  user_has_liked: boolean
-}
-
 type ProfilePostsProps = {
   userId: string
 }
 
 export default function ProfilePosts({ userId }: ProfilePostsProps) {
-  const [posts, setPosts] = useState<Post[]>([])
-  const [loading, setLoading] = useState(true)
-  const [error, setError] = useState<string | null>(null)
   const { user } = useAuth()
-
-  useEffect(() => {
-    if (!user) return
-
-    const fetchPosts = async () => {
-      try {
-        const { data, error } = await supabase
-          .from("posts")
-          .select(`
-            *,
-            profiles:user_id(username, avatar_url),
-            likes_count:likes(count),
-            comments_count:comments(count),
-            user_has_liked:likes!inner(user_id)
-          `)
-          .eq("user_id", userId)
-          .order("created_at", { ascending: false })
-
-        if (error) throw error
-
-        // Transform the data to match our Post type
-        const transformedPosts = data.map((post) => ({
-          ...post,
-          profiles: post.profiles as any,
-          likes_count: post.likes_count[0]?.count || 0,
-          comments_count: post.comments_count[0]?.count || 0,
-          user_has_liked: post.user_has_liked.some((like: any) => like.user_id === user.id),
-        }))
-
-        setPosts(transformedPosts)
-      } catch (error: any) {
-        console.error("Error fetching posts:", error)
-        setError(error.message || "Failed to load posts")
-      } finally {
-        setLoading(false)
-      }
-    }
-
-    fetchPosts()
-  }, [userId, user])
+  const { posts, setPosts, loading, loadingMore, hasMore, error, loaderRef } = usePaginatedPosts({
+    key: userId,
+    filter: (query: PostsQuery) => query.eq("user_id", userId),
+  })
 
   const handlePostLike = async (postId: string) => {
     if (!user) return
 
-    const postIndex = posts.findIndex((post) => post.id === postId)
-    if (postIndex === -1) return
-
-    const post = posts[postIndex]
-    const newPosts = [...posts]
-
-    if (post.user_has_liked) {
-      // Unlike the post
-      const { error } = await supabase.from("likes").delete().eq("post_id", postId).eq("user_id", user.id)
-
-      if (error) {
-        console.error("Error unliking post:", error)
-        return
-      }
+    const post = posts.find((post) => post.id === postId)
+    if (!post) return
 
-      newPosts[postIndex] = {
-        ...post,
-        likes_count: post.likes_count - 1,
-        user_has_liked: false,
-      }
-    } else {
-      // Like the post
-      const { error } = await supabase.from("likes").insert({
-        post_id: postId,
-        user_id: user.id,
-      })
+    const updatedPost = await togglePostLike(post, user.id)
+    if (!updatedPost) return
 
-      if (error) {
-        console.error("Error liking post:", error)
-        return
-      }
-
-      newPosts[postIndex] = {
-        ...post,
-        likes_count: post.likes_count + 1,
-        user_has_liked: true,
-      }
+    setPosts((prevPosts) => prevPosts.map((p) => (p.id === postId ? updatedPost : p)))
+  }
 
-      // Create notification if the post is not by the current user
-      if (post.user_id !== user.id) {
-        await supabase.from("notifications").insert({
-          user_id: post.user_id,
-          type: "like",
-          related_id: postId,
-          from_user_id: user.id,
-          is_read: false,
-        })
-      }
-    }
+  const handlePostUpdate = (updatedPost: Post) => {
+    setPosts((prevPosts) => prevPosts.map((p) => (p.id === updatedPost.id ? updatedPost : p)))
+  }
 
-    setPosts(newPosts)
+  const handlePostDelete = (postId: string) => {
+    setPosts((prevPosts) => prevPosts.filter((p) => p.id !== postId))
   }
 
   if (loading) {
@@ -179,8 +89,22 @@ export default function ProfilePosts({ userId }: ProfilePostsProps) {
   return (
     <div className="space-y-6 mt-6 pb-6">
       {posts.map((post) => (
-        <PostCard key={post.id} post={post} onLike={handlePostLike} />
+        <PostCard
+          key={post.id}
+          post={post}
+          onLike={handlePostLike}
+          onUpdate={handlePostUpdate}
+          onDelete={handlePostDelete}
+        />
       ))}
+
+      {hasMore && (
+        <div ref={loaderRef} className="flex justify-center py-4">
+          {loadingMore && (
+            <div className="w-8 h-8 border-4 border-primary border-t-transparent rounded-full animate-spin"></div>
+          )}
+        </div>
+      )}
     </div>
   )
 }
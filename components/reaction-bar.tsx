@@ -0,0 +1,90 @@
+"use client"
+
+import { useState, useEffect } from "react"
+import { useAuth } from "@/contexts/auth-context"
+import { getReactors, summarizeReactions, type Reaction, type ReactionTargetType } from "@/lib/reactions"
+import { HoverCard, HoverCardContent, HoverCardTrigger } from "@/components/ui/hover-card"
+
+type ReactionBarProps = {
+  targetType: ReactionTargetType
+  targetId: string
+  reactions: Reaction[]
+  onToggle: (emoji: string) => void
+  className?: string
+}
+
+type ReactorsProps = {
+  targetType: ReactionTargetType
+  targetId: string
+  emoji: string
+}
+
+// Loaded when the card opens rather than with every post and message
+function Reactors({ targetType, targetId, emoji }: ReactorsProps) {
+  const [usernames, setUsernames] = useState<string[] | null>(null)
+
+  useEffect(() => {
+    let cancelled = false
+
+    getReactors(targetType, targetId, emoji)
+      .then((reactors) => {
+        if (!cancelled) setUsernames(reactors.map((reactor) => reactor.profiles?.username ?? "Unknown"))
+      })
+      .catch((error) => {
+        console.error("Error fetching reactions:", error)
+        if (!cancelled) setUsernames([])
+      })
+
+    return () => {
+      cancelled = true
+    }
+  }, [targetType, targetId, emoji])
+
+  if (!usernames) {
+    return <p className="text-sm text-gray-500 dark:text-gray-400">Loading...</p>
+  }
+
+  return (
+    <ul className="text-sm space-y-0.5 max-h-48 overflow-y-auto">
+      {usernames.map((username, index) => (
+        <li key={index}>{username}</li>
+      ))}
+    </ul>
+  )
+}
+
+export default function ReactionBar({ targetType, targetId, reactions, onToggle, className = "" }: ReactionBarProps) {
+  const { user } = useAuth()
+  const summaries = summarizeReactions(reactions, user?.id)
+
+  if (summaries.length === 0) return null
+
+  return (
+    <div className={`flex flex-wrap gap-1 ${className}`}>
+      {summaries.map((summary) => (
+        <HoverCard key={summary.emoji} openDelay={300}>
+          <HoverCardTrigger asChild>
+            <button
+              onClick={() => onToggle(summary.emoji)}
+              disabled={!user}
+              className={`flex items-center px-2 py-0.5 rounded-full border text-sm transition-colors ${
+                summary.reacted
+                  ? "border-primary bg-primary/10 text-primary"
+                  : "border-gray-200 dark:border-gray-600 text-gray-600 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-700"
+              }`}
+              aria-label={`${summary.emoji} ${summary.count}${summary.reacted ? ", including you" : ""}`}
+            >
+              <span className="mr-1">{summary.emoji}</span>
+              <span>{summary.count}</span>
+            </button>
+          </HoverCardTrigger>
+          <HoverCardContent className="w-auto min-w-32 p-3">
+            <p className="text-lg mb-1">{summary.emoji}</p>
+            {/* Keyed on the count so the list reloads when someone reacts while it's open */}
+            <Reactors key={summary.count} targetType={targetType} targetId={targetId} emoji={summary.emoji} />
+          </HoverCardContent>
+        </HoverCard>
+      ))}
+    </div>
+  )
+}
@@ -0,0 +1,52 @@
+"use client"
+
+import type React from "react"
+
+import { useState } from "react"
+import { SmilePlus } from "lucide-react"
+import { REACTION_EMOJIS } from "@/lib/reactions"
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover"
+
+type ReactionPickerProps = {
+  onSelect: (emoji: string) => void
+  className?: string
+  iconClassName?: string
+  align?: "start" | "center" | "end"
+  children?: React.ReactNode
+}
+
+export default function ReactionPicker({
+  onSelect,
+  className,
+  iconClassName = "h-5 w-5",
+  align = "center",
+  children,
+}: ReactionPickerProps) {
+  const [open, setOpen] = useState(false)
+
+  const handleSelect = (emoji: string) => {
+    setOpen(false)
+    onSelect(emoji)
+  }
+
+  return (
+    <Popover open={open} onOpenChange={setOpen}>
+      <PopoverTrigger className={className} aria-label="Add reaction">
+        <SmilePlus className={iconClassName} />
+        {children}
+      </PopoverTrigger>
+      <PopoverContent align={align} className="w-auto p-1 flex space-x-1 rounded-full">
+        {REACTION_EMOJIS.map((emoji) => (
+          <button
+            key={emoji}
+            onClick={() => handleSelect(emoji)}
+            className="text-xl p-1.5 rounded-full hover:bg-gray-100 dark:hover:bg-gray-700 hover:scale-125 transition-transform"
+            aria-label={`React with ${emoji}`}
+          >
+            {emoji}
+          </button>
+        ))}
+      </PopoverContent>
+    </Popover>
+  )
+}
@@ -0,0 +1,167 @@
+"use client"
+
+import type React from "react"
+
+import { useState } from "react"
+import { X } from "lucide-react"
+import { useAuth } from "@/contexts/auth-context"
+import {
+  REPORT_DETAILS_LIMIT,
+  REPORT_REASONS,
+  createReport,
+  type ReportReason,
+  type ReportTargetType,
+} from "@/lib/moderation"
+
+type ReportDialogProps = {
+  targetType: ReportTargetType
+  targetId: string
+  onClose: () => void
+}
+
+const TARGET_LABELS: Record<ReportTargetType, string> = {
+  post: "post",
+  comment: "comment",
+  message: "message",
+  profile: "account",
+}
+
+export default function ReportDialog({ targetType, targetId, onClose }: ReportDialogProps) {
+  const [reason, setReason] = useState<ReportReason | null>(null)
+  const [details, setDetails] = useState("")
+  const [isSubmitting, setIsSubmitting] = useState(false)
+  const [result, setResult] = useState<"submitted" | "duplicate" | null>(null)
+  const [error, setError] = useState<string | null>(null)
+  const { user } = useAuth()
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+    if (!user || !reason) return
+
+    if (reason === "other" && !details.trim()) {
+      setError("Please describe the problem")
+      return
+    }
+
+    setIsSubmitting(true)
+    setError(null)
+
+    try {
+      const created = await createReport(user.id, targetType, targetId, reason, details)
+      setResult(created ? "submitted" : "duplicate")
+    } catch (error: any) {
+      console.error("Error submitting report:", error)
+      setError(error.message || "Failed to submit report")
+    } finally {
+      setIsSubmitting(false)
+    }
+  }
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 z-50 flex justify-center items-center p-4">
+      <div className="bg-white dark:bg-gray-800 rounded-lg shadow-xl w-full max-w-md max-h-[90vh] overflow-hidden animate-fade-in">
+        <div className="p-4 border-b border-gray-200 dark:border-gray-700 flex justify-between items-center">
+          <h2 className="text-xl font-semibold">Report {TARGET_LABELS[targetType]}</h2>
+          <button
+            onClick={onClose}
+            disabled={isSubmitting}
+            className="p-2 rounded-full hover:bg-gray-100 dark:hover:bg-gray-700 transition-colors"
+          >
+            <X className="h-5 w-5" />
+          </button>
+        </div>
+
+        {result ? (
+          <div className="p-4 space-y-4">
+            <p className="text-gray-700 dark:text-gray-300">
+              {result === "submitted"
+                ? "Thanks for letting us know. Our moderators will review this report."
+                : `You've already reported this ${TARGET_LABELS[targetType]}. Our moderators will review it.`}
+            </p>
+            <div className="flex justify-end">
+              <button
+                onClick={onClose}
+                className="px-4 py-2 bg-primary text-white rounded-md hover:bg-primary/90 transition-colors"
+              >
+                Done
+              </button>
+            </div>
+          </div>
+        ) : (
+          <form onSubmit={handleSubmit} className="overflow-y-auto max-h-[calc(90vh-80px)]">
+            <div className="p-4 space-y-4">
+              <p className="text-sm text-gray-500 dark:text-gray-400">
+                Why are you reporting this {TARGET_LABELS[targetType]}?
+              </p>
+
+              <div className="space-y-2">
+                {REPORT_REASONS.map((option) => (
+                  <label
+                    key={option.value}
+                    className={`flex items-start p-3 border rounded-md cursor-pointer transition-colors ${
+                      reason === option.value
+                        ? "border-primary bg-primary/5"
+                        : "border-gray-200 dark:border-gray-700 hover:bg-gray-50 dark:hover:bg-gray-700/50"
+                    }`}
+                  >
+                    <input
+                      type="radio"
+                      name="reason"
+                      value={option.value}
+                      checked={reason === option.value}
+                      onChange={() => setReason(option.value)}
+                      className="mt-1 mr-3 accent-primary"
+                    />
+                    <span>
+                      <span className="block font-medium">{option.label}</span>
+                      <span className="block text-sm text-gray-500 dark:text-gray-400">{option.description}</span>
+                    </span>
+                  </label>
+                ))}
+              </div>
+
+              <div>
+                <div className="flex justify-between mb-1">
+                  <label htmlFor="details" className="block text-sm font-medium text-gray-700 dark:text-gray-300">
+                    Details {reason !== "other" && "(optional)"}
+                  </label>
+                  <span className="text-xs text-gray-500 dark:text-gray-400">
+                    {details.length}/{REPORT_DETAILS_LIMIT}
+                  </span>
+                </div>
+                <textarea
+                  id="details"
+                  value={details}
+                  onChange={(e) => setDetails(e.target.value)}
+                  maxLength={REPORT_DETAILS_LIMIT}
+                  className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-md focus:outline-none focus:ring-2 focus:ring-primary dark:bg-gray-700 dark:text-white resize-none"
+                  rows={3}
+                />
+              </div>
+
+              {error && <div className="text-red-500 text-sm">{error}</div>}
+            </div>
+
+            <div className="p-4 border-t border-gray-200 dark:border-gray-700 flex justify-end space-x-2">
+              <button
+                type="button"
+                onClick={onClose}
+                disabled={isSubmitting}
+                className="px-4 py-2 text-gray-700 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-700 rounded-md transition-colors"
+              >
+                Cancel
+              </button>
+              <button
+                type="submit"
+                disabled={isSubmitting || !reason}
+                className="px-4 py-2 bg-red-500 text-white rounded-md hover:bg-red-600 transition-colors disabled:opacity-70"
+              >
+                {isSubmitting ? "Submitting..." : "Report"}
+              </button>
+            </div>
+          </form>
+        )}
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,50 @@
+import Link from "next/link"
+import { parseContent } from "@/lib/rich-text"
+
+type RichTextProps = {
+  content: string
+  className?: string
+  linkClassName?: string
+}
+
+// Renders stored content with URLs, hashtags and mentions as links
+export default function RichText({
+  content,
+  className = "text-gray-800 dark:text-gray-200 whitespace-pre-line break-words",
+  linkClassName = "text-primary hover:underline",
+}: RichTextProps) {
+  return (
+    <p className={className}>
+      {parseContent(content).map((segment, index) => {
+        switch (segment.type) {
+          case "url":
+            return (
+              <a
+                key={index}
+                href={segment.href}
+                target="_blank"
+                rel="noopener noreferrer nofollow"
+                className={linkClassName}
+              >
+                {segment.text}
+              </a>
+            )
+          case "hashtag":
+            return (
+              <Link key={index} href={`/tag/${segment.tag}`} className={linkClassName}>
+                {segment.text}
+              </Link>
+            )
+          case "mention":
+            return (
+              <Link key={index} href={`/profile/${segment.userId}`} className={linkClassName}>
+                {segment.text}
+              </Link>
+            )
+          default:
+            return segment.text
+        }
+      })}
+    </p>
+  )
+}
@@ -0,0 +1,242 @@
+"use client"
+
+import type React from "react"
+
+import { useState, useEffect } from "react"
+import Link from "next/link"
+import Image from "next/image"
+import { formatDistanceToNow } from "date-fns"
+import { Search as SearchIcon } from "lucide-react"
+import { searchProfiles } from "@/lib/profiles"
+import { parseSnippet, searchPosts, searchTags, SEARCH_PAGE_SIZE } from "@/lib/search"
+import { useSearchResults } from "@/hooks/use-search-results"
+
+type SearchTab = "people" | "posts" | "tags"
+
+const searchTabs: { value: SearchTab; label: string; placeholder: string }[] = [
+  { value: "people", label: "People", placeholder: "Search by username..." },
+  { value: "posts", label: "Posts", placeholder: "Search posts..." },
+  { value: "tags", label: "Tags", placeholder: "Search tags..." },
+]
+
+const searchPeople = (query: string, offset: number) =>
+  searchProfiles(query, { limit: SEARCH_PAGE_SIZE, offset })
+
+function Avatar({ username, avatarUrl, size }: { username: string; avatarUrl: string | null; size: number }) {
+  return avatarUrl ? (
+    <Image
+      src={avatarUrl || "/placeholder.svg"}
+      alt={username}
+      width={size}
+      height={size}
+      className="rounded-full object-cover flex-shrink-0"
+    />
+  ) : (
+    <div
+      className="bg-primary/20 rounded-full flex items-center justify-center text-primary font-semibold text-lg flex-shrink-0"
+      style={{ width: size, height: size }}
+    >
+      {username.charAt(0).toUpperCase()}
+    </div>
+  )
+}
+
+type ResultsStateProps = {
+  query: string
+  loading: boolean
+  loadingMore: boolean
+  hasMore: boolean
+  error: string | null
+  isEmpty: boolean
+  emptyLabel: string
+  loaderRef: (element: HTMLElement | null) => void
+  children: React.ReactNode
+}
+
+// Loading, error, empty and load-more states shared by every tab
+function ResultsState({
+  query,
+  loading,
+  loadingMore,
+  hasMore,
+  error,
+  isEmpty,
+  emptyLabel,
+  loaderRef,
+  children,
+}: ResultsStateProps) {
+  if (loading) {
+    return (
+      <div className="flex justify-center py-8">
+        <div className="w-8 h-8 border-4 border-primary border-t-transparent rounded-full animate-spin"></div>
+      </div>
+    )
+  }
+
+  if (error) {
+    return <div className="text-center py-8 text-red-500">{error}</div>
+  }
+
+  if (query && isEmpty) {
+    return (
+      <div className="text-center py-8 text-gray-500 dark:text-gray-400">
+        No {emptyLabel} found matching &quot;{query}&quot;
+      </div>
+    )
+  }
+
+  return (
+    <>
+      {children}
+      {hasMore && (
+        <div ref={loaderRef} className="flex justify-center py-4">
+          {loadingMore && (
+            <div className="w-8 h-8 border-4 border-primary border-t-transparent rounded-full animate-spin"></div>
+          )}
+        </div>
+      )}
+    </>
+  )
+}
+
+function PeopleResults({ query }: { query: string }) {
+  const { results, ...state } = useSearchResults({ query, search: searchPeople })
+
+  return (
+    <ResultsState query={query} isEmpty={results.length === 0} emptyLabel="users" {...state}>
+      <div className="space-y-4">
+        {results.map((user) => (
+          <Link
+            key={user.id}
+            href={`/profile/${user.id}`}
+            className="flex items-center p-3 rounded-md hover:bg-gray-100 dark:hover:bg-gray-700 transition-colors"
+          >
+            <Avatar username={user.username} avatarUrl={user.avatar_url} size={48} />
+            <div className="ml-3">
+              <h3 className="font-medium text-gray-900 dark:text-white">{user.username}</h3>
+            </div>
+          </Link>
+        ))}
+      </div>
+    </ResultsState>
+  )
+}
+
+function PostResults({ query }: { query: string }) {
+  const { results, ...state } = useSearchResults({ query, search: searchPosts })
+
+  return (
+    <ResultsState query={query} isEmpty={results.length === 0} emptyLabel="posts" {...state}>
+      <div className="divide-y divide-gray-200 dark:divide-gray-700">
+        {results.map((post) => (
+          <Link
+            key={post.id}
+            href={`/post/${post.id}`}
+            className="flex items-start p-3 rounded-md hover:bg-gray-100 dark:hover:bg-gray-700 transition-colors"
+          >
+            <Avatar username={post.username} avatarUrl={post.avatar_url} size={40} />
+            <div className="ml-3 min-w-0">
+              <div className="flex items-center space-x-2">
+                <span className="font-medium text-gray-900 dark:text-white">{post.username}</span>
+                <span className="text-xs text-gray-500 dark:text-gray-400">
+                  {formatDistanceToNow(new Date(post.created_at), { addSuffix: true })}
+                </span>
+              </div>
+              <p className="text-gray-700 dark:text-gray-300 break-words">
+                {parseSnippet(post.snippet).map((part, index) =>
+                  part.highlighted ? (
+                    <mark key={index} className="bg-primary/20 text-inherit rounded px-0.5">
+                      {part.text}
+                    </mark>
+                  ) : (
+                    part.text
+                  ),
+                )}
+              </p>
+            </div>
+          </Link>
+        ))}
+      </div>
+    </ResultsState>
+  )
+}
+
+function TagResults({ query }: { query: string }) {
+  const { results, ...state } = useSearchResults({ query, search: searchTags })
+
+  return (
+    <ResultsState query={query} isEmpty={results.length === 0} emptyLabel="tags" {...state}>
+      <ul className="divide-y divide-gray-200 dark:divide-gray-700">
+        {results.map(({ tag, post_count }) => (
+          <li key={tag}>
+            <Link
+              href={`/tag/${tag}`}
+              className="flex items-center justify-between p-3 rounded-md hover:bg-gray-100 dark:hover:bg-gray-700 transition-colors"
+            >
+              <span className="font-medium text-primary">#{tag}</span>
+              <span className="text-sm text-gray-500 dark:text-gray-400">
+                {post_count} {post_count === 1 ? "post" : "posts"}
+              </span>
+            </Link>
+          </li>
+        ))}
+      </ul>
+    </ResultsState>
+  )
+}
+
+export default function Search() {
+  const [tab, setTab] = useState<SearchTab>("people")
+  const [query, setQuery] = useState("")
+  const [debouncedQuery, setDebouncedQuery] = useState("")
+
+  // Debounce search query
+  useEffect(() => {
+    const timer = setTimeout(() => {
+      setDebouncedQuery(query.trim())
+    }, 300)
+
+    return () => clearTimeout(timer)
+  }, [query])
+
+  const activeTab = searchTabs.find((searchTab) => searchTab.value === tab)!
+
+  return (
+    <div className="bg-white dark:bg-gray-800 rounded-lg shadow-md p-6 mt-6 animate-fade-in">
+      <h1 className="text-2xl font-bold mb-6">Search</h1>
+
+      <div className="relative mb-4">
+        <div className="absolute inset-y-0 left-0 pl-3 flex items-center pointer-events-none">
+          <SearchIcon className="h-5 w-5 text-gray-400" />
+        </div>
+        <input
+          type="text"
+          value={query}
+          onChange={(e) => setQuery(e.target.value)}
+          placeholder={activeTab.placeholder}
+          className="w-full pl-10 pr-4 py-2 border border-gray-300 dark:border-gray-600 rounded-md focus:outline-none focus:ring-2 focus:ring-primary dark:bg-gray-700 dark:text-white"
+        />
+      </div>
+
+      <div className="flex bg-gray-100 dark:bg-gray-700/50 rounded-lg p-1 mb-6">
+        {searchTabs.map((searchTab) => (
+          <button
+            key={searchTab.value}
+            onClick={() => setTab(searchTab.value)}
+            className={`flex-1 px-4 py-2 rounded-md text-sm font-medium transition-colors ${
+              tab === searchTab.value
+                ? "bg-primary text-white"
+                : "text-gray-600 dark:text-gray-300 hover:bg-gray-200 dark:hover:bg-gray-700"
+            }`}
+          >
+            {searchTab.label}
+          </button>
+        ))}
+      </div>
+
+      {tab === "people" && <PeopleResults query={debouncedQuery} />}
+      {tab === "posts" && <PostResults query={debouncedQuery} />}
+      {tab === "tags" && <TagResults query={debouncedQuery} />}
+    </div>
+  )
+}
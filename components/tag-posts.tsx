@@ -0,0 +1,110 @@
+"use client"
+
+import { togglePostLike, type Post, type PostsQuery } from "@/lib/posts"
+import { usePaginatedPosts } from "@/hooks/use-paginated-posts"
+import PostCard from "./post-card"
+import { useAuth } from "@/contexts/auth-context"
+
+type TagPostsProps = {
+  tag: string
+}
+
+export default function TagPosts({ tag }: TagPostsProps) {
+  const { user } = useAuth()
+  const { posts, setPosts, loading, loadingMore, hasMore, error, loaderRef } = usePaginatedPosts({
+    key: tag,
+    embed: "post_tags!inner(tag)",
+    filter: (query: PostsQuery) => query.eq("post_tags.tag", tag),
+  })
+
+  const handlePostLike = async (postId: string) => {
+    if (!user) return
+
+    const post = posts.find((post) => post.id === postId)
+    if (!post) return
+
+    const updatedPost = await togglePostLike(post, user.id)
+    if (!updatedPost) return
+
+    setPosts((prevPosts) => prevPosts.map((p) => (p.id === postId ? updatedPost : p)))
+  }
+
+  const handlePostUpdate = (updatedPost: Post) => {
+    setPosts((prevPosts) => prevPosts.map((p) => (p.id === updatedPost.id ? updatedPost : p)))
+  }
+
+  const handlePostDelete = (postId: string) => {
+    setPosts((prevPosts) => prevPosts.filter((p) => p.id !== postId))
+  }
+
+  if (loading) {
+    return (
+      <div className="space-y-4 mt-6">
+        {[...Array(3)].map((_, i) => (
+          <div key={i} className="bg-white dark:bg-gray-800 rounded-lg shadow-md p-4 animate-pulse-slow">
+            <div className="flex items-center space-x-4 mb-4">
+              <div className="w-12 h-12 bg-gray-300 dark:bg-gray-600 rounded-full"></div>
+              <div className="flex-1">
+                <div className="h-4 bg-gray-300 dark:bg-gray-600 rounded w-1/4 mb-2"></div>
+                <div className="h-3 bg-gray-200 dark:bg-gray-700 rounded w-1/6"></div>
+              </div>
+            </div>
+            <div className="mb-4">
+              <div className="h-4 bg-gray-300 dark:bg-gray-600 rounded w-full mb-2"></div>
+              <div className="h-4 bg-gray-300 dark:bg-gray-600 rounded w-5/6 mb-2"></div>
+              <div className="h-4 bg-gray-300 dark:bg-gray-600 rounded w-3/4"></div>
+            </div>
+            <div className="h-40 bg-gray-200 dark:bg-gray-700 rounded-md mb-4"></div>
+            <div className="flex justify-between">
+              <div className="h-8 bg-gray-300 dark:bg-gray-600 rounded w-1/4"></div>
+              <div className="h-8 bg-gray-300 dark:bg-gray-600 rounded w-1/4"></div>
+            </div>
+          </div>
+        ))}
+      </div>
+    )
+  }
+
+  if (error) {
+    return (
+      <div className="bg-red-100 dark:bg-red-900/30 text-red-700 dark:text-red-400 p-4 rounded-md mt-6">
+        <p>{error}</p>
+        <button onClick={() => window.location.reload()} className="mt-2 text-sm font-medium underline">
+          Try again
+        </button>
+      </div>
+    )
+  }
+
+  if (posts.length === 0) {
+    return (
+      <div className="bg-white dark:bg-gray-800 rounded-lg shadow-md p-8 text-center mt-6">
+        <h3 className="text-xl font-semibold mb-2">No posts yet</h3>
+        <p className="text-gray-600 dark:text-gray-400 mb-4">Nobody has posted with #{tag} yet.</p>
+      </div>
+    )
+  }
+
+  return (
+    <div className="space-y-6 mt-6 pb-6">
+      {posts.map((post) => (
+        <PostCard
+          key={post.id}
+          post={post}
+          onLike={handlePostLike}
+          onUpdate={handlePostUpdate}
+          onDelete={handlePostDelete}
+        />
+      ))}
+
+      {hasMore && (
+        <div ref={loaderRef} className="flex justify-center py-4">
+          {loadingMore && (
+            <div className="w-8 h-8 border-4 border-primary border-t-transparent rounded-full animate-spin"></div>
+          )}
+        </div>
+      )}
+    </div>
+  )
+}
+
@@ -0,0 +1,40 @@
+import Link from "next/link"
+import { TrendingUp } from "lucide-react"
+
+type TrendingTagsProps = {
+  tags: {
+    tag: string
+    post_count: number
+  }[]
+}
+
+export default function TrendingTags({ tags }: TrendingTagsProps) {
+  return (
+    <div className="bg-white dark:bg-gray-800 rounded-lg shadow-md p-6 mt-6 animate-fade-in">
+      <h2 className="text-xl font-semibold mb-4 flex items-center">
+        <TrendingUp className="h-5 w-5 mr-2 text-primary" />
+        Trending Today
+      </h2>
+
+      {tags.length === 0 ? (
+        <p className="text-gray-500 dark:text-gray-400">No tags have been used in the last 24 hours.</p>
+      ) : (
+        <ul className="divide-y divide-gray-200 dark:divide-gray-700">
+          {tags.map(({ tag, post_count }) => (
+            <li key={tag}>
+              <Link
+                href={`/tag/${tag}`}
+                className="flex items-center justify-between py-2 px-2 -mx-2 rounded-md hover:bg-gray-100 dark:hover:bg-gray-700 transition-colors"
+              >
+                <span className="font-medium text-primary">#{tag}</span>
+                <span className="text-sm text-gray-500 dark:text-gray-400">
+                  {post_count} {post_count === 1 ? "post" : "posts"}
+                </span>
+              </Link>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  )
+}
@@ -6,10 +6,13 @@ import { supabase } from "@/lib/supabase"
 import type { Provider, Session, User, AuthError } from "@supabase/supabase-js"
 import { useRouter } from "next/navigation"
 import { getURL } from "@/lib/utils/get-url"
+import { isUsernameAvailable } from "@/lib/profiles"
+import { getRoleFromAccessToken, type UserRole } from "@/lib/roles"
 
 type AuthContextType = {
   user: User | null
   session: Session | null
+  role: UserRole
   isLoading: boolean
   signUp: (email: string, password: string, username: string) => Promise<void>
   signIn: (email: string, password: string) => Promise<{ error?: AuthError }>
@@ -130,13 +133,16 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
         return
       }
 
-      // Generate a username from email or name
+      // Generate a username from email or name, keeping to the characters allowed when changing it later
       let username = ""
       if (user.user_metadata && user.user_metadata.full_name) {
-        username = user.user_metadata.full_name.replace(/\s+/g, "").toLowerCase()
+        username = user.user_metadata.full_name.toLowerCase()
       } else if (user.email) {
         username = user.email.split("@")[0]
-      } else {
+      }
+
+      username = username.replace(/[^A-Za-z0-9_.]/g, "").slice(0, 26)
+      if (username.length < 3) {
         username = `user${Math.floor(Math.random() * 10000)}`
       }
 
@@ -163,6 +169,13 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
     setIsLoading(true)
 
     try {
+      // Handles that were recently given up stay reserved for their previous owner.
+      // If the check itself fails, let the profile insert below decide
+      const available = await isUsernameAvailable(username).catch(() => true)
+      if (!available) {
+        throw new Error("This username is taken. Please choose another one.")
+      }
+
       const { data, error: signUpError } = await supabase.auth.signUp({
         email,
         password,
@@ -309,6 +322,8 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
   const value = {
     user,
     session,
+    // From the access token's claims, so a role change shows up once the token refreshes
+    role: getRoleFromAccessToken(session?.access_token),
     isLoading,
     signUp,
     signIn,
@@ -0,0 +1,74 @@
+"use client"
+
+import type React from "react"
+
+import { createContext, useContext, useEffect, useState } from "react"
+import { supabase } from "@/lib/supabase"
+import { useAuth } from "./auth-context"
+
+type PresenceContextType = {
+  onlineUserIds: Set<string>
+}
+
+const PresenceContext = createContext<PresenceContextType | undefined>(undefined)
+
+// How often an open tab refreshes the user's last seen time
+const LAST_SEEN_INTERVAL = 60 * 1000
+
+const touchLastSeen = () => {
+  supabase.rpc("touch_last_seen").then(({ error }) => {
+    if (error) console.error("Error updating last seen:", error)
+  })
+}
+
+export function PresenceProvider({ children }: { children: React.ReactNode }) {
+  const [onlineUserIds, setOnlineUserIds] = useState<Set<string>>(new Set())
+  const { user } = useAuth()
+
+  useEffect(() => {
+    if (!user) {
+      setOnlineUserIds(new Set())
+      return
+    }
+
+    // One presence entry per signed-in user, shared by all their tabs
+    const channel = supabase.channel("online", { config: { presence: { key: user.id } } })
+
+    channel
+      .on("presence", { event: "sync" }, () => {
+        setOnlineUserIds(new Set(Object.keys(channel.presenceState())))
+      })
+      .subscribe((status) => {
+        if (status === "SUBSCRIBED") {
+          channel.track({ online_at: new Date().toISOString() })
+        }
+      })
+
+    touchLastSeen()
+    const interval = setInterval(() => {
+      if (document.visibilityState === "visible") touchLastSeen()
+    }, LAST_SEEN_INTERVAL)
+
+    // Catch the moment the user leaves, so "last seen" isn't up to a minute behind
+    const handleVisibilityChange = () => {
+      if (document.visibilityState === "hidden") touchLastSeen()
+    }
+    document.addEventListener("visibilitychange", handleVisibilityChange)
+
+    return () => {
+      clearInterval(interval)
+      document.removeEventListener("visibilitychange", handleVisibilityChange)
+      channel.unsubscribe()
+    }
+  }, [user])
+
+  return <PresenceContext.Provider value={{ onlineUserIds }}>{children}</PresenceContext.Provider>
+}
+
+export const usePresence = () => {
+  const context = useContext(PresenceContext)
+  if (context === undefined) {
+    throw new Error("usePresence must be used within a PresenceProvider")
+  }
+  return context
+}
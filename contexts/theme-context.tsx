@@ -3,38 +3,83 @@
 import type React from "react"
 
 import { createContext, useContext, useEffect, useState } from "react"
+import { useAuth } from "./auth-context"
+import { getUserSettings, updateUserSettings, type ThemePreference } from "@/lib/settings"
 
 type Theme = "light" | "dark"
 
 type ThemeContextType = {
   theme: Theme
+  preference: ThemePreference
+  setPreference: (preference: ThemePreference) => void
   toggleTheme: () => void
 }
 
 const ThemeContext = createContext<ThemeContextType | undefined>(undefined)
 
+const isThemePreference = (value: string | null): value is ThemePreference =>
+  value === "light" || value === "dark" || value === "system"
+
 export function ThemeProvider({ children }: { children: React.ReactNode }) {
   const [theme, setTheme] = useState<Theme>("light")
+  const [preference, setPreferenceState] = useState<ThemePreference>("system")
+  const { user } = useAuth()
 
+  // localStorage keeps the first paint right; the saved setting takes over once it loads
   useEffect(() => {
-    const storedTheme = localStorage.getItem("theme") as Theme | null
-    if (storedTheme) {
-      setTheme(storedTheme)
-      document.documentElement.classList.toggle("dark", storedTheme === "dark")
-    } else if (window.matchMedia("(prefers-color-scheme: dark)").matches) {
-      setTheme("dark")
-      document.documentElement.classList.add("dark")
+    const storedPreference = localStorage.getItem("theme")
+    if (isThemePreference(storedPreference)) {
+      setPreferenceState(storedPreference)
     }
   }, [])
 
+  useEffect(() => {
+    if (!user) return
+
+    getUserSettings(user.id)
+      .then((settings) => {
+        setPreferenceState(settings.theme)
+        localStorage.setItem("theme", settings.theme)
+      })
+      .catch((error) => console.error("Error loading theme setting:", error))
+  }, [user])
+
+  // Apply the preference, following the OS setting while it's "system"
+  useEffect(() => {
+    const media = window.matchMedia("(prefers-color-scheme: dark)")
+
+    const apply = () => {
+      const resolved = preference === "system" ? (media.matches ? "dark" : "light") : preference
+      setTheme(resolved)
+      document.documentElement.classList.toggle("dark", resolved === "dark")
+    }
+
+    apply()
+
+    if (preference !== "system") return
+
+    media.addEventListener("change", apply)
+    return () => media.removeEventListener("change", apply)
+  }, [preference])
+
+  const setPreference = (newPreference: ThemePreference) => {
+    setPreferenceState(newPreference)
+    localStorage.setItem("theme", newPreference)
+
+    if (user) {
+      updateUserSettings(user.id, { theme: newPreference }).catch((error) =>
+        console.error("Error saving theme setting:", error),
+      )
+    }
+  }
+
   const toggleTheme = () => {
-    const newTheme = theme === "light" ? "dark" : "light"
-    setTheme(newTheme)
-    localStorage.setItem("theme", newTheme)
-    document.documentElement.classList.toggle("dark", newTheme === "dark")
+    setPreference(theme === "light" ? "dark" : "light")
   }
 
-  return <ThemeContext.Provider value={{ theme, toggleTheme }}>{children}</ThemeContext.Provider>
+  return (
+    <ThemeContext.Provider value={{ theme, preference, setPreference, toggleTheme }}>{children}</ThemeContext.Provider>
+  )
 }
 
 export const useTheme = () => {
@@ -44,4 +89,3 @@ export const useTheme = () => {
   }
   return context
 }
-
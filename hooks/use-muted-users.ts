@@ -0,0 +1,36 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import { useAuth } from "@/contexts/auth-context"
+import { getMutedUserIds } from "@/lib/blocks"
+
+/**
+ * Ids of the users the current user has muted, or null while they load.
+ * Muting is one-sided, so unlike blocks it's applied on the client rather than by RLS.
+ */
+export function useMutedUsers() {
+  const [mutedIds, setMutedIds] = useState<Set<string> | null>(null)
+  const { user } = useAuth()
+
+  useEffect(() => {
+    if (!user) return
+
+    let cancelled = false
+
+    getMutedUserIds(user.id)
+      .then((ids) => {
+        if (!cancelled) setMutedIds(new Set(ids))
+      })
+      .catch((error) => {
+        console.error("Error fetching muted users:", error)
+        // Show everything rather than nothing if mutes can't be loaded
+        if (!cancelled) setMutedIds(new Set())
+      })
+
+    return () => {
+      cancelled = true
+    }
+  }, [user])
+
+  return mutedIds
+}
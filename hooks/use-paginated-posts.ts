@@ -0,0 +1,142 @@
+"use client"
+
+import { useCallback, useEffect, useRef, useState } from "react"
+import { useAuth } from "@/contexts/auth-context"
+import { POSTS_PAGE_SIZE, postsQuery, toPost, type Post, type PostCursor, type PostsQuery } from "@/lib/posts"
+
+type UsePaginatedPostsOptions = {
+  // Discards loaded pages and starts again from the newest post when it changes
+  key: string
+  // Narrows the posts query; returning null means there is nothing to load
+  filter?: (query: PostsQuery) => PostsQuery | null
+  // Related tables to embed so the filter can reference them
+  embed?: string
+  enabled?: boolean
+}
+
+export function usePaginatedPosts({ key, filter, embed, enabled = true }: UsePaginatedPostsOptions) {
+  const [posts, setPosts] = useState<Post[]>([])
+  const [loading, setLoading] = useState(true)
+  const [loadingMore, setLoadingMore] = useState(false)
+  const [hasMore, setHasMore] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+  const [loader, setLoader] = useState<HTMLElement | null>(null)
+  const { user } = useAuth()
+
+  const filterRef = useRef(filter)
+  filterRef.current = filter
+  const embedRef = useRef(embed)
+  embedRef.current = embed
+  const cursorRef = useRef<PostCursor | null>(null)
+  const isFetchingRef = useRef(false)
+  // Bumped on every reset so responses for a previous key are dropped
+  const generationRef = useRef(0)
+
+  const fetchPage = useCallback(async () => {
+    if (!user || isFetchingRef.current) return
+
+    const generation = generationRef.current
+    const cursor = cursorRef.current
+    isFetchingRef.current = true
+    if (cursor) setLoadingMore(true)
+
+    try {
+      let query: PostsQuery | null = postsQuery(embedRef.current)
+      query = filterRef.current ? filterRef.current(query) : query
+
+      if (!query) {
+        if (generation !== generationRef.current) return
+        setPosts([])
+        setHasMore(false)
+        return
+      }
+
+      if (cursor) {
+        query = query.or(
+          `created_at.lt."${cursor.created_at}",and(created_at.eq."${cursor.created_at}",id.lt.${cursor.id})`,
+        )
+      }
+
+      const { data, error } = await query
+        .order("created_at", { ascending: false })
+        .order("id", { ascending: false })
+        .limit(POSTS_PAGE_SIZE)
+
+      if (error) throw error
+      if (generation !== generationRef.current) return
+
+      const page = data.map((row) => toPost(row, user.id))
+      const last = page[page.length - 1]
+
+      if (last) {
+        cursorRef.current = { id: last.id, created_at: last.created_at }
+      }
+
+      // Posts that arrived through realtime while this page was loading are already in the list
+      setPosts((prevPosts) => {
+        const seen = new Set(prevPosts.map((post) => post.id))
+        return [...prevPosts, ...page.filter((post) => !seen.has(post.id))]
+      })
+      setHasMore(page.length === POSTS_PAGE_SIZE)
+    } catch (error: any) {
+      if (generation !== generationRef.current) return
+      console.error("Error fetching posts:", error)
+      setError(error.message || "Failed to load posts")
+    } finally {
+      if (generation === generationRef.current) {
+        isFetchingRef.current = false
+        setLoading(false)
+        setLoadingMore(false)
+      }
+    }
+  }, [user])
+
+  useEffect(() => {
+    generationRef.current += 1
+    cursorRef.current = null
+    isFetchingRef.current = false
+    setPosts([])
+    setHasMore(true)
+    setError(null)
+    setLoading(true)
+    setLoadingMore(false)
+
+    if (!enabled) return
+
+    fetchPage()
+  }, [key, enabled, fetchPage])
+
+  // Load the next page once the loader element scrolls into view
+  useEffect(() => {
+    if (!loader || !hasMore || loading || error) return
+
+    const observer = new IntersectionObserver(
+      (entries) => {
+        if (entries[0]?.isIntersecting) {
+          fetchPage()
+        }
+      },
+      { rootMargin: "200px" },
+    )
+
+    observer.observe(loader)
+
+    return () => observer.disconnect()
+  }, [loader, hasMore, loading, error, fetchPage])
+
+  // Add a post received outside of paging (e.g. realtime), ignoring ones already listed
+  const addPost = useCallback((post: Post) => {
+    setPosts((prevPosts) => (prevPosts.some((p) => p.id === post.id) ? prevPosts : [post, ...prevPosts]))
+  }, [])
+
+  return {
+    posts,
+    setPosts,
+    loading,
+    loadingMore,
+    hasMore,
+    error,
+    addPost,
+    loaderRef: setLoader,
+  }
+}
@@ -0,0 +1,95 @@
+"use client"
+
+import { useCallback, useEffect, useRef, useState } from "react"
+import { SEARCH_PAGE_SIZE } from "@/lib/search"
+
+type UseSearchResultsOptions<T> = {
+  // Already debounced; an empty query clears the results
+  query: string
+  search: (query: string, offset: number) => Promise<T[]>
+}
+
+export function useSearchResults<T>({ query, search }: UseSearchResultsOptions<T>) {
+  const [results, setResults] = useState<T[]>([])
+  const [loading, setLoading] = useState(false)
+  const [loadingMore, setLoadingMore] = useState(false)
+  const [hasMore, setHasMore] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const [loader, setLoader] = useState<HTMLElement | null>(null)
+
+  const searchRef = useRef(search)
+  searchRef.current = search
+  const offsetRef = useRef(0)
+  const isFetchingRef = useRef(false)
+  // Bumped on every new query so responses for an older one are dropped
+  const generationRef = useRef(0)
+
+  const fetchPage = useCallback(async () => {
+    const term = query.trim()
+    if (!term || isFetchingRef.current) return
+
+    const generation = generationRef.current
+    const offset = offsetRef.current
+    isFetchingRef.current = true
+    if (offset > 0) setLoadingMore(true)
+
+    try {
+      const page = await searchRef.current(term, offset)
+      if (generation !== generationRef.current) return
+
+      offsetRef.current = offset + page.length
+      setResults((prevResults) => (offset === 0 ? page : [...prevResults, ...page]))
+      setHasMore(page.length === SEARCH_PAGE_SIZE)
+    } catch (error: any) {
+      if (generation !== generationRef.current) return
+      console.error("Error searching:", error)
+      setError(error.message || "Search failed")
+    } finally {
+      if (generation === generationRef.current) {
+        isFetchingRef.current = false
+        setLoading(false)
+        setLoadingMore(false)
+      }
+    }
+  }, [query])
+
+  useEffect(() => {
+    generationRef.current += 1
+    offsetRef.current = 0
+    isFetchingRef.current = false
+    setResults([])
+    setHasMore(false)
+    setError(null)
+    setLoadingMore(false)
+    setLoading(!!query.trim())
+
+    fetchPage()
+  }, [fetchPage, query])
+
+  // Load the next page once the loader element scrolls into view
+  useEffect(() => {
+    if (!loader || !hasMore || loading || error) return
+
+    const observer = new IntersectionObserver(
+      (entries) => {
+        if (entries[0]?.isIntersecting) {
+          fetchPage()
+        }
+      },
+      { rootMargin: "200px" },
+    )
+
+    observer.observe(loader)
+
+    return () => observer.disconnect()
+  }, [loader, hasMore, loading, error, fetchPage])
+
+  return {
+    results,
+    loading,
+    loadingMore,
+    hasMore,
+    error,
+    loaderRef: setLoader,
+  }
+}
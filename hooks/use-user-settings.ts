@@ -0,0 +1,33 @@
+"use client"
+
+import { useState } from "react"
+import { useAuth } from "@/contexts/auth-context"
+import { updateUserSettings, type UserSettings } from "@/lib/settings"
+
+/**
+ * Local copy of the current user's settings that saves each change as it's made.
+ * Changes show immediately and are rolled back if saving fails.
+ */
+export function useUserSettings(initialSettings: UserSettings) {
+  const [settings, setSettings] = useState(initialSettings)
+  const [error, setError] = useState<string | null>(null)
+  const { user } = useAuth()
+
+  const update = async (changes: Partial<UserSettings>) => {
+    if (!user) return
+
+    const previous = settings
+    setSettings((current) => ({ ...current, ...changes }))
+    setError(null)
+
+    try {
+      await updateUserSettings(user.id, changes)
+    } catch (error) {
+      console.error("Error saving settings:", error)
+      setSettings(previous)
+      setError("Failed to save your settings")
+    }
+  }
+
+  return { settings, update, error }
+}
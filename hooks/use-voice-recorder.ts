@@ -0,0 +1,80 @@
+"use client"
+
+import { useEffect, useRef, useState } from "react"
+
+/**
+ * Records audio from the microphone with MediaRecorder. Recording stops by itself after maxDuration seconds,
+ * and onRecorded gets the audio with its length unless the recording was cancelled.
+ */
+export function useVoiceRecorder(maxDuration: number, onRecorded: (recording: Blob, duration: number) => void) {
+  const [isRecording, setIsRecording] = useState(false)
+  const [elapsed, setElapsed] = useState(0)
+  const recorderRef = useRef<MediaRecorder | null>(null)
+  const cancelledRef = useRef(false)
+  const onRecordedRef = useRef(onRecorded)
+  onRecordedRef.current = onRecorded
+
+  // Release the microphone if the component goes away mid-recording
+  useEffect(() => {
+    return () => {
+      cancelledRef.current = true
+      if (recorderRef.current?.state === "recording") recorderRef.current.stop()
+    }
+  }, [])
+
+  useEffect(() => {
+    if (!isRecording) return
+
+    const startedAt = Date.now()
+    const interval = setInterval(() => {
+      const seconds = (Date.now() - startedAt) / 1000
+      setElapsed(seconds)
+      if (seconds >= maxDuration) recorderRef.current?.stop()
+    }, 250)
+
+    return () => clearInterval(interval)
+  }, [isRecording, maxDuration])
+
+  const start = async () => {
+    if (typeof MediaRecorder === "undefined" || !navigator.mediaDevices) {
+      throw new Error("Voice notes aren't supported in this browser")
+    }
+
+    const stream = await navigator.mediaDevices.getUserMedia({ audio: true })
+    const recorder = new MediaRecorder(stream)
+    const chunks: Blob[] = []
+    const startedAt = Date.now()
+
+    recorder.ondataavailable = (event) => {
+      if (event.data.size > 0) chunks.push(event.data)
+    }
+
+    recorder.onstop = () => {
+      stream.getTracks().forEach((track) => track.stop())
+      recorderRef.current = null
+      setIsRecording(false)
+      setElapsed(0)
+
+      if (cancelledRef.current || chunks.length === 0) return
+
+      const duration = Math.min((Date.now() - startedAt) / 1000, maxDuration)
+      onRecordedRef.current(new Blob(chunks, { type: recorder.mimeType }), duration)
+    }
+
+    cancelledRef.current = false
+    recorderRef.current = recorder
+    recorder.start()
+    setIsRecording(true)
+  }
+
+  const stop = () => {
+    recorderRef.current?.stop()
+  }
+
+  const cancel = () => {
+    cancelledRef.current = true
+    recorderRef.current?.stop()
+  }
+
+  return { isRecording, elapsed, start, stop, cancel }
+}
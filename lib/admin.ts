@@ -0,0 +1,50 @@
+import { supabase } from "./supabase"
+import type { Database } from "./database.types"
+import type { UserRole } from "./roles"
+
+export type AdminUser = Database["public"]["Functions"]["admin_list_users"]["Returns"][number]
+
+export const ADMIN_USERS_PAGE_SIZE = 50
+
+export async function listUsers(query: string, page = 0) {
+  const { data, error } = await supabase.rpc("admin_list_users", {
+    search_query: query,
+    page_size: ADMIN_USERS_PAGE_SIZE,
+    page_offset: page * ADMIN_USERS_PAGE_SIZE,
+  })
+
+  if (error) throw error
+
+  return (data || []) as AdminUser[]
+}
+
+export async function suspendUser(userId: string, days: number, note?: string) {
+  const { error } = await supabase.rpc("suspend_user", {
+    target_user_id: userId,
+    suspend_days: days,
+    note: note?.trim() || null,
+  })
+
+  if (error) throw error
+}
+
+export async function unsuspendUser(userId: string, note?: string) {
+  const { error } = await supabase.rpc("unsuspend_user", { target_user_id: userId, note: note?.trim() || null })
+
+  if (error) throw error
+}
+
+export async function signOutUser(userId: string, note?: string) {
+  const { error } = await supabase.rpc("sign_out_user", { target_user_id: userId, note: note?.trim() || null })
+
+  if (error) throw error
+}
+
+export async function setUserRole(userId: string, role: UserRole) {
+  const { error } = await supabase.rpc("set_user_role", { target_user_id: userId, new_role: role })
+
+  if (error) throw error
+}
+
+export const isSuspended = (user: Pick<AdminUser, "suspended_until">) =>
+  !!user.suspended_until && new Date(user.suspended_until) > new Date()
@@ -0,0 +1,50 @@
+import { supabase } from "./supabase"
+
+/**
+ * Users the current user has blocked or been blocked by.
+ * Their posts and comments are already hidden by RLS; this covers the lists RLS can't, like profile search.
+ */
+export async function getBlockedUserIds() {
+  const { data, error } = await supabase.rpc("blocked_user_ids")
+
+  if (error) throw error
+
+  return (data || []) as string[]
+}
+
+export async function getMutedUserIds(userId: string) {
+  const { data, error } = await supabase.from("mutes").select("muted_id").eq("muter_id", userId)
+
+  if (error) throw error
+
+  return (data || []).map((mute) => mute.muted_id as string)
+}
+
+export async function blockUser(userId: string, blockedId: string) {
+  const { error } = await supabase.from("blocks").insert({ blocker_id: userId, blocked_id: blockedId })
+
+  if (error) throw error
+}
+
+export async function unblockUser(userId: string, blockedId: string) {
+  const { error } = await supabase.from("blocks").delete().eq("blocker_id", userId).eq("blocked_id", blockedId)
+
+  if (error) throw error
+}
+
+export async function muteUser(userId: string, mutedId: string) {
+  const { error } = await supabase.from("mutes").insert({ muter_id: userId, muted_id: mutedId })
+
+  if (error) throw error
+}
+
+export async function unmuteUser(userId: string, mutedId: string) {
+  const { error } = await supabase.from("mutes").delete().eq("muter_id", userId).eq("muted_id", mutedId)
+
+  if (error) throw error
+}
+
+// PostgREST value for an "in" filter, e.g. query.not("user_id", "in", toInFilter(ids))
+export function toInFilter(ids: string[]) {
+  return `(${ids.join(",")})`
+}
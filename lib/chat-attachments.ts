@@ -0,0 +1,207 @@
+import { supabase } from "./supabase"
+import { uploadWithProgress } from "./upload"
+import { getImageExtension, processImage } from "./image-processing"
+import { v4 as uuidv4 } from "uuid"
+import type { Database } from "./database.types"
+
+type MessageRow = Database["public"]["Tables"]["messages"]["Row"]
+
+export type AttachmentKind = NonNullable<MessageRow["attachment_kind"]>
+
+export type MessageAttachmentFields = Pick<
+  MessageRow,
+  | "attachment_path"
+  | "attachment_name"
+  | "attachment_mime_type"
+  | "attachment_size"
+  | "attachment_kind"
+  | "attachment_duration"
+>
+
+// A file picked or recorded in the composer, ready to upload
+export type PendingAttachment = {
+  file: Blob
+  name: string
+  extension: string
+  kind: AttachmentKind
+  duration: number | null
+  previewUrl: string | null
+}
+
+export const CHAT_ATTACHMENTS_BUCKET = "chat-attachments"
+
+// Limits must match the chat-attachments bucket in init-supabase.ts
+export const MAX_ATTACHMENT_SIZE = 25 * 1024 * 1024
+export const ATTACHMENT_MIME_TYPES = [
+  "image/jpeg",
+  "image/png",
+  "image/gif",
+  "image/webp",
+  "audio/webm",
+  "audio/ogg",
+  "audio/mp4",
+  "audio/mpeg",
+  "audio/wav",
+  "application/pdf",
+  "text/plain",
+  "text/csv",
+  "application/zip",
+  "application/msword",
+  "application/vnd.openxmlformats-officedocument.wordprocessingml.document",
+  "application/vnd.ms-excel",
+  "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet",
+  "application/vnd.ms-powerpoint",
+  "application/vnd.openxmlformats-officedocument.presentationml.presentation",
+]
+
+export const MAX_VOICE_NOTE_DURATION = 5 * 60
+
+// Signed URLs are requested when a message is shown, so this only needs to cover one sitting
+const SIGNED_URL_EXPIRY = 60 * 60
+
+const AUDIO_EXTENSIONS: Record<string, string> = {
+  "audio/webm": "webm",
+  "audio/ogg": "ogg",
+  "audio/mp4": "m4a",
+}
+
+// MIME type without parameters, e.g. "audio/webm" for "audio/webm;codecs=opus"
+export const baseMimeType = (type: string) => type.split(";")[0].trim().toLowerCase()
+
+/**
+ * Checks a picked file against the attachment limits and strips metadata from images.
+ * Throws with a message that can be shown to the user.
+ */
+export async function prepareAttachment(file: File): Promise<PendingAttachment> {
+  const type = baseMimeType(file.type)
+
+  if (!ATTACHMENT_MIME_TYPES.includes(type)) {
+    throw new Error("This type of file can't be sent")
+  }
+
+  if (file.size > MAX_ATTACHMENT_SIZE) {
+    throw new Error("Files should be less than 25MB")
+  }
+
+  if (!type.startsWith("image/")) {
+    return {
+      file,
+      name: file.name,
+      extension: file.name.includes(".") ? file.name.split(".").pop()! : "",
+      kind: "file",
+      duration: null,
+      previewUrl: null,
+    }
+  }
+
+  let upload: Blob = file
+  let extension = file.name.split(".").pop() || ""
+
+  // GIFs would lose their animation, so they're sent as-is
+  if (type !== "image/gif") {
+    try {
+      upload = (await processImage(file)).blob
+      extension = getImageExtension(upload)
+    } catch (error) {
+      console.error("Error processing image:", error)
+      throw new Error("Could not read the image")
+    }
+  }
+
+  return {
+    file: upload,
+    name: file.name,
+    extension,
+    kind: "image",
+    duration: null,
+    previewUrl: URL.createObjectURL(upload),
+  }
+}
+
+export function prepareVoiceNote(recording: Blob, duration: number): PendingAttachment {
+  const type = baseMimeType(recording.type)
+  // The bucket compares the bare type, so drop the codec parameters MediaRecorder adds
+  const file = new Blob([recording], { type })
+
+  if (!AUDIO_EXTENSIONS[type]) {
+    throw new Error("Voice notes aren't supported in this browser")
+  }
+
+  if (file.size > MAX_ATTACHMENT_SIZE) {
+    throw new Error("Voice note is too large")
+  }
+
+  return {
+    file,
+    name: "Voice note",
+    extension: AUDIO_EXTENSIONS[type],
+    kind: "voice",
+    duration,
+    previewUrl: URL.createObjectURL(file),
+  }
+}
+
+/**
+ * Uploads an attachment into the chat's folder and returns the message columns that point at it.
+ */
+export async function uploadAttachment(
+  chatId: string,
+  userId: string,
+  attachment: PendingAttachment,
+  onProgress: (percent: number) => void,
+): Promise<MessageAttachmentFields> {
+  const fileName = attachment.extension ? `${uuidv4()}.${attachment.extension}` : uuidv4()
+  const path = `${chatId}/${userId}/${fileName}`
+
+  await uploadWithProgress(CHAT_ATTACHMENTS_BUCKET, path, attachment.file, onProgress)
+
+  return {
+    attachment_path: path,
+    attachment_name: attachment.name.slice(0, 255),
+    attachment_mime_type: attachment.file.type,
+    attachment_size: attachment.file.size,
+    attachment_kind: attachment.kind,
+    attachment_duration: attachment.duration,
+  }
+}
+
+// Files are downloaded under their original name rather than the generated one in storage
+export async function getAttachmentUrl(path: string, downloadName?: string) {
+  const { data, error } = await supabase.storage
+    .from(CHAT_ATTACHMENTS_BUCKET)
+    .createSignedUrl(path, SIGNED_URL_EXPIRY, downloadName ? { download: downloadName } : undefined)
+
+  if (error) throw error
+
+  return data.signedUrl
+}
+
+export async function removeAttachment(path: string) {
+  const { error } = await supabase.storage.from(CHAT_ATTACHMENTS_BUCKET).remove([path])
+
+  if (error) throw error
+}
+
+// Short description for chat previews and reply quotes of messages without text
+export function describeAttachment(message: Pick<MessageAttachmentFields, "attachment_kind" | "attachment_name">) {
+  switch (message.attachment_kind) {
+    case "image":
+      return "Photo"
+    case "voice":
+      return "Voice note"
+    default:
+      return message.attachment_name ?? "File"
+  }
+}
+
+export function formatFileSize(bytes: number) {
+  if (bytes < 1024) return `${bytes} B`
+  if (bytes < 1024 * 1024) return `${Math.round(bytes / 1024)} KB`
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`
+}
+
+// m:ss, e.g. 1:05
+export function formatDuration(seconds: number) {
+  const total = Math.round(seconds)
+  return `${Math.floor(total / 60)}:${String(total % 60).padStart(2, "0")}`
+}
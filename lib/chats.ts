@@ -0,0 +1,31 @@
+import { supabase } from "./supabase"
+
+// Unread messages from others, keyed by chat id. Chats with nothing unread are left out
+export async function getUnreadCounts() {
+  const { data, error } = await supabase.rpc("unread_message_counts")
+
+  if (error) throw error
+
+  const rows = (data || []) as { chat_id: string; unread_count: number }[]
+
+  return new Map(rows.map((row) => [row.chat_id, Number(row.unread_count)]))
+}
+
+export async function markChatRead(chatId: string) {
+  const { error } = await supabase.rpc("mark_chat_read", { chat_id: chatId })
+
+  if (error) throw error
+}
+
+export async function editMessage(messageId: string, content: string) {
+  const { error } = await supabase.rpc("edit_message", { message_id: messageId, new_content: content })
+
+  if (error) throw error
+}
+
+// Replaces the message with a "deleted" tombstone for everyone in the chat
+export async function deleteMessage(messageId: string) {
+  const { error } = await supabase.rpc("delete_message", { message_id: messageId })
+
+  if (error) throw error
+}
@@ -6,6 +6,15 @@ export type Database = {
           id: string
           username: string
           avatar_url: string | null
+          display_name: string | null
+          bio: string | null
+          website: string | null
+          location: string | null
+          banner_url: string | null
+          username_changed_at: string | null
+          is_private: boolean
+          suspended_until: string | null
+          last_seen_at: string | null
           created_at: string
           updated_at: string
         }
@@ -13,6 +22,15 @@ export type Database = {
           id: string
           username: string
           avatar_url?: string | null
+          display_name?: string | null
+          bio?: string | null
+          website?: string | null
+          location?: string | null
+          banner_url?: string | null
+          username_changed_at?: string | null
+          is_private?: boolean
+          suspended_until?: string | null
+          last_seen_at?: string | null
           created_at?: string
           updated_at?: string
         }
@@ -20,6 +38,15 @@ export type Database = {
           id?: string
           username?: string
           avatar_url?: string | null
+          display_name?: string | null
+          bio?: string | null
+          website?: string | null
+          location?: string | null
+          banner_url?: string | null
+          username_changed_at?: string | null
+          is_private?: boolean
+          suspended_until?: string | null
+          last_seen_at?: string | null
           updated_at?: string
         }
       }
@@ -28,6 +55,7 @@ export type Database = {
           id: string
           user_id: string
           content: string
+          is_hidden: boolean
           image_url: string | null
           created_at: string
           updated_at: string
@@ -36,6 +64,7 @@ export type Database = {
           id?: string
           user_id: string
           content: string
+          is_hidden?: boolean
           image_url?: string | null
           created_at?: string
           updated_at?: string
@@ -44,10 +73,287 @@ export type Database = {
           id?: string
           user_id?: string
           content?: string
+          is_hidden?: boolean
           image_url?: string | null
           updated_at?: string
         }
       }
+      post_media: {
+        Row: {
+          id: string
+          post_id: string
+          user_id: string
+          url: string
+          media_type: "image" | "video"
+          blurhash: string | null
+          position: number
+          created_at: string
+        }
+        Insert: {
+          id?: string
+          post_id: string
+          user_id: string
+          url: string
+          media_type: "image" | "video"
+          blurhash?: string | null
+          position: number
+          created_at?: string
+        }
+        Update: {
+          id?: string
+          post_id?: string
+          user_id?: string
+          url?: string
+          media_type?: "image" | "video"
+          blurhash?: string | null
+          position?: number
+          created_at?: string
+        }
+      }
+      post_revisions: {
+        Row: {
+          id: string
+          post_id: string
+          content: string
+          created_at: string
+        }
+        Insert: {
+          id?: string
+          post_id: string
+          content: string
+          created_at?: string
+        }
+        Update: {
+          id?: string
+          post_id?: string
+          content?: string
+          created_at?: string
+        }
+      }
+      post_tags: {
+        Row: {
+          post_id: string
+          tag: string
+          created_at: string
+        }
+        Insert: {
+          post_id: string
+          tag: string
+          created_at?: string
+        }
+        Update: {
+          post_id?: string
+          tag?: string
+          created_at?: string
+        }
+      }
+      blocks: {
+        Row: {
+          blocker_id: string
+          blocked_id: string
+          created_at: string
+        }
+        Insert: {
+          blocker_id: string
+          blocked_id: string
+          created_at?: string
+        }
+        Update: {
+          blocker_id?: string
+          blocked_id?: string
+          created_at?: string
+        }
+      }
+      mutes: {
+        Row: {
+          muter_id: string
+          muted_id: string
+          created_at: string
+        }
+        Insert: {
+          muter_id: string
+          muted_id: string
+          created_at?: string
+        }
+        Update: {
+          muter_id?: string
+          muted_id?: string
+          created_at?: string
+        }
+      }
+      follow_requests: {
+        Row: {
+          id: string
+          requester_id: string
+          target_id: string
+          created_at: string
+        }
+        Insert: {
+          id?: string
+          requester_id: string
+          target_id: string
+          created_at?: string
+        }
+        Update: {
+          id?: string
+          requester_id?: string
+          target_id?: string
+          created_at?: string
+        }
+      }
+      username_history: {
+        Row: {
+          id: string
+          user_id: string
+          username: string
+          changed_at: string
+          reserved_until: string
+        }
+        Insert: {
+          id?: string
+          user_id: string
+          username: string
+          changed_at?: string
+          reserved_until: string
+        }
+        Update: {
+          id?: string
+          user_id?: string
+          username?: string
+          changed_at?: string
+          reserved_until?: string
+        }
+      }
+      user_settings: {
+        Row: {
+          user_id: string
+          theme: "light" | "dark" | "system"
+          allow_messages_from: "everyone" | "following" | "nobody"
+          notify_likes: boolean
+          notify_comments: boolean
+          notify_follows: boolean
+          notify_mentions: boolean
+          updated_at: string
+        }
+        Insert: {
+          user_id: string
+          theme?: "light" | "dark" | "system"
+          allow_messages_from?: "everyone" | "following" | "nobody"
+          notify_likes?: boolean
+          notify_comments?: boolean
+          notify_follows?: boolean
+          notify_mentions?: boolean
+          updated_at?: string
+        }
+        Update: {
+          user_id?: string
+          theme?: "light" | "dark" | "system"
+          allow_messages_from?: "everyone" | "following" | "nobody"
+          notify_likes?: boolean
+          notify_comments?: boolean
+          notify_follows?: boolean
+          notify_mentions?: boolean
+          updated_at?: string
+        }
+      }
+      user_roles: {
+        Row: {
+          user_id: string
+          role: "moderator" | "admin"
+          created_at: string
+        }
+        Insert: {
+          user_id: string
+          role: "moderator" | "admin"
+          created_at?: string
+        }
+        Update: {
+          user_id?: string
+          role?: "moderator" | "admin"
+          created_at?: string
+        }
+      }
+      reports: {
+        Row: {
+          id: string
+          reporter_id: string
+          target_type: "post" | "comment" | "message" | "profile"
+          target_id: string
+          target_user_id: string | null
+          target_content: string | null
+          reason: "spam" | "harassment" | "hate" | "violence" | "nudity" | "misinformation" | "other"
+          details: string | null
+          status: "open" | "dismissed" | "actioned"
+          created_at: string
+          resolved_at: string | null
+          resolved_by: string | null
+        }
+        Insert: {
+          id?: string
+          reporter_id: string
+          target_type: "post" | "comment" | "message" | "profile"
+          target_id: string
+          reason: "spam" | "harassment" | "hate" | "violence" | "nudity" | "misinformation" | "other"
+          details?: string | null
+          created_at?: string
+        }
+        Update: {
+          status?: "open" | "dismissed" | "actioned"
+          resolved_at?: string | null
+          resolved_by?: string | null
+        }
+      }
+      moderation_actions: {
+        Row: {
+          id: string
+          moderator_id: string | null
+          action: "dismiss" | "hide" | "suspend" | "unsuspend" | "sign_out" | "set_role"
+          target_type: "post" | "comment" | "message" | "profile"
+          target_id: string
+          report_id: string | null
+          note: string | null
+          created_at: string
+        }
+        Insert: {
+          id?: string
+          moderator_id?: string | null
+          action: "dismiss" | "hide" | "suspend" | "unsuspend" | "sign_out" | "set_role"
+          target_type: "post" | "comment" | "message" | "profile"
+          target_id: string
+          report_id?: string | null
+          note?: string | null
+          created_at?: string
+        }
+        Update: {
+          note?: string | null
+        }
+      }
+      reactions: {
+        Row: {
+          id: string
+          target_type: "post" | "message"
+          target_id: string
+          user_id: string
+          emoji: string
+          created_at: string
+        }
+        Insert: {
+          id?: string
+          target_type: "post" | "message"
+          target_id: string
+          user_id: string
+          emoji: string
+          created_at?: string
+        }
+        Update: {
+          id?: string
+          target_type?: "post" | "message"
+          target_id?: string
+          user_id?: string
+          emoji?: string
+          created_at?: string
+        }
+      }
       likes: {
         Row: {
           id: string
@@ -73,21 +379,73 @@ export type Database = {
           id: string
           post_id: string
           user_id: string
+          parent_id: string | null
           content: string
+          is_hidden: boolean
           created_at: string
+          updated_at: string
         }
         Insert: {
           id?: string
           post_id: string
           user_id: string
+          parent_id?: string | null
           content: string
+          is_hidden?: boolean
           created_at?: string
+          updated_at?: string
         }
         Update: {
           id?: string
           post_id?: string
           user_id?: string
+          parent_id?: string | null
           content?: string
+          is_hidden?: boolean
+          created_at?: string
+          updated_at?: string
+        }
+      }
+      comment_likes: {
+        Row: {
+          id: string
+          comment_id: string
+          post_id: string
+          user_id: string
+          created_at: string
+        }
+        Insert: {
+          id?: string
+          comment_id: string
+          post_id: string
+          user_id: string
+          created_at?: string
+        }
+        Update: {
+          id?: string
+          comment_id?: string
+          post_id?: string
+          user_id?: string
+          created_at?: string
+        }
+      }
+      follows: {
+        Row: {
+          id: string
+          follower_id: string
+          following_id: string
+          created_at: string
+        }
+        Insert: {
+          id?: string
+          follower_id: string
+          following_id: string
+          created_at?: string
+        }
+        Update: {
+          id?: string
+          follower_id?: string
+          following_id?: string
           created_at?: string
         }
       }
@@ -119,18 +477,21 @@ export type Database = {
           id: string
           chat_id: string
           user_id: string
+          last_read_at: string
           created_at: string
         }
         Insert: {
           id?: string
           chat_id: string
           user_id: string
+          last_read_at?: string
           created_at?: string
         }
         Update: {
           id?: string
           chat_id?: string
           user_id?: string
+          last_read_at?: string
           created_at?: string
         }
       }
@@ -140,6 +501,16 @@ export type Database = {
           chat_id: string
           user_id: string
           content: string
+          is_hidden: boolean
+          is_deleted: boolean
+          reply_to_id: string | null
+          attachment_path: string | null
+          attachment_name: string | null
+          attachment_mime_type: string | null
+          attachment_size: number | null
+          attachment_kind: "image" | "file" | "voice" | null
+          attachment_duration: number | null
+          updated_at: string | null
           created_at: string
         }
         Insert: {
@@ -147,6 +518,14 @@ export type Database = {
           chat_id: string
           user_id: string
           content: string
+          is_hidden?: boolean
+          reply_to_id?: string | null
+          attachment_path?: string | null
+          attachment_name?: string | null
+          attachment_mime_type?: string | null
+          attachment_size?: number | null
+          attachment_kind?: "image" | "file" | "voice" | null
+          attachment_duration?: number | null
           created_at?: string
         }
         Update: {
@@ -154,6 +533,16 @@ export type Database = {
           chat_id?: string
           user_id?: string
           content?: string
+          is_hidden?: boolean
+          is_deleted?: boolean
+          reply_to_id?: string | null
+          attachment_path?: string | null
+          attachment_name?: string | null
+          attachment_mime_type?: string | null
+          attachment_size?: number | null
+          attachment_kind?: "image" | "file" | "voice" | null
+          attachment_duration?: number | null
+          updated_at?: string | null
           created_at?: string
         }
       }
@@ -187,6 +576,193 @@ export type Database = {
         }
       }
     }
+    Functions: {
+      create_post_with_media: {
+        Args: {
+          post_content: string
+          media: { url: string; media_type: "image" | "video"; blurhash: string | null }[]
+        }
+        Returns: string
+      }
+      blocked_user_ids: {
+        Args: Record<PropertyKey, never>
+        Returns: string[]
+      }
+      can_message: {
+        Args: {
+          other_user_id: string
+        }
+        Returns: boolean
+      }
+      change_username: {
+        Args: {
+          new_username: string
+        }
+        Returns: string
+      }
+      delete_message: {
+        Args: {
+          message_id: string
+        }
+        Returns: undefined
+      }
+      edit_message: {
+        Args: {
+          message_id: string
+          new_content: string
+        }
+        Returns: undefined
+      }
+      get_profile_stats: {
+        Args: {
+          profile_id: string
+        }
+        Returns: {
+          posts_count: number
+          followers_count: number
+          following_count: number
+        }[]
+      }
+      admin_list_users: {
+        Args: {
+          search_query?: string
+          page_size?: number
+          page_offset?: number
+        }
+        Returns: {
+          id: string
+          username: string
+          display_name: string | null
+          avatar_url: string | null
+          email: string
+          role: "user" | "moderator" | "admin"
+          suspended_until: string | null
+          created_at: string
+          last_sign_in_at: string | null
+        }[]
+      }
+      is_admin: {
+        Args: Record<PropertyKey, never>
+        Returns: boolean
+      }
+      is_moderator: {
+        Args: Record<PropertyKey, never>
+        Returns: boolean
+      }
+      mark_chat_read: {
+        Args: {
+          chat_id: string
+        }
+        Returns: undefined
+      }
+      moderate_report: {
+        Args: {
+          report_id: string
+          action: "dismiss" | "hide" | "suspend"
+          suspend_days?: number
+          note?: string | null
+        }
+        Returns: undefined
+      }
+      respond_to_follow_request: {
+        Args: {
+          request_id: string
+          approve: boolean
+        }
+        Returns: undefined
+      }
+      resolve_username: {
+        Args: {
+          handle: string
+        }
+        Returns: {
+          user_id: string
+          username: string
+        }[]
+      }
+      set_user_role: {
+        Args: {
+          target_user_id: string
+          new_role: "user" | "moderator" | "admin"
+        }
+        Returns: undefined
+      }
+      sign_out_user: {
+        Args: {
+          target_user_id: string
+          note?: string | null
+        }
+        Returns: undefined
+      }
+      suspend_user: {
+        Args: {
+          target_user_id: string
+          suspend_days: number
+          note?: string | null
+        }
+        Returns: undefined
+      }
+      unsuspend_user: {
+        Args: {
+          target_user_id: string
+          note?: string | null
+        }
+        Returns: undefined
+      }
+      touch_last_seen: {
+        Args: Record<PropertyKey, never>
+        Returns: undefined
+      }
+      unread_message_counts: {
+        Args: Record<PropertyKey, never>
+        Returns: {
+          chat_id: string
+          unread_count: number
+        }[]
+      }
+      username_available: {
+        Args: {
+          candidate: string
+        }
+        Returns: boolean
+      }
+      search_posts: {
+        Args: {
+          search_query: string
+          page_size?: number
+          page_offset?: number
+        }
+        Returns: {
+          id: string
+          user_id: string
+          created_at: string
+          username: string
+          avatar_url: string | null
+          rank: number
+          snippet: string
+        }[]
+      }
+      search_tags: {
+        Args: {
+          search_query: string
+          page_size?: number
+          page_offset?: number
+        }
+        Returns: {
+          tag: string
+          post_count: number
+        }[]
+      }
+      trending_tags: {
+        Args: {
+          max_tags?: number
+        }
+        Returns: {
+          tag: string
+          post_count: number
+        }[]
+      }
+    }
   }
 }
 
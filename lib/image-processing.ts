@@ -0,0 +1,124 @@
+import { decode, encode } from "blurhash"
+
+export type ProcessedImage = {
+  blob: Blob
+  width: number
+  height: number
+  blurhash: string
+}
+
+export type SquareCrop = {
+  x: number
+  y: number
+  size: number
+}
+
+const WEBP_QUALITY = 0.85
+const BLURHASH_SIZE = 32
+
+// Decode a file with its EXIF orientation applied, so rotated phone photos come out upright
+function loadBitmap(file: Blob) {
+  return createImageBitmap(file, { imageOrientation: "from-image" })
+}
+
+function createCanvas(width: number, height: number) {
+  const canvas = document.createElement("canvas")
+  canvas.width = width
+  canvas.height = height
+
+  const context = canvas.getContext("2d")
+  if (!context) throw new Error("Canvas is not supported in this browser")
+
+  return { canvas, context }
+}
+
+// Re-encoding through a canvas drops every metadata block, including EXIF and GPS
+function canvasToBlob(canvas: HTMLCanvasElement) {
+  return new Promise<Blob>((resolve, reject) => {
+    canvas.toBlob(
+      (blob) => {
+        if (!blob) {
+          reject(new Error("Could not encode image"))
+        } else if (blob.type !== "image/webp") {
+          // Browsers without WebP encoding fall back to PNG, which is far larger than JPEG
+          canvas.toBlob(
+            (jpeg) => (jpeg ? resolve(jpeg) : reject(new Error("Could not encode image"))),
+            "image/jpeg",
+            WEBP_QUALITY,
+          )
+        } else {
+          resolve(blob)
+        }
+      },
+      "image/webp",
+      WEBP_QUALITY,
+    )
+  })
+}
+
+function getBlurhash(source: CanvasImageSource) {
+  const { context } = createCanvas(BLURHASH_SIZE, BLURHASH_SIZE)
+  context.drawImage(source, 0, 0, BLURHASH_SIZE, BLURHASH_SIZE)
+
+  const { data } = context.getImageData(0, 0, BLURHASH_SIZE, BLURHASH_SIZE)
+
+  return encode(data, BLURHASH_SIZE, BLURHASH_SIZE, 4, 3)
+}
+
+/**
+ * Strip metadata from an image, scale it down to fit within the given bounds and re-encode it as WebP.
+ */
+export async function processImage(file: Blob, maxWidth = 2048, maxHeight = 2048): Promise<ProcessedImage> {
+  const bitmap = await loadBitmap(file)
+
+  try {
+    const scale = Math.min(1, maxWidth / bitmap.width, maxHeight / bitmap.height)
+    const width = Math.round(bitmap.width * scale)
+    const height = Math.round(bitmap.height * scale)
+
+    const { canvas, context } = createCanvas(width, height)
+    context.drawImage(bitmap, 0, 0, width, height)
+
+    return {
+      blob: await canvasToBlob(canvas),
+      width,
+      height,
+      blurhash: getBlurhash(bitmap),
+    }
+  } finally {
+    bitmap.close()
+  }
+}
+
+/**
+ * Cut a square out of an image (in source pixels) and re-encode it at the given size.
+ */
+export async function cropSquareImage(file: Blob, crop: SquareCrop, outputSize = 512) {
+  const bitmap = await loadBitmap(file)
+
+  try {
+    const size = Math.min(outputSize, Math.round(crop.size))
+    const { canvas, context } = createCanvas(size, size)
+    context.drawImage(bitmap, crop.x, crop.y, crop.size, crop.size, 0, 0, size, size)
+
+    return await canvasToBlob(canvas)
+  } finally {
+    bitmap.close()
+  }
+}
+
+// Render a blurhash into a small data URL for use as an image placeholder
+export function blurhashToDataURL(blurhash: string, width = BLURHASH_SIZE, height = BLURHASH_SIZE) {
+  const pixels = decode(blurhash, width, height)
+  const { canvas, context } = createCanvas(width, height)
+  const imageData = context.createImageData(width, height)
+  imageData.data.set(pixels)
+  context.putImageData(imageData, 0, 0)
+
+  return canvas.toDataURL()
+}
+
+// Extension to use when uploading an encoded blob
+export function getImageExtension(blob: Blob) {
+  return blob.type === "image/webp" ? "webp" : "jpg"
+}
@@ -85,6 +85,1988 @@ export async function initializeDatabase() {
           })
       }
 
+      // Create follows table
+      const { error: followsError } = await supabase.rpc("create_follows_table")
+
+      if (followsError && !followsError.message.includes("already exists")) {
+        await supabase
+          .rpc("execute_sql", {
+            sql: `
+            CREATE TABLE IF NOT EXISTS public.follows (
+              id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+              follower_id UUID REFERENCES public.profiles(id) ON DELETE CASCADE NOT NULL,
+              following_id UUID REFERENCES public.profiles(id) ON DELETE CASCADE NOT NULL,
+              created_at TIMESTAMP WITH TIME ZONE DEFAULT TIMEZONE('utc', NOW()) NOT NULL,
+              UNIQUE (follower_id, following_id),
+              CHECK (follower_id <> following_id)
+            );
+
+            CREATE INDEX IF NOT EXISTS follows_following_id_idx ON public.follows (following_id);
+
+            ALTER TABLE public.follows ENABLE ROW LEVEL SECURITY;
+
+            CREATE POLICY "Follows are viewable by everyone."
+              ON public.follows FOR SELECT
+              USING (true);
+
+            CREATE POLICY "Users can follow others as themselves."
+              ON public.follows FOR INSERT
+              WITH CHECK (auth.uid() = follower_id);
+
+            CREATE POLICY "Users can unfollow as themselves."
+              ON public.follows FOR DELETE
+              USING (auth.uid() = follower_id);
+          `,
+          })
+          .catch((err) => {
+            console.error("Error creating follows table with SQL:", err)
+          })
+      }
+
+      // Create post revisions table and post edit/delete triggers
+      const { error: postRevisionsError } = await supabase.rpc("create_post_revisions_table")
+
+      if (postRevisionsError && !postRevisionsError.message.includes("already exists")) {
+        await supabase
+          .rpc("execute_sql", {
+            sql: `
+            CREATE TABLE IF NOT EXISTS public.post_revisions (
+              id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+              post_id UUID REFERENCES public.posts(id) ON DELETE CASCADE NOT NULL,
+              content TEXT NOT NULL,
+              created_at TIMESTAMP WITH TIME ZONE DEFAULT TIMEZONE('utc', NOW()) NOT NULL
+            );
+
+            CREATE INDEX IF NOT EXISTS post_revisions_post_id_idx ON public.post_revisions (post_id, created_at);
+
+            ALTER TABLE public.post_revisions ENABLE ROW LEVEL SECURITY;
+
+            CREATE POLICY "Post revisions are viewable by everyone."
+              ON public.post_revisions FOR SELECT
+              USING (true);
+
+            -- Keep the previous content whenever a post is edited and mark it as updated
+            CREATE OR REPLACE FUNCTION public.record_post_revision()
+            RETURNS TRIGGER
+            LANGUAGE plpgsql
+            SECURITY DEFINER SET search_path = public
+            AS $$
+            BEGIN
+              IF NEW.content IS DISTINCT FROM OLD.content THEN
+                INSERT INTO public.post_revisions (post_id, content, created_at)
+                VALUES (OLD.id, OLD.content, OLD.updated_at);
+                NEW.updated_at := TIMEZONE('utc', NOW());
+              END IF;
+              RETURN NEW;
+            END;
+            $$;
+
+            DROP TRIGGER IF EXISTS on_post_content_updated ON public.posts;
+            CREATE TRIGGER on_post_content_updated
+              BEFORE UPDATE ON public.posts
+              FOR EACH ROW EXECUTE FUNCTION public.record_post_revision();
+
+            -- Remove likes, comments and notifications that point at a deleted post
+            CREATE OR REPLACE FUNCTION public.cleanup_deleted_post()
+            RETURNS TRIGGER
+            LANGUAGE plpgsql
+            SECURITY DEFINER SET search_path = public
+            AS $$
+            BEGIN
+              DELETE FROM public.likes WHERE post_id = OLD.id;
+              DELETE FROM public.comments WHERE post_id = OLD.id;
+              DELETE FROM public.notifications
+                WHERE type IN ('like', 'comment') AND related_id::text = OLD.id::text;
+              RETURN OLD;
+            END;
+            $$;
+
+            DROP TRIGGER IF EXISTS on_post_deleted ON public.posts;
+            CREATE TRIGGER on_post_deleted
+              BEFORE DELETE ON public.posts
+              FOR EACH ROW EXECUTE FUNCTION public.cleanup_deleted_post();
+          `,
+          })
+          .catch((err) => {
+            console.error("Error creating post revisions table with SQL:", err)
+          })
+      }
+
+      // Add threaded replies and editing to comments
+      const { error: commentThreadsError } = await supabase.rpc("add_comment_threads")
+
+      if (commentThreadsError && !commentThreadsError.message.includes("already exists")) {
+        await supabase
+          .rpc("execute_sql", {
+            sql: `
+            ALTER TABLE public.comments
+              ADD COLUMN IF NOT EXISTS parent_id UUID REFERENCES public.comments(id) ON DELETE CASCADE,
+              ADD COLUMN IF NOT EXISTS updated_at TIMESTAMP WITH TIME ZONE DEFAULT TIMEZONE('utc', NOW()) NOT NULL;
+
+            CREATE INDEX IF NOT EXISTS comments_parent_id_idx ON public.comments (parent_id);
+
+            CREATE POLICY "Users can update their own comments."
+              ON public.comments FOR UPDATE
+              USING (auth.uid() = user_id);
+
+            CREATE POLICY "Comment and post authors can delete comments."
+              ON public.comments FOR DELETE
+              USING (
+                auth.uid() = user_id OR
+                auth.uid() = (SELECT posts.user_id FROM public.posts WHERE posts.id = comments.post_id)
+              );
+
+            -- Reply notifications point at the post too, so clear them when it is deleted
+            CREATE OR REPLACE FUNCTION public.cleanup_deleted_post()
+            RETURNS TRIGGER
+            LANGUAGE plpgsql
+            SECURITY DEFINER SET search_path = public
+            AS $$
+            BEGIN
+              DELETE FROM public.likes WHERE post_id = OLD.id;
+              DELETE FROM public.comments WHERE post_id = OLD.id;
+              DELETE FROM public.notifications
+                WHERE type IN ('like', 'comment', 'reply') AND related_id::text = OLD.id::text;
+              RETURN OLD;
+            END;
+            $$;
+          `,
+          })
+          .catch((err) => {
+            console.error("Error adding comment threads with SQL:", err)
+          })
+      }
+
+      // Create comment likes table
+      const { error: commentLikesError } = await supabase.rpc("create_comment_likes_table")
+
+      if (commentLikesError && !commentLikesError.message.includes("already exists")) {
+        await supabase
+          .rpc("execute_sql", {
+            sql: `
+            CREATE TABLE IF NOT EXISTS public.comment_likes (
+              id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+              comment_id UUID REFERENCES public.comments(id) ON DELETE CASCADE NOT NULL,
+              post_id UUID REFERENCES public.posts(id) ON DELETE CASCADE NOT NULL,
+              user_id UUID REFERENCES public.profiles(id) ON DELETE CASCADE NOT NULL,
+              created_at TIMESTAMP WITH TIME ZONE DEFAULT TIMEZONE('utc', NOW()) NOT NULL,
+              UNIQUE (comment_id, user_id)
+            );
+
+            CREATE INDEX IF NOT EXISTS comment_likes_post_id_idx ON public.comment_likes (post_id);
+
+            ALTER TABLE public.comment_likes ENABLE ROW LEVEL SECURITY;
+
+            CREATE POLICY "Comment likes are viewable by everyone."
+              ON public.comment_likes FOR SELECT
+              USING (true);
+
+            CREATE POLICY "Users can like comments as themselves."
+              ON public.comment_likes FOR INSERT
+              WITH CHECK (auth.uid() = user_id);
+
+            CREATE POLICY "Users can remove their own comment likes."
+              ON public.comment_likes FOR DELETE
+              USING (auth.uid() = user_id);
+          `,
+          })
+          .catch((err) => {
+            console.error("Error creating comment likes table with SQL:", err)
+          })
+      }
+
+      // Create post media table for multi-image and video posts
+      const { error: postMediaError } = await supabase.rpc("create_post_media_table")
+
+      if (postMediaError && !postMediaError.message.includes("already exists")) {
+        await supabase
+          .rpc("execute_sql", {
+            sql: `
+            CREATE TABLE IF NOT EXISTS public.post_media (
+              id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+              post_id UUID REFERENCES public.posts(id) ON DELETE CASCADE NOT NULL,
+              user_id UUID REFERENCES public.profiles(id) ON DELETE CASCADE NOT NULL,
+              url TEXT NOT NULL,
+              media_type TEXT NOT NULL CHECK (media_type IN ('image', 'video')),
+              blurhash TEXT,
+              position SMALLINT NOT NULL CHECK (position BETWEEN 0 AND 9),
+              created_at TIMESTAMP WITH TIME ZONE DEFAULT TIMEZONE('utc', NOW()) NOT NULL,
+              UNIQUE (post_id, position)
+            );
+
+            ALTER TABLE public.post_media ENABLE ROW LEVEL SECURITY;
+
+            CREATE POLICY "Post media is viewable by everyone."
+              ON public.post_media FOR SELECT
+              USING (true);
+
+            CREATE POLICY "Users can add media to their own posts."
+              ON public.post_media FOR INSERT
+              WITH CHECK (
+                auth.uid() = user_id AND
+                auth.uid() = (SELECT posts.user_id FROM public.posts WHERE posts.id = post_media.post_id)
+              );
+
+            CREATE POLICY "Users can delete their own post media."
+              ON public.post_media FOR DELETE
+              USING (auth.uid() = user_id);
+
+            -- Create a post and its attachments in one transaction so realtime
+            -- subscribers never see a post before its media exists
+            CREATE OR REPLACE FUNCTION public.create_post_with_media(post_content TEXT, media JSONB)
+            RETURNS UUID
+            LANGUAGE plpgsql
+            SECURITY INVOKER SET search_path = public
+            AS $$
+            DECLARE
+              new_post_id UUID;
+            BEGIN
+              IF jsonb_array_length(media) > 10 THEN
+                RAISE EXCEPTION 'A post can have at most 10 attachments';
+              END IF;
+
+              INSERT INTO public.posts (user_id, content, image_url)
+              VALUES (
+                auth.uid(),
+                post_content,
+                (SELECT item->>'url' FROM jsonb_array_elements(media) AS item
+                  WHERE item->>'media_type' = 'image' LIMIT 1)
+              )
+              RETURNING id INTO new_post_id;
+
+              INSERT INTO public.post_media (post_id, user_id, url, media_type, blurhash, position)
+              SELECT new_post_id, auth.uid(), item->>'url', item->>'media_type', item->>'blurhash',
+                (ordinality - 1)::SMALLINT
+              FROM jsonb_array_elements(media) WITH ORDINALITY AS t(item, ordinality);
+
+              RETURN new_post_id;
+            END;
+            $$;
+          `,
+          })
+          .catch((err) => {
+            console.error("Error creating post media table with SQL:", err)
+          })
+      }
+
+      // Create post tags table, filled from #hashtags in post content
+      const { error: postTagsError } = await supabase.rpc("create_post_tags_table")
+
+      if (postTagsError && !postTagsError.message.includes("already exists")) {
+        await supabase
+          .rpc("execute_sql", {
+            sql: `
+            CREATE TABLE IF NOT EXISTS public.post_tags (
+              post_id UUID REFERENCES public.posts(id) ON DELETE CASCADE NOT NULL,
+              tag TEXT NOT NULL,
+              created_at TIMESTAMP WITH TIME ZONE DEFAULT TIMEZONE('utc', NOW()) NOT NULL,
+              PRIMARY KEY (post_id, tag)
+            );
+
+            CREATE INDEX IF NOT EXISTS post_tags_tag_idx ON public.post_tags (tag);
+
+            ALTER TABLE public.post_tags ENABLE ROW LEVEL SECURITY;
+
+            CREATE POLICY "Post tags are viewable by everyone."
+              ON public.post_tags FOR SELECT
+              USING (true);
+
+            -- Re-parse a post's hashtags whenever it is created or its content changes.
+            -- The patterns must match URL_PATTERN and HASHTAG_PATTERN in lib/rich-text.ts,
+            -- URLs are removed first so their #fragments aren't taken as tags
+            CREATE OR REPLACE FUNCTION public.sync_post_tags()
+            RETURNS TRIGGER
+            LANGUAGE plpgsql
+            SECURITY DEFINER SET search_path = public
+            AS $$
+            BEGIN
+              DELETE FROM public.post_tags WHERE post_id = NEW.id;
+
+              INSERT INTO public.post_tags (post_id, tag)
+              SELECT DISTINCT NEW.id, LOWER(match[1])
+              FROM regexp_matches(
+                regexp_replace(NEW.content, 'https?://[^[:space:]<>"]+[^[:space:]<>".,:;!?)'']', '', 'g'),
+                '(?:^|[^A-Za-z0-9_])#([A-Za-z][A-Za-z0-9_]{0,49})(?![A-Za-z0-9_])',
+                'g'
+              ) AS match;
+
+              RETURN NEW;
+            END;
+            $$;
+
+            DROP TRIGGER IF EXISTS on_post_tags_changed ON public.posts;
+            CREATE TRIGGER on_post_tags_changed
+              AFTER INSERT OR UPDATE OF content ON public.posts
+              FOR EACH ROW EXECUTE FUNCTION public.sync_post_tags();
+
+            -- Most used tags on posts from the last 24 hours
+            CREATE OR REPLACE FUNCTION public.trending_tags(max_tags INT DEFAULT 10)
+            RETURNS TABLE (tag TEXT, post_count BIGINT)
+            LANGUAGE sql STABLE
+            SECURITY INVOKER SET search_path = public
+            AS $$
+              SELECT post_tags.tag, COUNT(*) AS post_count
+              FROM public.post_tags
+              JOIN public.posts ON posts.id = post_tags.post_id
+              WHERE posts.created_at > NOW() - INTERVAL '24 hours'
+              GROUP BY post_tags.tag
+              ORDER BY post_count DESC, post_tags.tag
+              LIMIT max_tags;
+            $$;
+          `,
+          })
+          .catch((err) => {
+            console.error("Error creating post tags table with SQL:", err)
+          })
+      }
+
+      // Clear mention notifications along with the post they point at
+      const { error: mentionCleanupError } = await supabase.rpc("add_mention_cleanup")
+
+      if (mentionCleanupError && !mentionCleanupError.message.includes("already exists")) {
+        await supabase
+          .rpc("execute_sql", {
+            sql: `
+            CREATE OR REPLACE FUNCTION public.cleanup_deleted_post()
+            RETURNS TRIGGER
+            LANGUAGE plpgsql
+            SECURITY DEFINER SET search_path = public
+            AS $$
+            BEGIN
+              DELETE FROM public.likes WHERE post_id = OLD.id;
+              DELETE FROM public.comments WHERE post_id = OLD.id;
+              DELETE FROM public.notifications
+                WHERE type IN ('like', 'comment', 'reply', 'mention') AND related_id::text = OLD.id::text;
+              RETURN OLD;
+            END;
+            $$;
+          `,
+          })
+          .catch((err) => {
+            console.error("Error adding mention cleanup with SQL:", err)
+          })
+      }
+
+      // Add full-text search over posts and tag lookup for the search page
+      const { error: searchError } = await supabase.rpc("create_search_functions")
+
+      if (searchError && !searchError.message.includes("already exists")) {
+        await supabase
+          .rpc("execute_sql", {
+            sql: `
+            -- Post content with stored mentions reduced to @username, as it reads on screen
+            CREATE OR REPLACE FUNCTION public.post_plain_text(content TEXT)
+            RETURNS TEXT
+            LANGUAGE sql IMMUTABLE
+            AS $$
+              SELECT regexp_replace(content, '@\\[([^]]+)\\]\\([0-9a-f-]{36}\\)', '@\\1', 'g');
+            $$;
+
+            CREATE INDEX IF NOT EXISTS posts_search_idx
+              ON public.posts USING GIN (to_tsvector('english', public.post_plain_text(content)));
+
+            -- Ranked posts matching a web-style query (quotes, OR, -word), with highlighted snippets.
+            -- Matches in the snippet are wrapped in the control characters chr(2) and chr(3)
+            CREATE OR REPLACE FUNCTION public.search_posts(search_query TEXT, page_size INT DEFAULT 20, page_offset INT DEFAULT 0)
+            RETURNS TABLE (
+              id UUID,
+              user_id UUID,
+              created_at TIMESTAMP WITH TIME ZONE,
+              username TEXT,
+              avatar_url TEXT,
+              rank REAL,
+              snippet TEXT
+            )
+            LANGUAGE sql STABLE
+            SECURITY INVOKER SET search_path = public
+            AS $$
+              SELECT
+                posts.id,
+                posts.user_id,
+                posts.created_at,
+                profiles.username,
+                profiles.avatar_url,
+                ts_rank(to_tsvector('english', public.post_plain_text(posts.content)), query) AS rank,
+                ts_headline(
+                  'english',
+                  public.post_plain_text(posts.content),
+                  query,
+                  format('StartSel=%s, StopSel=%s, MinWords=15, MaxWords=35, MaxFragments=2', chr(2), chr(3))
+                ) AS snippet
+              FROM public.posts
+              JOIN public.profiles ON profiles.id = posts.user_id
+              CROSS JOIN websearch_to_tsquery('english', search_query) AS query
+              WHERE to_tsvector('english', public.post_plain_text(posts.content)) @@ query
+              ORDER BY rank DESC, posts.created_at DESC, posts.id
+              LIMIT LEAST(page_size, 50) OFFSET page_offset;
+            $$;
+
+            -- Tags starting with the query, most used first
+            CREATE OR REPLACE FUNCTION public.search_tags(search_query TEXT, page_size INT DEFAULT 20, page_offset INT DEFAULT 0)
+            RETURNS TABLE (tag TEXT, post_count BIGINT)
+            LANGUAGE sql STABLE
+            SECURITY INVOKER SET search_path = public
+            AS $$
+              SELECT post_tags.tag, COUNT(*) AS post_count
+              FROM public.post_tags
+              WHERE starts_with(post_tags.tag, regexp_replace(LOWER(search_query), '[^a-z0-9_]', '', 'g'))
+              GROUP BY post_tags.tag
+              ORDER BY post_count DESC, post_tags.tag
+              LIMIT LEAST(page_size, 50) OFFSET page_offset;
+            $$;
+          `,
+          })
+          .catch((err) => {
+            console.error("Error creating search functions with SQL:", err)
+          })
+      }
+
+      // Add profile details and the banner image bucket
+      const { error: profileDetailsError } = await supabase.rpc("add_profile_details")
+
+      if (profileDetailsError && !profileDetailsError.message.includes("already exists")) {
+        await supabase
+          .rpc("execute_sql", {
+            sql: `
+            -- Limits must match PROFILE_LIMITS in lib/profiles.ts
+            ALTER TABLE public.profiles
+              ADD COLUMN IF NOT EXISTS display_name TEXT CHECK (char_length(display_name) <= 50),
+              ADD COLUMN IF NOT EXISTS bio TEXT CHECK (char_length(bio) <= 160),
+              ADD COLUMN IF NOT EXISTS website TEXT CHECK (char_length(website) <= 100 AND website ~* '^https?://'),
+              ADD COLUMN IF NOT EXISTS location TEXT CHECK (char_length(location) <= 30),
+              ADD COLUMN IF NOT EXISTS banner_url TEXT;
+
+            INSERT INTO storage.buckets (id, name, public, file_size_limit, allowed_mime_types)
+            VALUES ('banners', 'banners', true, 5242880, ARRAY['image/webp', 'image/jpeg'])
+            ON CONFLICT (id) DO NOTHING;
+
+            CREATE POLICY "Banner images are publicly accessible."
+              ON storage.objects FOR SELECT
+              USING (bucket_id = 'banners');
+
+            CREATE POLICY "Users can upload their own banner images."
+              ON storage.objects FOR INSERT
+              WITH CHECK (bucket_id = 'banners' AND auth.uid()::text = (storage.foldername(name))[1]);
+
+            CREATE POLICY "Users can delete their own banner images."
+              ON storage.objects FOR DELETE
+              USING (bucket_id = 'banners' AND auth.uid()::text = (storage.foldername(name))[1]);
+          `,
+          })
+          .catch((err) => {
+            console.error("Error adding profile details with SQL:", err)
+          })
+      }
+
+      const { error: usernameChangesError } = await supabase.rpc("add_username_changes")
+
+      if (usernameChangesError && !usernameChangesError.message.includes("already exists")) {
+        await supabase
+          .rpc("execute_sql", {
+            sql: `
+            -- Rules must match USERNAME_RULES in lib/profiles.ts
+            ALTER TABLE public.profiles ADD COLUMN IF NOT EXISTS username_changed_at TIMESTAMP WITH TIME ZONE;
+
+            CREATE INDEX IF NOT EXISTS profiles_username_lower_idx ON public.profiles (lower(username));
+
+            -- Handles users have moved away from. Rows outlive the reservation so old links keep
+            -- redirecting until someone else claims the handle
+            CREATE TABLE IF NOT EXISTS public.username_history (
+              id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+              user_id UUID REFERENCES public.profiles(id) ON DELETE CASCADE NOT NULL,
+              username TEXT NOT NULL,
+              changed_at TIMESTAMP WITH TIME ZONE DEFAULT TIMEZONE('utc', NOW()) NOT NULL,
+              reserved_until TIMESTAMP WITH TIME ZONE NOT NULL
+            );
+
+            CREATE INDEX IF NOT EXISTS username_history_username_idx
+              ON public.username_history (lower(username), changed_at DESC);
+
+            ALTER TABLE public.username_history ENABLE ROW LEVEL SECURITY;
+
+            CREATE POLICY "Users can view their own username history."
+              ON public.username_history FOR SELECT
+              USING (auth.uid() = user_id);
+
+            -- Whether a handle can be taken by the current user: not in use by anyone else
+            -- and not reserved for the user who just gave it up
+            CREATE OR REPLACE FUNCTION public.username_available(candidate TEXT)
+            RETURNS BOOLEAN
+            LANGUAGE sql
+            STABLE
+            SECURITY DEFINER
+            SET search_path = public
+            AS $$
+              SELECT NOT EXISTS (
+                SELECT 1 FROM profiles
+                WHERE lower(profiles.username) = lower(candidate) AND profiles.id IS DISTINCT FROM auth.uid()
+              ) AND NOT EXISTS (
+                SELECT 1 FROM username_history
+                WHERE lower(username_history.username) = lower(candidate)
+                  AND username_history.reserved_until > NOW()
+                  AND username_history.user_id IS DISTINCT FROM auth.uid()
+              );
+            $$;
+
+            -- Reserved handles can't be claimed at signup, and usernames only change through change_username.
+            -- username_changed_at is guarded too, since the owner update policy would otherwise let users
+            -- clear it and skip the 30 day wait
+            CREATE OR REPLACE FUNCTION public.enforce_username_rules()
+            RETURNS TRIGGER
+            LANGUAGE plpgsql
+            SECURITY DEFINER
+            SET search_path = public
+            AS $$
+            BEGIN
+              IF TG_OP = 'UPDATE' THEN
+                IF NEW.username = OLD.username AND NEW.username_changed_at IS NOT DISTINCT FROM OLD.username_changed_at THEN
+                  RETURN NEW;
+                END IF;
+
+                IF current_setting('app.changing_username', true) IS DISTINCT FROM 'on' THEN
+                  RAISE EXCEPTION 'Usernames can only be changed with change_username()';
+                END IF;
+              END IF;
+
+              IF EXISTS (
+                SELECT 1 FROM username_history
+                WHERE lower(username) = lower(NEW.username) AND reserved_until > NOW() AND user_id <> NEW.id
+              ) THEN
+                RAISE EXCEPTION 'Username is not available';
+              END IF;
+
+              RETURN NEW;
+            END;
+            $$;
+
+            DROP TRIGGER IF EXISTS enforce_username_rules ON public.profiles;
+            CREATE TRIGGER enforce_username_rules
+              BEFORE INSERT OR UPDATE OF username, username_changed_at ON public.profiles
+              FOR EACH ROW EXECUTE FUNCTION public.enforce_username_rules();
+
+            CREATE OR REPLACE FUNCTION public.change_username(new_username TEXT)
+            RETURNS TEXT
+            LANGUAGE plpgsql
+            SECURITY DEFINER
+            SET search_path = public
+            AS $$
+            DECLARE
+              current_profile profiles%ROWTYPE;
+            BEGIN
+              SELECT * INTO current_profile FROM profiles WHERE id = auth.uid() FOR UPDATE;
+
+              IF NOT FOUND THEN
+                RAISE EXCEPTION 'Profile not found';
+              END IF;
+
+              IF new_username !~ '^[A-Za-z0-9_.]{3,30}$' THEN
+                RAISE EXCEPTION 'Usernames must be 3-30 letters, numbers, underscores or periods';
+              END IF;
+
+              IF new_username = current_profile.username THEN
+                RETURN new_username;
+              END IF;
+
+              IF current_profile.username_changed_at > NOW() - INTERVAL '30 days' THEN
+                RAISE EXCEPTION 'You can change your username again on %',
+                  to_char(current_profile.username_changed_at + INTERVAL '30 days', 'FMMonth FMDD, YYYY');
+              END IF;
+
+              IF NOT username_available(new_username) THEN
+                RAISE EXCEPTION 'Username is not available';
+              END IF;
+
+              -- Taking back one of your own old handles ends its reservation
+              DELETE FROM username_history WHERE user_id = auth.uid() AND lower(username) = lower(new_username);
+
+              INSERT INTO username_history (user_id, username, reserved_until)
+              VALUES (auth.uid(), current_profile.username, NOW() + INTERVAL '14 days');
+
+              PERFORM set_config('app.changing_username', 'on', true);
+              UPDATE profiles
+                SET username = new_username, username_changed_at = NOW(), updated_at = NOW()
+                WHERE id = auth.uid();
+              PERFORM set_config('app.changing_username', 'off', true);
+
+              RETURN new_username;
+            END;
+            $$;
+
+            -- Find the profile behind a handle, falling back to the most recent user who retired it
+            CREATE OR REPLACE FUNCTION public.resolve_username(handle TEXT)
+            RETURNS TABLE (user_id UUID, username TEXT)
+            LANGUAGE sql
+            STABLE
+            SECURITY DEFINER
+            SET search_path = public
+            AS $$
+              SELECT resolved.id, resolved.username
+              FROM (
+                SELECT profiles.id, profiles.username, 0 AS priority, NOW() AS changed_at
+                FROM profiles
+                WHERE lower(profiles.username) = lower(handle)
+                UNION ALL
+                SELECT profiles.id, profiles.username, 1, username_history.changed_at
+                FROM username_history
+                JOIN profiles ON profiles.id = username_history.user_id
+                WHERE lower(username_history.username) = lower(handle)
+              ) AS resolved
+              ORDER BY resolved.priority, resolved.changed_at DESC
+              LIMIT 1;
+            $$;
+          `,
+          })
+          .catch((err) => {
+            console.error("Error adding username changes with SQL:", err)
+          })
+      }
+
+      const { error: userSettingsError } = await supabase.rpc("create_user_settings_table")
+
+      if (userSettingsError && !userSettingsError.message.includes("already exists")) {
+        await supabase
+          .rpc("execute_sql", {
+            sql: `
+            -- Defaults must match DEFAULT_SETTINGS in lib/settings.ts. Rows are created on first save
+            CREATE TABLE IF NOT EXISTS public.user_settings (
+              user_id UUID PRIMARY KEY REFERENCES public.profiles(id) ON DELETE CASCADE,
+              theme TEXT DEFAULT 'system' NOT NULL CHECK (theme IN ('light', 'dark', 'system')),
+              allow_messages_from TEXT DEFAULT 'everyone' NOT NULL
+                CHECK (allow_messages_from IN ('everyone', 'following', 'nobody')),
+              notify_likes BOOLEAN DEFAULT true NOT NULL,
+              notify_comments BOOLEAN DEFAULT true NOT NULL,
+              notify_follows BOOLEAN DEFAULT true NOT NULL,
+              notify_mentions BOOLEAN DEFAULT true NOT NULL,
+              updated_at TIMESTAMP WITH TIME ZONE DEFAULT TIMEZONE('utc', NOW()) NOT NULL
+            );
+
+            ALTER TABLE public.user_settings ENABLE ROW LEVEL SECURITY;
+
+            CREATE POLICY "Users can view their own settings."
+              ON public.user_settings FOR SELECT
+              USING (auth.uid() = user_id);
+
+            CREATE POLICY "Users can insert their own settings."
+              ON public.user_settings FOR INSERT
+              WITH CHECK (auth.uid() = user_id);
+
+            CREATE POLICY "Users can update their own settings."
+              ON public.user_settings FOR UPDATE
+              USING (auth.uid() = user_id);
+
+            -- Notifications are inserted by the acting user's client, so drop the ones
+            -- the recipient has turned off here rather than trusting every caller
+            CREATE OR REPLACE FUNCTION public.apply_notification_preferences()
+            RETURNS TRIGGER
+            LANGUAGE plpgsql
+            SECURITY DEFINER
+            SET search_path = public
+            AS $$
+            DECLARE
+              preferences user_settings%ROWTYPE;
+            BEGIN
+              SELECT * INTO preferences FROM user_settings WHERE user_id = NEW.user_id;
+
+              IF NOT FOUND THEN
+                RETURN NEW;
+              END IF;
+
+              IF (NEW.type = 'like' AND NOT preferences.notify_likes)
+                OR (NEW.type IN ('comment', 'reply') AND NOT preferences.notify_comments)
+                OR (NEW.type IN ('follow', 'follow_request', 'follow_accept') AND NOT preferences.notify_follows)
+                OR (NEW.type IN ('mention', 'message_mention') AND NOT preferences.notify_mentions) THEN
+                RETURN NULL;
+              END IF;
+
+              RETURN NEW;
+            END;
+            $$;
+
+            DROP TRIGGER IF EXISTS apply_notification_preferences ON public.notifications;
+            CREATE TRIGGER apply_notification_preferences
+              BEFORE INSERT ON public.notifications
+              FOR EACH ROW EXECUTE FUNCTION public.apply_notification_preferences();
+
+            -- Whether the current user may start a conversation with another user
+            CREATE OR REPLACE FUNCTION public.can_message(other_user_id UUID)
+            RETURNS BOOLEAN
+            LANGUAGE sql
+            STABLE
+            SECURITY DEFINER
+            SET search_path = public
+            AS $$
+              SELECT CASE COALESCE(
+                (SELECT allow_messages_from FROM user_settings WHERE user_id = other_user_id),
+                'everyone'
+              )
+                WHEN 'everyone' THEN true
+                WHEN 'following' THEN EXISTS (
+                  SELECT 1 FROM follows WHERE follower_id = other_user_id AND following_id = auth.uid()
+                )
+                ELSE false
+              END;
+            $$;
+          `,
+          })
+          .catch((err) => {
+            console.error("Error creating user settings table with SQL:", err)
+          })
+      }
+
+      const { error: privateAccountsError } = await supabase.rpc("add_private_accounts")
+
+      if (privateAccountsError && !privateAccountsError.message.includes("already exists")) {
+        await supabase
+          .rpc("execute_sql", {
+            sql: `
+            ALTER TABLE public.profiles ADD COLUMN IF NOT EXISTS is_private BOOLEAN DEFAULT false NOT NULL;
+
+            -- Whether the current user can see a profile's posts, media and follow lists.
+            -- SECURITY DEFINER so policies on follows can call it without recursing into themselves
+            CREATE OR REPLACE FUNCTION public.can_view_profile_content(profile_id UUID)
+            RETURNS BOOLEAN
+            LANGUAGE sql
+            STABLE
+            SECURITY DEFINER
+            SET search_path = public
+            AS $$
+              SELECT profile_id = auth.uid()
+                OR NOT COALESCE((SELECT is_private FROM profiles WHERE id = profile_id), false)
+                OR EXISTS (SELECT 1 FROM follows WHERE follower_id = auth.uid() AND following_id = profile_id);
+            $$;
+
+            DROP POLICY IF EXISTS "Public posts are viewable by everyone." ON public.posts;
+            CREATE POLICY "Posts are viewable by everyone who can see their author."
+              ON public.posts FOR SELECT
+              USING (public.can_view_profile_content(user_id));
+
+            DROP POLICY IF EXISTS "Post media is viewable by everyone." ON public.post_media;
+            CREATE POLICY "Post media is viewable by everyone who can see its author."
+              ON public.post_media FOR SELECT
+              USING (public.can_view_profile_content(user_id));
+
+            -- Private bucket for post media: files live under <author id>/ and are only reachable through
+            -- signed URLs, which storage hands out to whoever can see the author's posts. Files uploaded
+            -- before this stay in the public post-images bucket. Limits must match components/create-post.tsx
+            INSERT INTO storage.buckets (id, name, public, file_size_limit, allowed_mime_types)
+            VALUES ('post-media', 'post-media', false, 52428800, ARRAY['image/*', 'video/*'])
+            ON CONFLICT (id) DO NOTHING;
+
+            CREATE POLICY "Post media files are visible to everyone who can see their author."
+              ON storage.objects FOR SELECT
+              USING (
+                bucket_id = 'post-media'
+                AND public.can_view_profile_content(((storage.foldername(name))[1])::uuid)
+              );
+
+            CREATE POLICY "Users can upload post media as themselves."
+              ON storage.objects FOR INSERT
+              WITH CHECK (bucket_id = 'post-media' AND auth.uid()::text = (storage.foldername(name))[1]);
+
+            CREATE POLICY "Users can delete their own post media files."
+              ON storage.objects FOR DELETE
+              USING (bucket_id = 'post-media' AND auth.uid()::text = (storage.foldername(name))[1]);
+
+            DROP POLICY IF EXISTS "Follows are viewable by everyone." ON public.follows;
+            CREATE POLICY "Follows are viewable by everyone who can see both users."
+              ON public.follows FOR SELECT
+              USING (public.can_view_profile_content(follower_id) AND public.can_view_profile_content(following_id));
+
+            -- Private accounts are followed through an approved follow request instead
+            DROP POLICY IF EXISTS "Users can follow others as themselves." ON public.follows;
+            CREATE POLICY "Users can follow public accounts as themselves."
+              ON public.follows FOR INSERT
+              WITH CHECK (
+                auth.uid() = follower_id AND
+                NOT (SELECT is_private FROM public.profiles WHERE profiles.id = following_id)
+              );
+
+            CREATE POLICY "Users can remove their own followers."
+              ON public.follows FOR DELETE
+              USING (auth.uid() = following_id);
+
+            -- Everything hanging off a post follows the post's visibility. Posts are queried
+            -- with the caller's permissions here, so the posts policy above decides
+            DROP POLICY IF EXISTS "Post tags are viewable by everyone." ON public.post_tags;
+            CREATE POLICY "Post tags are viewable with their post."
+              ON public.post_tags FOR SELECT
+              USING (EXISTS (SELECT 1 FROM public.posts WHERE posts.id = post_tags.post_id));
+
+            DROP POLICY IF EXISTS "Post revisions are viewable by everyone." ON public.post_revisions;
+            CREATE POLICY "Post revisions are viewable with their post."
+              ON public.post_revisions FOR SELECT
+              USING (EXISTS (SELECT 1 FROM public.posts WHERE posts.id = post_revisions.post_id));
+
+            CREATE POLICY "Comments are only accessible with their post."
+              ON public.comments AS RESTRICTIVE FOR ALL
+              USING (EXISTS (SELECT 1 FROM public.posts WHERE posts.id = comments.post_id))
+              WITH CHECK (EXISTS (SELECT 1 FROM public.posts WHERE posts.id = comments.post_id));
+
+            CREATE POLICY "Likes are only accessible with their post."
+              ON public.likes AS RESTRICTIVE FOR ALL
+              USING (EXISTS (SELECT 1 FROM public.posts WHERE posts.id = likes.post_id))
+              WITH CHECK (EXISTS (SELECT 1 FROM public.posts WHERE posts.id = likes.post_id));
+
+            CREATE POLICY "Comment likes are only accessible with their post."
+              ON public.comment_likes AS RESTRICTIVE FOR ALL
+              USING (EXISTS (SELECT 1 FROM public.posts WHERE posts.id = comment_likes.post_id))
+              WITH CHECK (EXISTS (SELECT 1 FROM public.posts WHERE posts.id = comment_likes.post_id));
+
+            CREATE TABLE IF NOT EXISTS public.follow_requests (
+              id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+              requester_id UUID REFERENCES public.profiles(id) ON DELETE CASCADE NOT NULL,
+              target_id UUID REFERENCES public.profiles(id) ON DELETE CASCADE NOT NULL,
+              created_at TIMESTAMP WITH TIME ZONE DEFAULT TIMEZONE('utc', NOW()) NOT NULL,
+              UNIQUE (requester_id, target_id),
+              CHECK (requester_id <> target_id)
+            );
+
+            CREATE INDEX IF NOT EXISTS follow_requests_target_id_idx ON public.follow_requests (target_id, created_at DESC);
+
+            ALTER TABLE public.follow_requests ENABLE ROW LEVEL SECURITY;
+
+            CREATE POLICY "Follow requests are viewable by both users."
+              ON public.follow_requests FOR SELECT
+              USING (auth.uid() IN (requester_id, target_id));
+
+            CREATE POLICY "Users can request to follow private accounts as themselves."
+              ON public.follow_requests FOR INSERT
+              WITH CHECK (
+                auth.uid() = requester_id AND
+                (SELECT is_private FROM public.profiles WHERE profiles.id = target_id) AND
+                NOT EXISTS (
+                  SELECT 1 FROM public.follows
+                  WHERE follows.follower_id = requester_id AND follows.following_id = target_id
+                )
+              );
+
+            CREATE POLICY "Either user can withdraw or deny a follow request."
+              ON public.follow_requests FOR DELETE
+              USING (auth.uid() IN (requester_id, target_id));
+
+            -- Approve or deny a request sent to the current user
+            CREATE OR REPLACE FUNCTION public.respond_to_follow_request(request_id UUID, approve BOOLEAN)
+            RETURNS VOID
+            LANGUAGE plpgsql
+            SECURITY DEFINER
+            SET search_path = public
+            AS $$
+            DECLARE
+              request follow_requests%ROWTYPE;
+            BEGIN
+              DELETE FROM follow_requests
+                WHERE id = request_id AND target_id = auth.uid()
+                RETURNING * INTO request;
+
+              IF NOT FOUND THEN
+                RAISE EXCEPTION 'Follow request not found';
+              END IF;
+
+              DELETE FROM notifications
+                WHERE user_id = auth.uid() AND type = 'follow_request' AND from_user_id = request.requester_id;
+
+              IF approve THEN
+                INSERT INTO follows (follower_id, following_id)
+                VALUES (request.requester_id, request.target_id)
+                ON CONFLICT DO NOTHING;
+
+                INSERT INTO notifications (user_id, type, related_id, from_user_id, is_read)
+                VALUES (request.requester_id, 'follow_accept', auth.uid(), auth.uid(), false);
+              END IF;
+            END;
+            $$;
+
+            -- Going public approves everyone who was waiting
+            CREATE OR REPLACE FUNCTION public.approve_follow_requests_when_public()
+            RETURNS TRIGGER
+            LANGUAGE plpgsql
+            SECURITY DEFINER
+            SET search_path = public
+            AS $$
+            BEGIN
+              IF OLD.is_private AND NOT NEW.is_private THEN
+                INSERT INTO follows (follower_id, following_id)
+                SELECT requester_id, target_id FROM follow_requests WHERE target_id = NEW.id
+                ON CONFLICT DO NOTHING;
+
+                DELETE FROM follow_requests WHERE target_id = NEW.id;
+                DELETE FROM notifications WHERE user_id = NEW.id AND type = 'follow_request';
+              END IF;
+
+              RETURN NEW;
+            END;
+            $$;
+
+            DROP TRIGGER IF EXISTS on_profile_made_public ON public.profiles;
+            CREATE TRIGGER on_profile_made_public
+              AFTER UPDATE OF is_private ON public.profiles
+              FOR EACH ROW EXECUTE FUNCTION public.approve_follow_requests_when_public();
+
+            -- Profile counters stay visible on private profiles even though the rows behind them aren't
+            CREATE OR REPLACE FUNCTION public.get_profile_stats(profile_id UUID)
+            RETURNS TABLE (posts_count BIGINT, followers_count BIGINT, following_count BIGINT)
+            LANGUAGE sql
+            STABLE
+            SECURITY DEFINER
+            SET search_path = public
+            AS $$
+              SELECT
+                (SELECT COUNT(*) FROM posts WHERE user_id = profile_id),
+                (SELECT COUNT(*) FROM follows WHERE following_id = profile_id),
+                (SELECT COUNT(*) FROM follows WHERE follower_id = profile_id);
+            $$;
+          `,
+          })
+          .catch((err) => {
+            console.error("Error adding private accounts with SQL:", err)
+          })
+      }
+
+      const { error: blocksError } = await supabase.rpc("create_blocks_and_mutes_tables")
+
+      if (blocksError && !blocksError.message.includes("already exists")) {
+        await supabase
+          .rpc("execute_sql", {
+            sql: `
+            -- Blocking makes both users invisible to each other; muting only hides the muted user from the muter
+            CREATE TABLE IF NOT EXISTS public.blocks (
+              blocker_id UUID REFERENCES public.profiles(id) ON DELETE CASCADE NOT NULL,
+              blocked_id UUID REFERENCES public.profiles(id) ON DELETE CASCADE NOT NULL,
+              created_at TIMESTAMP WITH TIME ZONE DEFAULT TIMEZONE('utc', NOW()) NOT NULL,
+              PRIMARY KEY (blocker_id, blocked_id),
+              CHECK (blocker_id <> blocked_id)
+            );
+
+            CREATE INDEX IF NOT EXISTS blocks_blocked_id_idx ON public.blocks (blocked_id);
+
+            ALTER TABLE public.blocks ENABLE ROW LEVEL SECURITY;
+
+            CREATE POLICY "Users can view who they have blocked."
+              ON public.blocks FOR SELECT
+              USING (auth.uid() = blocker_id);
+
+            CREATE POLICY "Users can block others as themselves."
+              ON public.blocks FOR INSERT
+              WITH CHECK (auth.uid() = blocker_id);
+
+            CREATE POLICY "Users can unblock as themselves."
+              ON public.blocks FOR DELETE
+              USING (auth.uid() = blocker_id);
+
+            CREATE TABLE IF NOT EXISTS public.mutes (
+              muter_id UUID REFERENCES public.profiles(id) ON DELETE CASCADE NOT NULL,
+              muted_id UUID REFERENCES public.profiles(id) ON DELETE CASCADE NOT NULL,
+              created_at TIMESTAMP WITH TIME ZONE DEFAULT TIMEZONE('utc', NOW()) NOT NULL,
+              PRIMARY KEY (muter_id, muted_id),
+              CHECK (muter_id <> muted_id)
+            );
+
+            ALTER TABLE public.mutes ENABLE ROW LEVEL SECURITY;
+
+            CREATE POLICY "Users can view who they have muted."
+              ON public.mutes FOR SELECT
+              USING (auth.uid() = muter_id);
+
+            CREATE POLICY "Users can mute others as themselves."
+              ON public.mutes FOR INSERT
+              WITH CHECK (auth.uid() = muter_id);
+
+            CREATE POLICY "Users can unmute as themselves."
+              ON public.mutes FOR DELETE
+              USING (auth.uid() = muter_id);
+
+            -- Whether either user has blocked the other. SECURITY DEFINER because users
+            -- can't read the blocks placed on them
+            CREATE OR REPLACE FUNCTION public.users_blocked(user_a UUID, user_b UUID)
+            RETURNS BOOLEAN
+            LANGUAGE sql
+            STABLE
+            SECURITY DEFINER
+            SET search_path = public
+            AS $$
+              SELECT EXISTS (
+                SELECT 1 FROM blocks
+                WHERE (blocker_id = user_a AND blocked_id = user_b)
+                  OR (blocker_id = user_b AND blocked_id = user_a)
+              );
+            $$;
+
+            -- Everyone the current user has blocked or been blocked by
+            CREATE OR REPLACE FUNCTION public.blocked_user_ids()
+            RETURNS SETOF UUID
+            LANGUAGE sql
+            STABLE
+            SECURITY DEFINER
+            SET search_path = public
+            AS $$
+              SELECT blocked_id FROM blocks WHERE blocker_id = auth.uid()
+              UNION
+              SELECT blocker_id FROM blocks WHERE blocked_id = auth.uid();
+            $$;
+
+            CREATE POLICY "Posts are hidden between blocked users."
+              ON public.posts AS RESTRICTIVE FOR SELECT
+              USING (NOT public.users_blocked(auth.uid(), user_id));
+
+            CREATE POLICY "Comments are hidden between blocked users."
+              ON public.comments AS RESTRICTIVE FOR SELECT
+              USING (NOT public.users_blocked(auth.uid(), user_id));
+
+            CREATE POLICY "Blocked users can't follow each other."
+              ON public.follows AS RESTRICTIVE FOR INSERT
+              WITH CHECK (NOT public.users_blocked(follower_id, following_id));
+
+            CREATE POLICY "Blocked users can't request to follow each other."
+              ON public.follow_requests AS RESTRICTIVE FOR INSERT
+              WITH CHECK (NOT public.users_blocked(requester_id, target_id));
+
+            -- Direct chats go quiet once either side blocks the other
+            CREATE POLICY "Blocked users can't message each other directly."
+              ON public.messages AS RESTRICTIVE FOR INSERT
+              WITH CHECK (
+                EXISTS (SELECT 1 FROM public.chats WHERE chats.id = messages.chat_id AND chats.is_group) OR
+                NOT EXISTS (
+                  SELECT 1 FROM public.chat_members
+                  WHERE chat_members.chat_id = messages.chat_id
+                    AND public.users_blocked(auth.uid(), chat_members.user_id)
+                )
+              );
+
+            CREATE OR REPLACE FUNCTION public.can_message(other_user_id UUID)
+            RETURNS BOOLEAN
+            LANGUAGE sql
+            STABLE
+            SECURITY DEFINER
+            SET search_path = public
+            AS $$
+              SELECT NOT users_blocked(auth.uid(), other_user_id) AND CASE COALESCE(
+                (SELECT allow_messages_from FROM user_settings WHERE user_id = other_user_id),
+                'everyone'
+              )
+                WHEN 'everyone' THEN true
+                WHEN 'following' THEN EXISTS (
+                  SELECT 1 FROM follows WHERE follower_id = other_user_id AND following_id = auth.uid()
+                )
+                ELSE false
+              END;
+            $$;
+
+            -- Notifications are inserted by the acting user's client, so drop them here
+            CREATE OR REPLACE FUNCTION public.drop_blocked_notifications()
+            RETURNS TRIGGER
+            LANGUAGE plpgsql
+            SECURITY DEFINER
+            SET search_path = public
+            AS $$
+            BEGIN
+              IF users_blocked(NEW.user_id, NEW.from_user_id) THEN
+                RETURN NULL;
+              END IF;
+
+              RETURN NEW;
+            END;
+            $$;
+
+            DROP TRIGGER IF EXISTS drop_blocked_notifications ON public.notifications;
+            CREATE TRIGGER drop_blocked_notifications
+              BEFORE INSERT ON public.notifications
+              FOR EACH ROW EXECUTE FUNCTION public.drop_blocked_notifications();
+
+            -- Blocking ends any follow relationship in either direction
+            CREATE OR REPLACE FUNCTION public.remove_blocked_follows()
+            RETURNS TRIGGER
+            LANGUAGE plpgsql
+            SECURITY DEFINER
+            SET search_path = public
+            AS $$
+            BEGIN
+              DELETE FROM follows
+                WHERE (follower_id = NEW.blocker_id AND following_id = NEW.blocked_id)
+                  OR (follower_id = NEW.blocked_id AND following_id = NEW.blocker_id);
+
+              DELETE FROM follow_requests
+                WHERE (requester_id = NEW.blocker_id AND target_id = NEW.blocked_id)
+                  OR (requester_id = NEW.blocked_id AND target_id = NEW.blocker_id);
+
+              RETURN NEW;
+            END;
+            $$;
+
+            DROP TRIGGER IF EXISTS on_user_blocked ON public.blocks;
+            CREATE TRIGGER on_user_blocked
+              AFTER INSERT ON public.blocks
+              FOR EACH ROW EXECUTE FUNCTION public.remove_blocked_follows();
+          `,
+          })
+          .catch((err) => {
+            console.error("Error creating blocks and mutes tables with SQL:", err)
+          })
+      }
+
+      const { error: moderationError } = await supabase.rpc("create_moderation_tables")
+
+      if (moderationError && !moderationError.message.includes("already exists")) {
+        await supabase
+          .rpc("execute_sql", {
+            sql: `
+            -- Staff roles. Users without a row are regular users; rows are managed by admins only
+            CREATE TABLE IF NOT EXISTS public.user_roles (
+              user_id UUID PRIMARY KEY REFERENCES public.profiles(id) ON DELETE CASCADE,
+              role TEXT NOT NULL CHECK (role IN ('moderator', 'admin')),
+              created_at TIMESTAMP WITH TIME ZONE DEFAULT TIMEZONE('utc', NOW()) NOT NULL
+            );
+
+            ALTER TABLE public.user_roles ENABLE ROW LEVEL SECURITY;
+
+            CREATE POLICY "Users can view their own role."
+              ON public.user_roles FOR SELECT
+              USING (auth.uid() = user_id);
+
+            CREATE OR REPLACE FUNCTION public.is_moderator()
+            RETURNS BOOLEAN
+            LANGUAGE sql
+            STABLE
+            SECURITY DEFINER
+            SET search_path = public
+            AS $$
+              SELECT EXISTS (SELECT 1 FROM user_roles WHERE user_id = auth.uid() AND role IN ('moderator', 'admin'));
+            $$;
+
+            ALTER TABLE public.profiles ADD COLUMN IF NOT EXISTS suspended_until TIMESTAMP WITH TIME ZONE;
+            ALTER TABLE public.posts ADD COLUMN IF NOT EXISTS is_hidden BOOLEAN DEFAULT false NOT NULL;
+            ALTER TABLE public.comments ADD COLUMN IF NOT EXISTS is_hidden BOOLEAN DEFAULT false NOT NULL;
+            ALTER TABLE public.messages ADD COLUMN IF NOT EXISTS is_hidden BOOLEAN DEFAULT false NOT NULL;
+
+            CREATE OR REPLACE FUNCTION public.is_suspended(user_id UUID)
+            RETURNS BOOLEAN
+            LANGUAGE sql
+            STABLE
+            SECURITY DEFINER
+            SET search_path = public
+            AS $$
+              SELECT COALESCE((SELECT suspended_until > NOW() FROM profiles WHERE id = user_id), false);
+            $$;
+
+            -- The owner update policies cover whole rows, so keep users from lifting their own
+            -- suspension or unhiding their own content. Only moderators may change these columns
+            CREATE OR REPLACE FUNCTION public.protect_moderation_columns()
+            RETURNS TRIGGER
+            LANGUAGE plpgsql
+            SET search_path = public
+            AS $$
+            BEGIN
+              IF TG_TABLE_NAME = 'profiles' THEN
+                IF NEW.suspended_until IS DISTINCT FROM OLD.suspended_until AND NOT is_moderator() THEN
+                  RAISE EXCEPTION 'Only moderators can change suspensions';
+                END IF;
+              ELSIF NEW.is_hidden IS DISTINCT FROM OLD.is_hidden AND NOT is_moderator() THEN
+                RAISE EXCEPTION 'Only moderators can hide or unhide content';
+              END IF;
+
+              RETURN NEW;
+            END;
+            $$;
+
+            DROP TRIGGER IF EXISTS protect_moderation_columns ON public.profiles;
+            CREATE TRIGGER protect_moderation_columns
+              BEFORE UPDATE ON public.profiles
+              FOR EACH ROW EXECUTE FUNCTION public.protect_moderation_columns();
+
+            DROP TRIGGER IF EXISTS protect_moderation_columns ON public.posts;
+            CREATE TRIGGER protect_moderation_columns
+              BEFORE UPDATE ON public.posts
+              FOR EACH ROW EXECUTE FUNCTION public.protect_moderation_columns();
+
+            DROP TRIGGER IF EXISTS protect_moderation_columns ON public.comments;
+            CREATE TRIGGER protect_moderation_columns
+              BEFORE UPDATE ON public.comments
+              FOR EACH ROW EXECUTE FUNCTION public.protect_moderation_columns();
+
+            DROP TRIGGER IF EXISTS protect_moderation_columns ON public.messages;
+            CREATE TRIGGER protect_moderation_columns
+              BEFORE UPDATE ON public.messages
+              FOR EACH ROW EXECUTE FUNCTION public.protect_moderation_columns();
+
+            -- Hidden content stays visible to its author and to moderators
+            CREATE POLICY "Hidden posts are only visible to their author and moderators."
+              ON public.posts AS RESTRICTIVE FOR SELECT
+              USING (NOT is_hidden OR auth.uid() = user_id OR public.is_moderator());
+
+            CREATE POLICY "Hidden comments are only visible to their author and moderators."
+              ON public.comments AS RESTRICTIVE FOR SELECT
+              USING (NOT is_hidden OR auth.uid() = user_id OR public.is_moderator());
+
+            CREATE POLICY "Hidden messages are only visible to their author and moderators."
+              ON public.messages AS RESTRICTIVE FOR SELECT
+              USING (NOT is_hidden OR auth.uid() = user_id OR public.is_moderator());
+
+            -- Suspended users can still sign in and read, but can't post anything new
+            CREATE POLICY "Suspended users can't post."
+              ON public.posts AS RESTRICTIVE FOR INSERT
+              WITH CHECK (NOT public.is_suspended(auth.uid()));
+
+            CREATE POLICY "Suspended users can't comment."
+              ON public.comments AS RESTRICTIVE FOR INSERT
+              WITH CHECK (NOT public.is_suspended(auth.uid()));
+
+            CREATE POLICY "Suspended users can't send messages."
+              ON public.messages AS RESTRICTIVE FOR INSERT
+              WITH CHECK (NOT public.is_suspended(auth.uid()));
+
+            -- Reason values must match REPORT_REASONS in lib/moderation.ts
+            CREATE TABLE IF NOT EXISTS public.reports (
+              id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+              reporter_id UUID REFERENCES public.profiles(id) ON DELETE CASCADE NOT NULL,
+              target_type TEXT NOT NULL CHECK (target_type IN ('post', 'comment', 'message', 'profile')),
+              target_id UUID NOT NULL,
+              -- Filled in on insert, so reports survive the reported content being edited or deleted
+              target_user_id UUID REFERENCES public.profiles(id) ON DELETE CASCADE,
+              target_content TEXT,
+              reason TEXT NOT NULL
+                CHECK (reason IN ('spam', 'harassment', 'hate', 'violence', 'nudity', 'misinformation', 'other')),
+              details TEXT CHECK (char_length(details) <= 500),
+              status TEXT DEFAULT 'open' NOT NULL CHECK (status IN ('open', 'dismissed', 'actioned')),
+              created_at TIMESTAMP WITH TIME ZONE DEFAULT TIMEZONE('utc', NOW()) NOT NULL,
+              resolved_at TIMESTAMP WITH TIME ZONE,
+              resolved_by UUID REFERENCES public.profiles(id) ON DELETE SET NULL,
+              UNIQUE (reporter_id, target_type, target_id)
+            );
+
+            CREATE INDEX IF NOT EXISTS reports_status_idx ON public.reports (status, created_at DESC);
+            CREATE INDEX IF NOT EXISTS reports_target_idx ON public.reports (target_type, target_id);
+
+            ALTER TABLE public.reports ENABLE ROW LEVEL SECURITY;
+
+            -- Reports carry a snapshot of the reported content, so only moderators can read them back
+            CREATE POLICY "Moderators can view reports."
+              ON public.reports FOR SELECT
+              USING (public.is_moderator());
+
+            -- Runs as the reporter, so the usual policies decide whether they can see what they're reporting:
+            -- private and blocked posts and their comments, and messages only in chats they're in
+            CREATE OR REPLACE FUNCTION public.can_view_report_target(target_type TEXT, target_id UUID)
+            RETURNS BOOLEAN
+            LANGUAGE sql
+            STABLE
+            SECURITY INVOKER
+            SET search_path = public
+            AS $$
+              SELECT CASE target_type
+                WHEN 'post' THEN EXISTS (SELECT 1 FROM posts WHERE id = target_id)
+                WHEN 'comment' THEN EXISTS (SELECT 1 FROM comments WHERE id = target_id)
+                WHEN 'message' THEN EXISTS (SELECT 1 FROM messages WHERE id = target_id)
+                WHEN 'profile' THEN EXISTS (SELECT 1 FROM profiles WHERE id = target_id)
+                ELSE false
+              END;
+            $$;
+
+            CREATE POLICY "Users can report what they can see, as themselves."
+              ON public.reports FOR INSERT
+              WITH CHECK (
+                auth.uid() = reporter_id
+                AND status = 'open'
+                AND public.can_view_report_target(target_type, target_id)
+              );
+
+            -- Reads past RLS to fill in the snapshot. The insert policy above still rejects the row
+            -- when the reporter can't see the target, and reporters can't read reports back
+            CREATE OR REPLACE FUNCTION public.snapshot_report_target()
+            RETURNS TRIGGER
+            LANGUAGE plpgsql
+            SECURITY DEFINER
+            SET search_path = public
+            AS $$
+            BEGIN
+              CASE NEW.target_type
+                WHEN 'post' THEN
+                  SELECT user_id, content INTO NEW.target_user_id, NEW.target_content FROM posts WHERE id = NEW.target_id;
+                WHEN 'comment' THEN
+                  SELECT user_id, content INTO NEW.target_user_id, NEW.target_content FROM comments WHERE id = NEW.target_id;
+                WHEN 'message' THEN
+                  SELECT user_id, content INTO NEW.target_user_id, NEW.target_content FROM messages WHERE id = NEW.target_id;
+                WHEN 'profile' THEN
+                  SELECT id, concat_ws(' ', username, display_name, bio)
+                    INTO NEW.target_user_id, NEW.target_content FROM profiles WHERE id = NEW.target_id;
+              END CASE;
+
+              IF NEW.target_user_id IS NULL THEN
+                RAISE EXCEPTION 'Reported content not found';
+              END IF;
+
+              RETURN NEW;
+            END;
+            $$;
+
+            DROP TRIGGER IF EXISTS snapshot_report_target ON public.reports;
+            CREATE TRIGGER snapshot_report_target
+              BEFORE INSERT ON public.reports
+              FOR EACH ROW EXECUTE FUNCTION public.snapshot_report_target();
+
+            -- Every moderator action, written by the moderation functions below
+            CREATE TABLE IF NOT EXISTS public.moderation_actions (
+              id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+              moderator_id UUID REFERENCES public.profiles(id) ON DELETE SET NULL,
+              action TEXT NOT NULL CHECK (action IN ('dismiss', 'hide', 'suspend', 'unsuspend')),
+              target_type TEXT NOT NULL CHECK (target_type IN ('post', 'comment', 'message', 'profile')),
+              target_id UUID NOT NULL,
+              report_id UUID REFERENCES public.reports(id) ON DELETE SET NULL,
+              note TEXT,
+              created_at TIMESTAMP WITH TIME ZONE DEFAULT TIMEZONE('utc', NOW()) NOT NULL
+            );
+
+            CREATE INDEX IF NOT EXISTS moderation_actions_created_at_idx ON public.moderation_actions (created_at DESC);
+
+            ALTER TABLE public.moderation_actions ENABLE ROW LEVEL SECURITY;
+
+            CREATE POLICY "Moderators can view the moderation log."
+              ON public.moderation_actions FOR SELECT
+              USING (public.is_moderator());
+
+            -- Resolve every open report on a report's target: dismiss them, hide the content
+            -- or suspend its author for suspend_days
+            CREATE OR REPLACE FUNCTION public.moderate_report(
+              report_id UUID,
+              action TEXT,
+              suspend_days INT DEFAULT 7,
+              note TEXT DEFAULT NULL
+            )
+            RETURNS VOID
+            LANGUAGE plpgsql
+            SECURITY DEFINER
+            SET search_path = public
+            AS $$
+            DECLARE
+              report reports%ROWTYPE;
+            BEGIN
+              IF NOT is_moderator() THEN
+                RAISE EXCEPTION 'Only moderators can moderate reports';
+              END IF;
+
+              SELECT * INTO report FROM reports WHERE id = moderate_report.report_id;
+
+              IF NOT FOUND THEN
+                RAISE EXCEPTION 'Report not found';
+              END IF;
+
+              CASE moderate_report.action
+                WHEN 'dismiss' THEN
+                  NULL;
+                WHEN 'hide' THEN
+                  CASE report.target_type
+                    WHEN 'post' THEN UPDATE posts SET is_hidden = true WHERE id = report.target_id;
+                    WHEN 'comment' THEN UPDATE comments SET is_hidden = true WHERE id = report.target_id;
+                    WHEN 'message' THEN UPDATE messages SET is_hidden = true WHERE id = report.target_id;
+                    ELSE RAISE EXCEPTION 'Profiles can''t be hidden, suspend the account instead';
+                  END CASE;
+                WHEN 'suspend' THEN
+                  IF suspend_days IS NULL OR suspend_days < 1 THEN
+                    RAISE EXCEPTION 'Suspensions must last at least a day';
+                  END IF;
+
+                  UPDATE profiles
+                    SET suspended_until = GREATEST(COALESCE(suspended_until, NOW()), NOW() + make_interval(days => suspend_days))
+                    WHERE id = report.target_user_id;
+                ELSE
+                  RAISE EXCEPTION 'Unknown moderation action %', moderate_report.action;
+              END CASE;
+
+              UPDATE reports
+                SET status = CASE WHEN moderate_report.action = 'dismiss' THEN 'dismissed' ELSE 'actioned' END,
+                    resolved_at = NOW(),
+                    resolved_by = auth.uid()
+                WHERE target_type = report.target_type AND target_id = report.target_id AND status = 'open';
+
+              INSERT INTO moderation_actions (moderator_id, action, target_type, target_id, report_id, note)
+              VALUES (
+                auth.uid(),
+                moderate_report.action,
+                CASE WHEN moderate_report.action = 'suspend' THEN 'profile' ELSE report.target_type END,
+                CASE WHEN moderate_report.action = 'suspend' THEN report.target_user_id ELSE report.target_id END,
+                report.id,
+                moderate_report.note
+              );
+            END;
+            $$;
+          `,
+          })
+          .catch((err) => {
+            console.error("Error creating moderation tables with SQL:", err)
+          })
+      }
+
+      const { error: adminError } = await supabase.rpc("create_admin_functions")
+
+      if (adminError && !adminError.message.includes("already exists")) {
+        await supabase
+          .rpc("execute_sql", {
+            sql: `
+            CREATE OR REPLACE FUNCTION public.is_admin()
+            RETURNS BOOLEAN
+            LANGUAGE sql
+            STABLE
+            SECURITY DEFINER
+            SET search_path = public
+            AS $$
+              SELECT EXISTS (SELECT 1 FROM user_roles WHERE user_id = auth.uid() AND role = 'admin');
+            $$;
+
+            CREATE POLICY "Admins can view all roles."
+              ON public.user_roles FOR SELECT
+              USING (public.is_admin());
+
+            -- Adds the user's role to every access token as the user_role claim ('user' when they have no row).
+            -- Enable it under Authentication > Hooks > Customize Access Token. Role changes reach the token on its
+            -- next refresh; the database checks below always read user_roles directly
+            CREATE OR REPLACE FUNCTION public.custom_access_token_hook(event JSONB)
+            RETURNS JSONB
+            LANGUAGE plpgsql
+            STABLE
+            AS $$
+            DECLARE
+              claims JSONB;
+              user_role TEXT;
+            BEGIN
+              SELECT role INTO user_role FROM public.user_roles WHERE user_id = (event->>'user_id')::UUID;
+
+              claims := jsonb_set(event->'claims', '{user_role}', to_jsonb(COALESCE(user_role, 'user')));
+
+              RETURN jsonb_set(event, '{claims}', claims);
+            END;
+            $$;
+
+            GRANT USAGE ON SCHEMA public TO supabase_auth_admin;
+            GRANT EXECUTE ON FUNCTION public.custom_access_token_hook TO supabase_auth_admin;
+            REVOKE EXECUTE ON FUNCTION public.custom_access_token_hook FROM authenticated, anon, public;
+            GRANT SELECT ON TABLE public.user_roles TO supabase_auth_admin;
+
+            CREATE POLICY "The auth server can read roles for token claims."
+              ON public.user_roles FOR SELECT
+              TO supabase_auth_admin
+              USING (true);
+
+            ALTER TABLE public.moderation_actions DROP CONSTRAINT IF EXISTS moderation_actions_action_check;
+            ALTER TABLE public.moderation_actions ADD CONSTRAINT moderation_actions_action_check
+              CHECK (action IN ('dismiss', 'hide', 'suspend', 'unsuspend', 'sign_out', 'set_role'));
+
+            -- Users matching a username, display name or email, for the admin dashboard
+            CREATE OR REPLACE FUNCTION public.admin_list_users(
+              search_query TEXT DEFAULT '',
+              page_size INT DEFAULT 50,
+              page_offset INT DEFAULT 0
+            )
+            RETURNS TABLE (
+              id UUID,
+              username TEXT,
+              display_name TEXT,
+              avatar_url TEXT,
+              email TEXT,
+              role TEXT,
+              suspended_until TIMESTAMP WITH TIME ZONE,
+              created_at TIMESTAMP WITH TIME ZONE,
+              last_sign_in_at TIMESTAMP WITH TIME ZONE
+            )
+            LANGUAGE plpgsql
+            STABLE
+            SECURITY DEFINER
+            SET search_path = public
+            AS $$
+            BEGIN
+              IF NOT is_admin() THEN
+                RAISE EXCEPTION 'Only admins can list users';
+              END IF;
+
+              RETURN QUERY
+                SELECT
+                  profiles.id,
+                  profiles.username,
+                  profiles.display_name,
+                  profiles.avatar_url,
+                  users.email::TEXT,
+                  COALESCE(user_roles.role, 'user'),
+                  profiles.suspended_until,
+                  profiles.created_at,
+                  users.last_sign_in_at
+                FROM profiles
+                JOIN auth.users ON users.id = profiles.id
+                LEFT JOIN user_roles ON user_roles.user_id = profiles.id
+                WHERE COALESCE(search_query, '') = ''
+                  OR profiles.username ILIKE '%' || search_query || '%'
+                  OR profiles.display_name ILIKE '%' || search_query || '%'
+                  OR users.email ILIKE '%' || search_query || '%'
+                ORDER BY profiles.created_at DESC, profiles.id
+                LIMIT LEAST(page_size, 100) OFFSET page_offset;
+            END;
+            $$;
+
+            -- Suspended users can still sign in and read but can't post, comment or send messages
+            CREATE OR REPLACE FUNCTION public.suspend_user(target_user_id UUID, suspend_days INT, note TEXT DEFAULT NULL)
+            RETURNS VOID
+            LANGUAGE plpgsql
+            SECURITY DEFINER
+            SET search_path = public
+            AS $$
+            BEGIN
+              IF NOT is_admin() THEN
+                RAISE EXCEPTION 'Only admins can suspend users';
+              END IF;
+
+              IF target_user_id = auth.uid() THEN
+                RAISE EXCEPTION 'You can''t suspend yourself';
+              END IF;
+
+              IF suspend_days IS NULL OR suspend_days < 1 THEN
+                RAISE EXCEPTION 'Suspensions must last at least a day';
+              END IF;
+
+              UPDATE profiles SET suspended_until = NOW() + make_interval(days => suspend_days) WHERE id = target_user_id;
+
+              INSERT INTO moderation_actions (moderator_id, action, target_type, target_id, note)
+              VALUES (auth.uid(), 'suspend', 'profile', target_user_id, suspend_user.note);
+            END;
+            $$;
+
+            CREATE OR REPLACE FUNCTION public.unsuspend_user(target_user_id UUID, note TEXT DEFAULT NULL)
+            RETURNS VOID
+            LANGUAGE plpgsql
+            SECURITY DEFINER
+            SET search_path = public
+            AS $$
+            BEGIN
+              IF NOT is_admin() THEN
+                RAISE EXCEPTION 'Only admins can unsuspend users';
+              END IF;
+
+              UPDATE profiles SET suspended_until = NULL WHERE id = target_user_id;
+
+              INSERT INTO moderation_actions (moderator_id, action, target_type, target_id, note)
+              VALUES (auth.uid(), 'unsuspend', 'profile', target_user_id, unsuspend_user.note);
+            END;
+            $$;
+
+            -- Revokes every session, so refresh tokens stop working. Access tokens already issued stay valid
+            -- until they expire, at most the project's JWT expiry later
+            CREATE OR REPLACE FUNCTION public.sign_out_user(target_user_id UUID, note TEXT DEFAULT NULL)
+            RETURNS VOID
+            LANGUAGE plpgsql
+            SECURITY DEFINER
+            SET search_path = public
+            AS $$
+            BEGIN
+              IF NOT is_admin() THEN
+                RAISE EXCEPTION 'Only admins can sign users out';
+              END IF;
+
+              DELETE FROM auth.sessions WHERE user_id = target_user_id;
+
+              INSERT INTO moderation_actions (moderator_id, action, target_type, target_id, note)
+              VALUES (auth.uid(), 'sign_out', 'profile', target_user_id, sign_out_user.note);
+            END;
+            $$;
+
+            CREATE OR REPLACE FUNCTION public.set_user_role(target_user_id UUID, new_role TEXT)
+            RETURNS VOID
+            LANGUAGE plpgsql
+            SECURITY DEFINER
+            SET search_path = public
+            AS $$
+            BEGIN
+              IF NOT is_admin() THEN
+                RAISE EXCEPTION 'Only admins can change roles';
+              END IF;
+
+              IF target_user_id = auth.uid() THEN
+                RAISE EXCEPTION 'You can''t change your own role';
+              END IF;
+
+              IF new_role = 'user' THEN
+                DELETE FROM user_roles WHERE user_id = target_user_id;
+              ELSIF new_role IN ('moderator', 'admin') THEN
+                INSERT INTO user_roles (user_id, role) VALUES (target_user_id, new_role)
+                ON CONFLICT (user_id) DO UPDATE SET role = EXCLUDED.role;
+              ELSE
+                RAISE EXCEPTION 'Unknown role %', new_role;
+              END IF;
+
+              INSERT INTO moderation_actions (moderator_id, action, target_type, target_id, note)
+              VALUES (auth.uid(), 'set_role', 'profile', target_user_id, new_role);
+            END;
+            $$;
+          `,
+          })
+          .catch((err) => {
+            console.error("Error creating admin functions with SQL:", err)
+          })
+      }
+
+      const { error: readReceiptsError } = await supabase.rpc("add_read_receipts")
+
+      if (readReceiptsError && !readReceiptsError.message.includes("already exists")) {
+        await supabase
+          .rpc("execute_sql", {
+            sql: `
+            -- Messages after this are unread. Existing and newly added members start with nothing unread
+            ALTER TABLE public.chat_members
+              ADD COLUMN IF NOT EXISTS last_read_at TIMESTAMP WITH TIME ZONE DEFAULT TIMEZONE('utc', NOW()) NOT NULL;
+
+            CREATE INDEX IF NOT EXISTS messages_chat_id_created_at_idx ON public.messages (chat_id, created_at);
+
+            -- Only ever moves forward, so a stale tab can't mark newer messages unread again
+            CREATE OR REPLACE FUNCTION public.mark_chat_read(chat_id UUID)
+            RETURNS VOID
+            LANGUAGE sql
+            SECURITY DEFINER
+            SET search_path = public
+            AS $$
+              UPDATE chat_members
+                SET last_read_at = GREATEST(last_read_at, NOW())
+                WHERE chat_members.chat_id = mark_chat_read.chat_id AND user_id = auth.uid();
+            $$;
+
+            -- Unread messages from others per chat for the current user. Chats with nothing unread are left out.
+            -- Runs as the caller so hidden messages and blocked users are excluded by RLS
+            CREATE OR REPLACE FUNCTION public.unread_message_counts()
+            RETURNS TABLE (chat_id UUID, unread_count BIGINT)
+            LANGUAGE sql
+            STABLE
+            SECURITY INVOKER
+            SET search_path = public
+            AS $$
+              SELECT messages.chat_id, COUNT(*)
+              FROM chat_members
+              JOIN messages
+                ON messages.chat_id = chat_members.chat_id
+                AND messages.created_at > chat_members.last_read_at
+                AND messages.user_id <> auth.uid()
+              WHERE chat_members.user_id = auth.uid()
+              GROUP BY messages.chat_id;
+            $$;
+          `,
+          })
+          .catch((err) => {
+            console.error("Error adding read receipts with SQL:", err)
+          })
+      }
+
+      const { error: lastSeenError } = await supabase.rpc("add_last_seen")
+
+      if (lastSeenError && !lastSeenError.message.includes("already exists")) {
+        await supabase
+          .rpc("execute_sql", {
+            sql: `
+            -- Live status comes from Realtime presence; this is only for "last seen" once someone goes offline
+            ALTER TABLE public.profiles ADD COLUMN IF NOT EXISTS last_seen_at TIMESTAMP WITH TIME ZONE;
+
+            CREATE OR REPLACE FUNCTION public.touch_last_seen()
+            RETURNS VOID
+            LANGUAGE sql
+            SECURITY DEFINER
+            SET search_path = public
+            AS $$
+              UPDATE profiles SET last_seen_at = NOW() WHERE id = auth.uid();
+            $$;
+          `,
+          })
+          .catch((err) => {
+            console.error("Error adding last seen with SQL:", err)
+          })
+      }
+
+      const { error: messageActionsError } = await supabase.rpc("add_message_actions")
+
+      if (messageActionsError && !messageActionsError.message.includes("already exists")) {
+        await supabase
+          .rpc("execute_sql", {
+            sql: `
+            ALTER TABLE public.messages ADD COLUMN IF NOT EXISTS updated_at TIMESTAMP WITH TIME ZONE;
+            ALTER TABLE public.messages ADD COLUMN IF NOT EXISTS is_deleted BOOLEAN DEFAULT false NOT NULL;
+            ALTER TABLE public.messages
+              ADD COLUMN IF NOT EXISTS reply_to_id UUID REFERENCES public.messages(id) ON DELETE SET NULL;
+
+            CREATE OR REPLACE FUNCTION public.check_message_reply()
+            RETURNS TRIGGER
+            LANGUAGE plpgsql
+            SECURITY DEFINER
+            SET search_path = public
+            AS $$
+            BEGIN
+              IF NEW.reply_to_id IS NOT NULL AND NOT EXISTS (
+                SELECT 1 FROM messages WHERE id = NEW.reply_to_id AND chat_id = NEW.chat_id AND NOT is_deleted
+              ) THEN
+                RAISE EXCEPTION 'Replies must quote a message from the same chat';
+              END IF;
+
+              RETURN NEW;
+            END;
+            $$;
+
+            DROP TRIGGER IF EXISTS check_message_reply ON public.messages;
+            CREATE TRIGGER check_message_reply
+              BEFORE INSERT ON public.messages
+              FOR EACH ROW EXECUTE FUNCTION public.check_message_reply();
+
+            -- Edits and deletes go through these functions so only the author can change a message,
+            -- and only its content. Both reach other members as realtime UPDATE events
+            CREATE OR REPLACE FUNCTION public.edit_message(message_id UUID, new_content TEXT)
+            RETURNS VOID
+            LANGUAGE plpgsql
+            SECURITY DEFINER
+            SET search_path = public
+            AS $$
+            BEGIN
+              IF trim(new_content) = '' THEN
+                RAISE EXCEPTION 'Messages can''t be empty';
+              END IF;
+
+              IF is_suspended(auth.uid()) THEN
+                RAISE EXCEPTION 'Your account is suspended';
+              END IF;
+
+              UPDATE messages
+                SET content = new_content, updated_at = NOW()
+                WHERE id = message_id AND user_id = auth.uid() AND NOT is_deleted;
+
+              IF NOT FOUND THEN
+                RAISE EXCEPTION 'Message not found';
+              END IF;
+            END;
+            $$;
+
+            -- Deleting for everyone leaves a tombstone so replies and the conversation flow still make sense
+            CREATE OR REPLACE FUNCTION public.delete_message(message_id UUID)
+            RETURNS VOID
+            LANGUAGE plpgsql
+            SECURITY DEFINER
+            SET search_path = public
+            AS $$
+            BEGIN
+              UPDATE messages
+                SET content = '', is_deleted = true, updated_at = NOW()
+                WHERE id = message_id AND user_id = auth.uid() AND NOT is_deleted;
+
+              IF NOT FOUND THEN
+                RAISE EXCEPTION 'Message not found';
+              END IF;
+            END;
+            $$;
+          `,
+          })
+          .catch((err) => {
+            console.error("Error adding message actions with SQL:", err)
+          })
+      }
+
+      const { error: reactionsError } = await supabase.rpc("create_reactions_table")
+
+      if (reactionsError && !reactionsError.message.includes("already exists")) {
+        await supabase
+          .rpc("execute_sql", {
+            sql: `
+            -- Emoji must match REACTION_EMOJIS in lib/reactions.ts
+            CREATE TABLE IF NOT EXISTS public.reactions (
+              id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+              target_type TEXT NOT NULL CHECK (target_type IN ('post', 'message')),
+              target_id UUID NOT NULL,
+              user_id UUID REFERENCES public.profiles(id) ON DELETE CASCADE NOT NULL,
+              emoji TEXT NOT NULL CHECK (emoji IN ('👍', '❤️', '😂', '😮', '😢', '🙏')),
+              created_at TIMESTAMP WITH TIME ZONE DEFAULT TIMEZONE('utc', NOW()) NOT NULL,
+              UNIQUE (target_type, target_id, user_id, emoji)
+            );
+
+            CREATE INDEX IF NOT EXISTS reactions_target_idx ON public.reactions (target_type, target_id);
+
+            ALTER TABLE public.reactions ENABLE ROW LEVEL SECURITY;
+
+            -- Runs as the caller, so reactions follow the visibility of what they're on:
+            -- private and blocked posts via the posts policies, messages only for chat members
+            CREATE OR REPLACE FUNCTION public.can_view_reaction_target(target_type TEXT, target_id UUID)
+            RETURNS BOOLEAN
+            LANGUAGE sql
+            STABLE
+            SECURITY INVOKER
+            SET search_path = public
+            AS $$
+              SELECT CASE target_type
+                WHEN 'post' THEN EXISTS (SELECT 1 FROM posts WHERE id = target_id)
+                WHEN 'message' THEN EXISTS (SELECT 1 FROM messages WHERE id = target_id AND NOT is_deleted)
+                ELSE false
+              END;
+            $$;
+
+            CREATE POLICY "Reactions are visible to anyone who can see what they're on."
+              ON public.reactions FOR SELECT
+              USING (public.can_view_reaction_target(target_type, target_id));
+
+            CREATE POLICY "Users can react to what they can see."
+              ON public.reactions FOR INSERT
+              WITH CHECK (
+                auth.uid() = user_id
+                AND public.can_view_reaction_target(target_type, target_id)
+                AND NOT public.is_suspended(auth.uid())
+              );
+
+            CREATE POLICY "Users can remove their own reactions."
+              ON public.reactions FOR DELETE
+              USING (auth.uid() = user_id);
+
+            -- Computed relationships, so posts and messages can embed their reactions in one query
+            CREATE OR REPLACE FUNCTION public.reactions(public.posts)
+            RETURNS SETOF public.reactions
+            LANGUAGE sql
+            STABLE
+            AS $$
+              SELECT * FROM public.reactions WHERE target_type = 'post' AND target_id = $1.id;
+            $$;
+
+            CREATE OR REPLACE FUNCTION public.reactions(public.messages)
+            RETURNS SETOF public.reactions
+            LANGUAGE sql
+            STABLE
+            AS $$
+              SELECT * FROM public.reactions WHERE target_type = 'message' AND target_id = $1.id;
+            $$;
+          `,
+          })
+          .catch((err) => {
+            console.error("Error creating reactions table with SQL:", err)
+          })
+      }
+
+      const { error: messageAttachmentsError } = await supabase.rpc("add_message_attachments")
+
+      if (messageAttachmentsError && !messageAttachmentsError.message.includes("already exists")) {
+        await supabase
+          .rpc("execute_sql", {
+            sql: `
+            -- One attachment per message. Files live under <chat id>/<sender id>/ in the chat-attachments bucket
+            ALTER TABLE public.messages
+              ADD COLUMN IF NOT EXISTS attachment_path TEXT,
+              ADD COLUMN IF NOT EXISTS attachment_name TEXT CHECK (char_length(attachment_name) <= 255),
+              ADD COLUMN IF NOT EXISTS attachment_mime_type TEXT,
+              ADD COLUMN IF NOT EXISTS attachment_size INTEGER CHECK (attachment_size > 0),
+              ADD COLUMN IF NOT EXISTS attachment_kind TEXT CHECK (attachment_kind IN ('image', 'file', 'voice')),
+              ADD COLUMN IF NOT EXISTS attachment_duration REAL CHECK (attachment_duration > 0);
+
+            ALTER TABLE public.messages DROP CONSTRAINT IF EXISTS messages_attachment_path_check;
+            ALTER TABLE public.messages ADD CONSTRAINT messages_attachment_path_check CHECK (
+              attachment_path IS NULL OR (
+                attachment_path LIKE chat_id::text || '/' || user_id::text || '/%'
+                AND attachment_name IS NOT NULL
+                AND attachment_mime_type IS NOT NULL
+                AND attachment_size IS NOT NULL
+                AND attachment_kind IS NOT NULL
+              )
+            );
+
+            -- Private bucket: files are only reachable through signed URLs handed out to chat members.
+            -- Size and types must match the limits in lib/chat-attachments.ts
+            INSERT INTO storage.buckets (id, name, public, file_size_limit, allowed_mime_types)
+            VALUES (
+              'chat-attachments',
+              'chat-attachments',
+              false,
+              26214400,
+              ARRAY[
+                'image/jpeg', 'image/png', 'image/gif', 'image/webp',
+                'audio/webm', 'audio/ogg', 'audio/mp4', 'audio/mpeg', 'audio/wav',
+                'application/pdf', 'text/plain', 'text/csv', 'application/zip',
+                'application/msword',
+                'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+                'application/vnd.ms-excel',
+                'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+                'application/vnd.ms-powerpoint',
+                'application/vnd.openxmlformats-officedocument.presentationml.presentation'
+              ]
+            )
+            ON CONFLICT (id) DO NOTHING;
+
+            CREATE OR REPLACE FUNCTION public.is_chat_member(chat_id UUID)
+            RETURNS BOOLEAN
+            LANGUAGE sql
+            STABLE
+            SECURITY DEFINER
+            SET search_path = public
+            AS $$
+              SELECT EXISTS (
+                SELECT 1 FROM chat_members
+                WHERE chat_members.chat_id = is_chat_member.chat_id AND chat_members.user_id = auth.uid()
+              );
+            $$;
+
+            CREATE POLICY "Chat attachments are visible to chat members."
+              ON storage.objects FOR SELECT
+              USING (
+                bucket_id = 'chat-attachments'
+                AND public.is_chat_member(((storage.foldername(name))[1])::uuid)
+              );
+
+            CREATE POLICY "Chat members can upload attachments."
+              ON storage.objects FOR INSERT
+              WITH CHECK (
+                bucket_id = 'chat-attachments'
+                AND auth.uid()::text = (storage.foldername(name))[2]
+                AND public.is_chat_member(((storage.foldername(name))[1])::uuid)
+                AND NOT public.is_suspended(auth.uid())
+              );
+
+            CREATE POLICY "Users can delete their own chat attachments."
+              ON storage.objects FOR DELETE
+              USING (bucket_id = 'chat-attachments' AND auth.uid()::text = (storage.foldername(name))[2]);
+
+            -- Messages with an attachment may have no text, so edits no longer need any
+            CREATE OR REPLACE FUNCTION public.edit_message(message_id UUID, new_content TEXT)
+            RETURNS VOID
+            LANGUAGE plpgsql
+            SECURITY DEFINER
+            SET search_path = public
+            AS $$
+            BEGIN
+              IF is_suspended(auth.uid()) THEN
+                RAISE EXCEPTION 'Your account is suspended';
+              END IF;
+
+              UPDATE messages
+                SET content = new_content, updated_at = NOW()
+                WHERE id = message_id AND user_id = auth.uid() AND NOT is_deleted
+                  AND (trim(new_content) <> '' OR attachment_path IS NOT NULL);
+
+              IF NOT FOUND THEN
+                RAISE EXCEPTION 'Message not found or empty';
+              END IF;
+            END;
+            $$;
+
+            -- Tombstones drop the attachment too; the sender removes the file from storage afterwards
+            CREATE OR REPLACE FUNCTION public.delete_message(message_id UUID)
+            RETURNS VOID
+            LANGUAGE plpgsql
+            SECURITY DEFINER
+            SET search_path = public
+            AS $$
+            BEGIN
+              UPDATE messages
+                SET content = '',
+                  is_deleted = true,
+                  updated_at = NOW(),
+                  attachment_path = NULL,
+                  attachment_name = NULL,
+                  attachment_mime_type = NULL,
+                  attachment_size = NULL,
+                  attachment_kind = NULL,
+                  attachment_duration = NULL
+                WHERE id = message_id AND user_id = auth.uid() AND NOT is_deleted;
+
+              IF NOT FOUND THEN
+                RAISE EXCEPTION 'Message not found';
+              END IF;
+            END;
+            $$;
+          `,
+          })
+          .catch((err) => {
+            console.error("Error adding message attachments with SQL:", err)
+          })
+      }
+
       console.log("Database schema initialized successfully")
     }
 
@@ -0,0 +1,259 @@
+import dns from "node:dns"
+import http from "node:http"
+import https from "node:https"
+import net from "node:net"
+import { unstable_cache } from "next/cache"
+
+/**
+ * This module should ONLY be used within Route Handlers or Server Components
+ * It makes outbound requests on behalf of users, so every address it connects to is checked
+ */
+
+export type LinkPreview = {
+  url: string
+  title: string
+  description: string | null
+  image: string | null
+  site_name: string | null
+}
+
+const FETCH_TIMEOUT_MS = 5000
+const MAX_REDIRECTS = 3
+// Open Graph tags live in <head>, so there's no need to read whole pages
+const MAX_HTML_BYTES = 512 * 1024
+const CACHE_SECONDS = 60 * 60 * 24
+
+// Loopback, private, link-local, carrier-grade NAT, multicast and other non-public ranges
+const blockedAddresses = new net.BlockList()
+for (const [network, prefix] of [
+  ["0.0.0.0", 8],
+  ["10.0.0.0", 8],
+  ["100.64.0.0", 10],
+  ["127.0.0.0", 8],
+  ["169.254.0.0", 16],
+  ["172.16.0.0", 12],
+  ["192.0.0.0", 24],
+  ["192.0.2.0", 24],
+  ["192.168.0.0", 16],
+  ["198.18.0.0", 15],
+  ["198.51.100.0", 24],
+  ["203.0.113.0", 24],
+  ["224.0.0.0", 4],
+  ["240.0.0.0", 4],
+] as const) {
+  blockedAddresses.addSubnet(network, prefix, "ipv4")
+}
+for (const [network, prefix] of [
+  ["::", 128],
+  ["::1", 128],
+  ["64:ff9b::", 96],
+  ["100::", 64],
+  ["2001:db8::", 32],
+  ["fc00::", 7],
+  ["fe80::", 10],
+  ["ff00::", 8],
+] as const) {
+  blockedAddresses.addSubnet(network, prefix, "ipv6")
+}
+
+export function isBlockedAddress(address: string) {
+  const family = net.isIP(address)
+  if (family === 0) return true
+
+  // Check IPv4-mapped IPv6 addresses (::ffff:127.0.0.1) against the IPv4 ranges
+  const mapped = address.match(/^::ffff:(\d+\.\d+\.\d+\.\d+)$/i)
+  if (mapped) return blockedAddresses.check(mapped[1], "ipv4")
+
+  return blockedAddresses.check(address, family === 4 ? "ipv4" : "ipv6")
+}
+
+export type FetchHtmlOptions = {
+  signal: AbortSignal
+  maxRedirects?: number
+  maxBytes?: number
+  // Only for tests against a stub server on localhost, which the address and port checks would refuse
+  allowLocalAddresses?: boolean
+}
+
+// DNS lookup used for every connection, so a hostname can't resolve to a safe address
+// when checked and an internal one when connecting
+const safeLookup: net.LookupFunction = (hostname, options, callback) => {
+  dns.lookup(hostname, options, (error, address, family) => {
+    if (error) return callback(error, address, family)
+
+    const addresses = Array.isArray(address) ? address.map((entry) => entry.address) : [address]
+
+    if (addresses.some(isBlockedAddress)) {
+      return callback(new Error(`Refusing to connect to ${hostname}`), address, family)
+    }
+
+    callback(null, address, family)
+  })
+}
+
+function assertFetchableUrl(url: URL, allowLocalAddresses: boolean) {
+  if (url.protocol !== "http:" && url.protocol !== "https:") {
+    throw new Error("Only http and https links can be previewed")
+  }
+
+  if (url.username || url.password) {
+    throw new Error("Links with credentials can't be previewed")
+  }
+
+  if (allowLocalAddresses) return
+
+  if (url.port && url.port !== "80" && url.port !== "443") {
+    throw new Error("Only standard ports can be previewed")
+  }
+
+  // IP literals skip the DNS lookup, so check them here
+  const hostname = url.hostname.replace(/^\[|\]$/g, "")
+  if (net.isIP(hostname) && isBlockedAddress(hostname)) {
+    throw new Error(`Refusing to connect to ${hostname}`)
+  }
+}
+
+// Fetch the start of an HTML page, following a limited number of redirects
+export async function fetchHtml(url: URL, options: FetchHtmlOptions): Promise<{ html: string; url: URL }> {
+  const { signal, maxRedirects = MAX_REDIRECTS, maxBytes = MAX_HTML_BYTES, allowLocalAddresses = false } = options
+
+  assertFetchableUrl(url, allowLocalAddresses)
+
+  const client = url.protocol === "https:" ? https : http
+
+  return new Promise((resolve, reject) => {
+    const request = client.get(
+      url,
+      {
+        lookup: allowLocalAddresses ? undefined : safeLookup,
+        signal,
+        headers: {
+          "User-Agent": "PulseSpaceBot/1.0 (link preview)",
+          Accept: "text/html,application/xhtml+xml",
+        },
+      },
+      (response) => {
+        const status = response.statusCode || 0
+        const location = response.headers.location
+
+        if (status >= 300 && status < 400 && location) {
+          response.resume()
+
+          if (maxRedirects === 0) {
+            reject(new Error("Too many redirects"))
+            return
+          }
+
+          try {
+            resolve(fetchHtml(new URL(location, url), { ...options, maxRedirects: maxRedirects - 1 }))
+          } catch (error) {
+            reject(error)
+          }
+          return
+        }
+
+        const contentType = response.headers["content-type"] || ""
+
+        if (status < 200 || status >= 300 || !contentType.includes("html")) {
+          response.resume()
+          reject(new Error(`Unexpected response (${status} ${contentType})`))
+          return
+        }
+
+        const chunks: Buffer[] = []
+        let size = 0
+
+        const finish = () => resolve({ html: Buffer.concat(chunks).toString("utf8"), url })
+
+        response.on("data", (chunk: Buffer) => {
+          chunks.push(chunk)
+          size += chunk.length
+
+          if (size >= maxBytes) {
+            response.destroy()
+            finish()
+          }
+        })
+        response.on("end", finish)
+        response.on("error", reject)
+      },
+    )
+
+    request.on("error", reject)
+  })
+}
+
+function decodeEntities(value: string) {
+  return value
+    .replace(/&#x([0-9a-f]+);/gi, (_, hex) => String.fromCodePoint(parseInt(hex, 16)))
+    .replace(/&#(\d+);/g, (_, code) => String.fromCodePoint(parseInt(code, 10)))
+    .replace(/&quot;/g, '"')
+    .replace(/&#39;|&apos;/g, "'")
+    .replace(/&lt;/g, "<")
+    .replace(/&gt;/g, ">")
+    .replace(/&amp;/g, "&")
+    .trim()
+}
+
+// Collect <meta property|name="..." content="..."> pairs from a page
+function parseMetaTags(html: string) {
+  const tags = new Map<string, string>()
+
+  for (const [tag] of html.matchAll(/<meta\s[^>]*>/gi)) {
+    const attributes = new Map<string, string>()
+
+    for (const [, name, , doubleQuoted, singleQuoted] of tag.matchAll(/([a-z:-]+)\s*=\s*("([^"]*)"|'([^']*)')/gi)) {
+      attributes.set(name.toLowerCase(), doubleQuoted ?? singleQuoted)
+    }
+
+    const key = (attributes.get("property") || attributes.get("name"))?.toLowerCase()
+    const content = attributes.get("content")
+
+    if (key && content && !tags.has(key)) {
+      tags.set(key, decodeEntities(content))
+    }
+  }
+
+  return tags
+}
+
+export function parseLinkPreview(html: string, pageUrl: URL): LinkPreview | null {
+  const meta = parseMetaTags(html)
+  const titleTag = html.match(/<title[^>]*>([^<]*)<\/title>/i)?.[1]
+
+  const title = meta.get("og:title") || meta.get("twitter:title") || (titleTag && decodeEntities(titleTag))
+  if (!title) return null
+
+  let image = meta.get("og:image") || meta.get("og:image:url") || meta.get("twitter:image") || null
+
+  if (image) {
+    try {
+      const imageUrl = new URL(image, pageUrl)
+      image = imageUrl.protocol === "https:" || imageUrl.protocol === "http:" ? imageUrl.toString() : null
+    } catch {
+      image = null
+    }
+  }
+
+  return {
+    url: pageUrl.toString(),
+    title: title.slice(0, 200),
+    description:
+      (meta.get("og:description") || meta.get("twitter:description") || meta.get("description"))?.slice(0, 300) ||
+      null,
+    image,
+    site_name: meta.get("og:site_name") || null,
+  }
+}
+
+async function fetchLinkPreview(url: string) {
+  const { html, url: finalUrl } = await fetchHtml(new URL(url), { signal: AbortSignal.timeout(FETCH_TIMEOUT_MS) })
+
+  return parseLinkPreview(html, finalUrl)
+}
+
+/**
+ * Fetch the Open Graph details of a page, cached for a day.
+ * Pages without a title resolve to null; failed requests throw and aren't cached.
+ */
+export const getLinkPreview = unstable_cache(fetchLinkPreview, ["link-preview"], { revalidate: CACHE_SECONDS })
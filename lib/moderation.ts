@@ -0,0 +1,66 @@
+import { supabase } from "./supabase"
+import type { Database } from "./database.types"
+
+export type Report = Database["public"]["Tables"]["reports"]["Row"]
+export type ReportTargetType = Report["target_type"]
+export type ReportReason = Report["reason"]
+export type ModerationAction = Database["public"]["Functions"]["moderate_report"]["Args"]["action"]
+
+// Must match the reason check on the reports table in init-supabase.ts
+export const REPORT_REASONS: { value: ReportReason; label: string; description: string }[] = [
+  { value: "spam", label: "Spam", description: "Repetitive, misleading or promotional content" },
+  { value: "harassment", label: "Harassment or bullying", description: "Targeting or intimidating someone" },
+  { value: "hate", label: "Hate speech", description: "Attacks on people based on who they are" },
+  { value: "violence", label: "Violence or threats", description: "Threatening or promoting violence" },
+  { value: "nudity", label: "Nudity or sexual content", description: "Sexually explicit material" },
+  { value: "misinformation", label: "False information", description: "Deliberately misleading claims" },
+  { value: "other", label: "Something else", description: "Tell us more in the details below" },
+]
+
+export const REPORT_DETAILS_LIMIT = 500
+
+export const SUSPENSION_DAYS_OPTIONS = [1, 7, 30, 365]
+
+export const reportReasonLabel = (reason: ReportReason) =>
+  REPORT_REASONS.find((option) => option.value === reason)?.label ?? reason
+
+/**
+ * Files a report as the current user. The reported user and a snapshot of the content are filled in by the
+ * database, so reports stay readable after the content is edited or deleted.
+ * Returns false when the user has already reported this target.
+ */
+export async function createReport(
+  reporterId: string,
+  targetType: ReportTargetType,
+  targetId: string,
+  reason: ReportReason,
+  details: string,
+) {
+  const { error } = await supabase.from("reports").insert({
+    reporter_id: reporterId,
+    target_type: targetType,
+    target_id: targetId,
+    reason,
+    details: details.trim() || null,
+  })
+
+  if (error?.code === "23505") return false
+  if (error) throw error
+
+  return true
+}
+
+export async function moderateReport(
+  reportId: string,
+  action: ModerationAction,
+  options: { suspendDays?: number; note?: string } = {},
+) {
+  const { error } = await supabase.rpc("moderate_report", {
+    report_id: reportId,
+    action,
+    suspend_days: options.suspendDays,
+    note: options.note?.trim() || null,
+  })
+
+  if (error) throw error
+}
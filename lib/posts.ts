@@ -0,0 +1,191 @@
+import { supabase } from "./supabase"
+import { getStoragePath } from "./upload"
+import { REACTIONS_SELECT, type Reaction } from "./reactions"
+
+export type PostMedia = {
+  id: string
+  // Path in the private post-media bucket, or a public post-images URL for media uploaded before it
+  url: string
+  media_type: "image" | "video"
+  blurhash: string | null
+  position: number
+}
+
+export type Post = {
+  id: string
+  content: string
+  image_url: string | null
+  created_at: string
+  updated_at: string
+  user_id: string
+  // Set by moderators; hidden posts are only returned to their author
+  is_hidden: boolean
+  profiles: {
+    username: string
+    avatar_url: string | null
+  }
+  post_media: PostMedia[]
+  likes_count: number
+  comments_count: number
+  user_has_liked: boolean
+  reactions: Reaction[]
+}
+
+// Keyset position of the oldest post loaded so far
+export type PostCursor = Pick<Post, "id" | "created_at">
+
+export const POSTS_PAGE_SIZE = 20
+
+export const POST_MEDIA_BUCKET = "post-media"
+
+// Signed URLs are requested when a post is shown, so this only needs to cover one sitting
+const SIGNED_URL_EXPIRY = 60 * 60
+
+export const isPostMediaPath = (url: string) => !/^https?:\/\//i.test(url)
+
+// URL to load a post's media from, signing paths in the private bucket for the viewer
+export async function getPostMediaUrl(url: string) {
+  if (!isPostMediaPath(url)) return url
+
+  const { data, error } = await supabase.storage.from(POST_MEDIA_BUCKET).createSignedUrl(url, SIGNED_URL_EXPIRY)
+
+  if (error) throw error
+
+  return data.signedUrl
+}
+
+export const POST_SELECT = `
+  *,
+  profiles:user_id(username, avatar_url),
+  post_media(id, url, media_type, blurhash, position),
+  likes_count:likes(count),
+  comments_count:comments(count),
+  user_has_liked:likes!inner(user_id),
+  ${REACTIONS_SELECT}
+`
+
+// Extra embeds let callers filter on related tables, e.g. "post_tags!inner(tag)"
+export function postsQuery(embed?: string) {
+  return supabase.from("posts").select(embed ? `${POST_SELECT}, ${embed}` : POST_SELECT)
+}
+
+export type PostsQuery = ReturnType<typeof postsQuery>
+
+// Transform a row from POST_SELECT to match our Post type
+export function toPost(row: any, viewerId: string): Post {
+  return {
+    ...row,
+    profiles: row.profiles as any,
+    post_media: sortPostMedia(row.post_media),
+    likes_count: row.likes_count[0]?.count || 0,
+    comments_count: row.comments_count[0]?.count || 0,
+    user_has_liked: row.user_has_liked.some((like: any) => like.user_id === viewerId),
+    reactions: row.reactions || [],
+  }
+}
+
+export function sortPostMedia(media: PostMedia[] | null | undefined) {
+  return [...(media || [])].sort((a, b) => a.position - b.position)
+}
+
+export async function fetchPost(postId: string, viewerId: string) {
+  const { data, error } = await postsQuery().eq("id", postId).single()
+
+  if (error) return null
+
+  return toPost(data, viewerId)
+}
+
+// Like or unlike a post as the viewer, returning the updated post or null if it failed
+export async function togglePostLike(post: Post, viewerId: string): Promise<Post | null> {
+  if (post.user_has_liked) {
+    // Unlike the post
+    const { error } = await supabase.from("likes").delete().eq("post_id", post.id).eq("user_id", viewerId)
+
+    if (error) {
+      console.error("Error unliking post:", error)
+      return null
+    }
+
+    return {
+      ...post,
+      likes_count: post.likes_count - 1,
+      user_has_liked: false,
+    }
+  }
+
+  // Like the post
+  const { error } = await supabase.from("likes").insert({
+    post_id: post.id,
+    user_id: viewerId,
+  })
+
+  if (error) {
+    console.error("Error liking post:", error)
+    return null
+  }
+
+  // Create notification if the post is not by the current user
+  if (post.user_id !== viewerId) {
+    await supabase.from("notifications").insert({
+      user_id: post.user_id,
+      type: "like",
+      related_id: post.id,
+      from_user_id: viewerId,
+      is_read: false,
+    })
+  }
+
+  return {
+    ...post,
+    likes_count: post.likes_count + 1,
+    user_has_liked: true,
+  }
+}
+
+// Posts only get a newer updated_at when their content is edited
+export function isPostEdited(post: Pick<Post, "created_at" | "updated_at">) {
+  return new Date(post.updated_at).getTime() > new Date(post.created_at).getTime()
+}
+
+export async function updatePostContent(postId: string, content: string) {
+  const { data, error } = await supabase
+    .from("posts")
+    .update({ content })
+    .eq("id", postId)
+    .select("content, updated_at")
+    .single()
+
+  if (error) throw error
+
+  return data
+}
+
+// Delete a post along with its uploads; likes, comments and notifications are removed by the database
+export async function deletePost(post: Pick<Post, "id" | "image_url" | "post_media">) {
+  const { error } = await supabase.from("posts").delete().eq("id", post.id)
+
+  if (error) throw error
+
+  const urls = [...new Set([post.image_url, ...post.post_media.map((media) => media.url)])]
+  const removals = [
+    { bucket: POST_MEDIA_BUCKET, paths: urls.filter((url): url is string => !!url && isPostMediaPath(url)) },
+    {
+      bucket: "post-images",
+      paths: urls.flatMap((url) => {
+        const path = url && !isPostMediaPath(url) && getStoragePath(url, "post-images")
+        return path ? [path] : []
+      }),
+    },
+  ]
+
+  for (const { bucket, paths } of removals) {
+    if (paths.length === 0) continue
+
+    const { error: storageError } = await supabase.storage.from(bucket).remove(paths)
+
+    if (storageError) {
+      console.error("Error removing post media:", storageError)
+    }
+  }
+}
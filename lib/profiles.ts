@@ -0,0 +1,116 @@
+import { z } from "zod"
+import { supabase } from "./supabase"
+import { getBlockedUserIds, toInFilter } from "./blocks"
+
+export type ProfileSummary = {
+  id: string
+  username: string
+  avatar_url: string | null
+}
+
+type SearchProfilesOptions = {
+  limit?: number
+  offset?: number
+  // Only match these users, e.g. the members of a chat
+  userIds?: string[]
+}
+
+// Find profiles whose username contains the query, leaving out users blocked either way
+export async function searchProfiles(query: string, { limit = 20, offset = 0, userIds }: SearchProfilesOptions = {}) {
+  const blockedIds = await getBlockedUserIds()
+
+  let request = supabase.from("profiles").select("id, username, avatar_url").ilike("username", `%${query}%`)
+
+  if (userIds) {
+    request = request.in("id", userIds)
+  }
+
+  if (blockedIds.length > 0) {
+    request = request.not("id", "in", toInFilter(blockedIds))
+  }
+
+  const { data, error } = await request.order("username").range(offset, offset + limit - 1)
+
+  if (error) throw error
+
+  return (data || []) as ProfileSummary[]
+}
+
+// Limits must match the CHECK constraints on public.profiles in init-supabase.ts
+export const PROFILE_LIMITS = {
+  displayName: 50,
+  bio: 160,
+  website: 100,
+  location: 30,
+}
+
+// Trimmed text that is stored as null when left empty
+const optionalText = (label: string, max: number) =>
+  z
+    .string()
+    .trim()
+    .max(max, `${label} must be at most ${max} characters`)
+    .transform((value) => value || null)
+
+export const profileDetailsSchema = z.object({
+  display_name: optionalText("Display name", PROFILE_LIMITS.displayName),
+  bio: optionalText("Bio", PROFILE_LIMITS.bio),
+  location: optionalText("Location", PROFILE_LIMITS.location),
+  website: z
+    .string()
+    .trim()
+    // Accept "example.com" as well as full URLs
+    .transform((value) => (value && !/^https?:\/\//i.test(value) ? `https://${value}` : value))
+    .pipe(
+      z
+        .string()
+        .max(PROFILE_LIMITS.website, `Website must be at most ${PROFILE_LIMITS.website} characters`)
+        .refine((value) => !value || URL.canParse(value), "Website must be a valid URL"),
+    )
+    .transform((value) => value || null),
+})
+
+export type ProfileDetailsInput = z.input<typeof profileDetailsSchema>
+export type ProfileDetails = z.output<typeof profileDetailsSchema>
+
+// Must match change_username and username_history in init-supabase.ts
+export const USERNAME_RULES = {
+  pattern: /^[A-Za-z0-9_.]{3,30}$/,
+  cooldownDays: 30,
+  reservationDays: 14,
+}
+
+export const usernameSchema = z
+  .string()
+  .trim()
+  .regex(USERNAME_RULES.pattern, "Usernames must be 3-30 letters, numbers, underscores or periods")
+
+/**
+ * Whether the current user (or a new signup) can take this username.
+ * Handles given up recently are reserved for their previous owner.
+ */
+export async function isUsernameAvailable(username: string) {
+  const { data, error } = await supabase.rpc("username_available", { candidate: username })
+
+  if (error) throw error
+
+  return !!data
+}
+
+// The date a user who last changed their username at changedAt may change it again, or null if they already can
+export function getNextUsernameChange(changedAt: string | null) {
+  if (!changedAt) return null
+
+  const next = new Date(changedAt)
+  next.setDate(next.getDate() + USERNAME_RULES.cooldownDays)
+
+  return next > new Date() ? next : null
+}
+
+export async function changeUsername(username: string) {
+  const { data, error } = await supabase.rpc("change_username", { new_username: username })
+
+  if (error) throw error
+
+  return data as string
+}
@@ -0,0 +1,94 @@
+import { supabase } from "./supabase"
+import type { Database } from "./database.types"
+
+export type ReactionTargetType = Database["public"]["Tables"]["reactions"]["Row"]["target_type"]
+
+// As embedded on posts and messages with "reactions(id, emoji, user_id)". Realtime deletes only carry
+// the id, so it is kept whenever it is known
+export type Reaction = {
+  id?: string
+  emoji: string
+  user_id: string
+}
+
+export type ReactionSummary = {
+  emoji: string
+  count: number
+  reacted: boolean
+}
+
+// Must match the emoji check on the reactions table in init-supabase.ts
+export const REACTION_EMOJIS = ["👍", "❤️", "😂", "😮", "😢", "🙏"]
+
+export const REACTIONS_SELECT = "reactions(id, emoji, user_id)"
+
+// Counts per emoji in picker order, flagging the ones the viewer used
+export function summarizeReactions(reactions: Reaction[], viewerId: string | undefined): ReactionSummary[] {
+  return REACTION_EMOJIS.map((emoji) => {
+    const matching = reactions.filter((reaction) => reaction.emoji === emoji)
+    return {
+      emoji,
+      count: matching.length,
+      reacted: matching.some((reaction) => reaction.user_id === viewerId),
+    }
+  }).filter((summary) => summary.count > 0)
+}
+
+// Safe to call with the viewer's own change twice, once locally and once from realtime
+export function applyReactionChange(reactions: Reaction[], change: Reaction, added: boolean) {
+  const existing = reactions.find((reaction) => reaction.emoji === change.emoji && reaction.user_id === change.user_id)
+  const rest = reactions.filter((reaction) => reaction !== existing)
+
+  return added ? [...rest, { id: change.id ?? existing?.id, emoji: change.emoji, user_id: change.user_id }] : rest
+}
+
+// Whether a removed reaction is one of these, going by the id that realtime deletes carry
+export const hasReaction = (reactions: Reaction[], reactionId: string) =>
+  reactions.some((reaction) => reaction.id === reactionId)
+
+export const removeReaction = (reactions: Reaction[], reactionId: string) =>
+  reactions.filter((reaction) => reaction.id !== reactionId)
+
+// Adds or removes the viewer's reaction, returning the updated list
+export async function toggleReaction(
+  targetType: ReactionTargetType,
+  targetId: string,
+  viewerId: string,
+  emoji: string,
+  reactions: Reaction[],
+) {
+  const reacted = reactions.some((reaction) => reaction.emoji === emoji && reaction.user_id === viewerId)
+
+  const { data, error } = reacted
+    ? await supabase
+        .from("reactions")
+        .delete()
+        .eq("target_type", targetType)
+        .eq("target_id", targetId)
+        .eq("user_id", viewerId)
+        .eq("emoji", emoji)
+    : await supabase
+        .from("reactions")
+        .insert({ target_type: targetType, target_id: targetId, user_id: viewerId, emoji })
+        .select("id")
+        .single()
+
+  // A duplicate means the reaction is already there, e.g. from another tab
+  if (error && error.code !== "23505") throw error
+
+  return applyReactionChange(reactions, { id: data?.id, emoji, user_id: viewerId }, !reacted)
+}
+
+export async function getReactors(targetType: ReactionTargetType, targetId: string, emoji: string) {
+  const { data, error } = await supabase
+    .from("reactions")
+    .select("user_id, profiles:user_id(username)")
+    .eq("target_type", targetType)
+    .eq("target_id", targetId)
+    .eq("emoji", emoji)
+    .order("created_at", { ascending: true })
+
+  if (error) throw error
+
+  return (data || []) as unknown as { user_id: string; profiles: { username: string } | null }[]
+}
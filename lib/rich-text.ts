@@ -0,0 +1,156 @@
+import { supabase } from "./supabase"
+
+// Both must match the patterns used by the sync_post_tags trigger in init-supabase.ts
+const URL_PATTERN = /https?:\/\/[^\s<>"]+[^\s<>".,:;!?)']/g
+const HASHTAG_PATTERN = /(?<![A-Za-z0-9_])#([A-Za-z][A-Za-z0-9_]{0,49})(?![A-Za-z0-9_])/g
+
+// Mentions are stored as @[username](user id) so they keep pointing at the right profile after a rename
+const MENTION_PATTERN = /@\[([^\]\n]{1,50})\]\(([0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12})\)/g
+
+// URLs come first so a #fragment inside a link isn't read as a hashtag
+const CONTENT_PATTERN = new RegExp(
+  `(${URL_PATTERN.source})|${MENTION_PATTERN.source}|${HASHTAG_PATTERN.source}`,
+  "g",
+)
+
+export type MentionedUser = {
+  id: string
+  username: string
+}
+
+export type ContentSegment =
+  | { type: "text"; text: string }
+  | { type: "url"; text: string; href: string }
+  | { type: "hashtag"; text: string; tag: string }
+  | { type: "mention"; text: string; userId: string }
+
+// Tags are stored lowercased so #React and #react end up on the same page
+export function normalizeTag(tag: string) {
+  return tag.replace(/^#/, "").toLowerCase()
+}
+
+/**
+ * Split stored content into plain text, URL, hashtag and mention segments for rendering.
+ */
+export function parseContent(content: string): ContentSegment[] {
+  const segments: ContentSegment[] = []
+  let lastIndex = 0
+
+  for (const match of content.matchAll(CONTENT_PATTERN)) {
+    const [whole, url, username, userId, tag] = match
+    const start = match.index!
+
+    if (start > lastIndex) {
+      segments.push({ type: "text", text: content.slice(lastIndex, start) })
+    }
+
+    if (url) {
+      segments.push({ type: "url", text: formatUrlForDisplay(url), href: url })
+    } else if (userId) {
+      segments.push({ type: "mention", text: `@${username}`, userId })
+    } else {
+      segments.push({ type: "hashtag", text: `#${tag}`, tag: normalizeTag(tag) })
+    }
+
+    lastIndex = start + whole.length
+  }
+
+  if (lastIndex < content.length) {
+    segments.push({ type: "text", text: content.slice(lastIndex) })
+  }
+
+  return segments
+}
+
+// Drop the protocol and shorten long links so they don't dominate the text
+function formatUrlForDisplay(url: string) {
+  const display = url.replace(/^https?:\/\//, "")
+  return display.length > 40 ? `${display.slice(0, 40)}…` : display
+}
+
+export function getFirstUrl(content: string) {
+  return content.match(URL_PATTERN)?.[0] ?? null
+}
+
+// Stored content as people read it, e.g. for previews and metadata
+export function toPlainText(content: string) {
+  return content.replace(MENTION_PATTERN, (_, username) => `@${username}`)
+}
+
+function escapeRegExp(value: string) {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, "\\$&")
+}
+
+/**
+ * Turn the @username text picked from autocomplete into stored mentions.
+ * Mentions the user typed over or deleted are left as plain text.
+ */
+export function encodeMentions(text: string, mentions: MentionedUser[]) {
+  // Longest names first so "@bob smith" isn't claimed by a mention of "bob"
+  return [...mentions]
+    .sort((a, b) => b.username.length - a.username.length)
+    .reduce(
+      (result, mention) =>
+        result.replace(
+          new RegExp(`(?<!\\w)@${escapeRegExp(mention.username)}(?!\\w)`, "g"),
+          () => `@[${mention.username}](${mention.id})`,
+        ),
+      text,
+    )
+}
+
+// Editable text and the mentions it contains, the inverse of encodeMentions
+export function decodeMentions(content: string) {
+  const mentions: MentionedUser[] = []
+
+  for (const match of content.matchAll(MENTION_PATTERN)) {
+    mentions.push({ id: match[2], username: match[1] })
+  }
+
+  return { text: toPlainText(content), mentions }
+}
+
+export function getMentionedUserIds(content: string) {
+  return [...new Set([...content.matchAll(MENTION_PATTERN)].map((match) => match[2]))]
+}
+
+type NotifyMentionsOptions = {
+  content: string
+  // Users already mentioned before an edit aren't notified again
+  previousContent?: string
+  type: "mention" | "message_mention"
+  relatedId: string
+  fromUserId: string
+  // Restricts who can be notified, e.g. to the members of a chat
+  allowedUserIds?: string[]
+}
+
+export async function notifyMentions({
+  content,
+  previousContent,
+  type,
+  relatedId,
+  fromUserId,
+  allowedUserIds,
+}: NotifyMentionsOptions) {
+  const alreadyMentioned = new Set(previousContent ? getMentionedUserIds(previousContent) : [])
+  const userIds = getMentionedUserIds(content).filter(
+    (id) => id !== fromUserId && !alreadyMentioned.has(id) && (!allowedUserIds || allowedUserIds.includes(id)),
+  )
+
+  if (userIds.length === 0) return
+
+  const { error } = await supabase.from("notifications").insert(
+    userIds.map((userId) => ({
+      user_id: userId,
+      type,
+      related_id: relatedId,
+      from_user_id: fromUserId,
+      is_read: false,
+    })),
+  )
+
+  if (error) {
+    console.error("Error creating mention notifications:", error)
+  }
+}
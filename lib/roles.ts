@@ -0,0 +1,37 @@
+export type UserRole = "user" | "moderator" | "admin"
+
+const ROLE_RANK: Record<UserRole, number> = { user: 0, moderator: 1, admin: 2 }
+
+// Staff areas and the lowest role that can open them, most specific first
+const ROLE_PROTECTED_ROUTES: { prefix: string; role: UserRole }[] = [
+  { prefix: "/admin/moderation", role: "moderator" },
+  { prefix: "/admin", role: "admin" },
+]
+
+export const hasRole = (role: UserRole, required: UserRole) => ROLE_RANK[role] >= ROLE_RANK[required]
+
+export function getRequiredRole(pathname: string): UserRole {
+  const route = ROLE_PROTECTED_ROUTES.find(
+    ({ prefix }) => pathname === prefix || pathname.startsWith(`${prefix}/`),
+  )
+
+  return route?.role ?? "user"
+}
+
+/**
+ * Reads the user_role claim added by the custom_access_token_hook in init-supabase.ts.
+ * The token isn't verified here, so this is only good for routing and showing links;
+ * the database checks user_roles itself before doing anything privileged.
+ */
+export function getRoleFromAccessToken(accessToken: string | undefined): UserRole {
+  if (!accessToken) return "user"
+
+  try {
+    const payload = accessToken.split(".")[1].replace(/-/g, "+").replace(/_/g, "/")
+    const { user_role } = JSON.parse(atob(payload.padEnd(Math.ceil(payload.length / 4) * 4, "=")))
+
+    return user_role in ROLE_RANK ? user_role : "user"
+  } catch {
+    return "user"
+  }
+}
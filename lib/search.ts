@@ -0,0 +1,64 @@
+import { supabase } from "./supabase"
+
+export const SEARCH_PAGE_SIZE = 20
+
+export type PostSearchResult = {
+  id: string
+  user_id: string
+  created_at: string
+  username: string
+  avatar_url: string | null
+  rank: number
+  snippet: string
+}
+
+export type TagSearchResult = {
+  tag: string
+  post_count: number
+}
+
+export type SnippetPart = {
+  text: string
+  highlighted: boolean
+}
+
+// search_posts wraps matched words in these control characters instead of HTML, so snippets never need escaping
+const HIGHLIGHT_START = "\u0002"
+const HIGHLIGHT_END = "\u0003"
+
+export async function searchPosts(query: string, offset = 0) {
+  const { data, error } = await supabase.rpc("search_posts", {
+    search_query: query,
+    page_size: SEARCH_PAGE_SIZE,
+    page_offset: offset,
+  })
+
+  if (error) throw error
+
+  return (data || []) as PostSearchResult[]
+}
+
+export async function searchTags(query: string, offset = 0) {
+  const { data, error } = await supabase.rpc("search_tags", {
+    search_query: query,
+    page_size: SEARCH_PAGE_SIZE,
+    page_offset: offset,
+  })
+
+  if (error) throw error
+
+  return (data || []) as TagSearchResult[]
+}
+
+// Split a search_posts snippet into plain and highlighted runs of text
+export function parseSnippet(snippet: string): SnippetPart[] {
+  return snippet.split(HIGHLIGHT_START).flatMap((chunk, index) => {
+    if (index === 0) return chunk ? [{ text: chunk, highlighted: false }] : []
+
+    const [highlighted, rest = ""] = chunk.split(HIGHLIGHT_END)
+    return [
+      { text: highlighted, highlighted: true },
+      ...(rest ? [{ text: rest, highlighted: false }] : []),
+    ]
+  })
+}
@@ -0,0 +1,48 @@
+import { supabase } from "./supabase"
+import type { Database } from "./database.types"
+
+export type UserSettings = Omit<Database["public"]["Tables"]["user_settings"]["Row"], "user_id" | "updated_at">
+
+export type ThemePreference = UserSettings["theme"]
+
+// Used until a user saves their settings for the first time. Must match the column defaults in init-supabase.ts
+export const DEFAULT_SETTINGS: UserSettings = {
+  theme: "system",
+  allow_messages_from: "everyone",
+  notify_likes: true,
+  notify_comments: true,
+  notify_follows: true,
+  notify_mentions: true,
+}
+
+export const SETTINGS_COLUMNS =
+  "theme, allow_messages_from, notify_likes, notify_comments, notify_follows, notify_mentions"
+
+export async function getUserSettings(userId: string): Promise<UserSettings> {
+  const { data, error } = await supabase
+    .from("user_settings")
+    .select(SETTINGS_COLUMNS)
+    .eq("user_id", userId)
+    .maybeSingle()
+
+  if (error) throw error
+
+  return data ?? DEFAULT_SETTINGS
+}
+
+export async function updateUserSettings(userId: string, changes: Partial<UserSettings>) {
+  const { error } = await supabase
+    .from("user_settings")
+    .upsert({ user_id: userId, ...changes, updated_at: new Date().toISOString() })
+
+  if (error) throw error
+}
+
+// Whether the current user may start a conversation with another user, per their privacy settings
+export async function canMessage(userId: string) {
+  const { data, error } = await supabase.rpc("can_message", { other_user_id: userId })
+
+  if (error) throw error
+
+  return !!data
+}
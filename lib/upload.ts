@@ -0,0 +1,63 @@
+import { supabase } from "./supabase"
+
+/**
+ * Upload a file to a storage bucket, reporting progress as a percentage.
+ * supabase-js doesn't expose upload progress, so this posts to the Storage API directly.
+ */
+export async function uploadWithProgress(
+  bucket: string,
+  path: string,
+  file: Blob,
+  onProgress: (percent: number) => void,
+) {
+  const {
+    data: { session },
+  } = await supabase.auth.getSession()
+
+  if (!session) throw new Error("You need to be signed in to upload files")
+
+  await new Promise<void>((resolve, reject) => {
+    const xhr = new XMLHttpRequest()
+
+    xhr.open("POST", `${process.env.NEXT_PUBLIC_SUPABASE_URL}/storage/v1/object/${bucket}/${path}`)
+    xhr.setRequestHeader("Authorization", `Bearer ${session.access_token}`)
+    xhr.setRequestHeader("apikey", process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!)
+    xhr.setRequestHeader("x-upsert", "false")
+    if (file.type) xhr.setRequestHeader("Content-Type", file.type)
+
+    xhr.upload.onprogress = (event) => {
+      if (event.lengthComputable) {
+        onProgress(Math.round((event.loaded / event.total) * 100))
+      }
+    }
+
+    xhr.onload = () => {
+      if (xhr.status >= 200 && xhr.status < 300) {
+        onProgress(100)
+        resolve()
+      } else {
+        let message = "Upload failed"
+        try {
+          message = JSON.parse(xhr.responseText).message || message
+        } catch {
+          // Keep the generic message when the response isn't JSON
+        }
+        reject(new Error(message))
+      }
+    }
+
+    xhr.onerror = () => reject(new Error("Upload failed"))
+
+    xhr.send(file)
+  })
+
+  const { data } = supabase.storage.from(bucket).getPublicUrl(path)
+
+  return data.publicUrl
+}
+
+// Storage path of a public URL within a bucket, e.g. for removing the object later
+export function getStoragePath(publicUrl: string, bucket: string) {
+  const path = publicUrl.split(`/${bucket}/`)[1]
+  return path ? decodeURIComponent(path) : null
+}
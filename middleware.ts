@@ -2,6 +2,7 @@ import { createMiddlewareClient } from "@supabase/auth-helpers-nextjs"
 import { NextResponse } from "next/server"
 import type { NextRequest } from "next/server"
 import type { Database } from "@/lib/database.types"
+import { getRequiredRole, getRoleFromAccessToken, hasRole } from "@/lib/roles"
 
 export async function middleware(req: NextRequest) {
   const res = NextResponse.next()
@@ -17,10 +18,12 @@ export async function middleware(req: NextRequest) {
   } = await supabase.auth.getSession()
 
   // If accessing a protected route without a session, redirect to login
+  // Post permalinks stay public so shared links can be opened and unfurled by other apps
   const isProtectedRoute =
     !req.nextUrl.pathname.startsWith("/login") &&
     !req.nextUrl.pathname.startsWith("/signup") &&
     !req.nextUrl.pathname.startsWith("/auth/") &&
+    !req.nextUrl.pathname.startsWith("/post/") &&
     !req.nextUrl.pathname.startsWith("/_next/") &&
     !req.nextUrl.pathname.includes(".")
 
@@ -30,6 +33,15 @@ export async function middleware(req: NextRequest) {
     return NextResponse.redirect(redirectUrl)
   }
 
+  // Staff areas need the role from the session's JWT claims; the pages and database check it again
+  const requiredRole = getRequiredRole(req.nextUrl.pathname)
+
+  if (session && !hasRole(getRoleFromAccessToken(session.access_token), requiredRole)) {
+    const redirectUrl = req.nextUrl.clone()
+    redirectUrl.pathname = "/"
+    return NextResponse.redirect(redirectUrl)
+  }
+
   // If accessing login/signup with a session, redirect to home
   const isAuthRoute = req.nextUrl.pathname.startsWith("/login") || req.nextUrl.pathname.startsWith("/signup")
 